@@ -1,129 +1,440 @@
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import { SUBJECTS } from './data/questions';
-import { Difficulty, Question, EvaluationResult } from './types';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { Difficulty, Question, SessionAnswer, PartialEvaluation, TutorMessage, ProgressRecord, SessionMode, MockTestBlueprint, ExamSettings, GradingMode, SessionRecord, Profile, AnswerImage } from './types';
 import SetupScreen from './components/SetupScreen';
 import QuestionScreen from './components/QuestionScreen';
 import SummaryScreen from './components/SummaryScreen';
-import { QUESTIONS_PER_SESSION } from './constants';
-import { evaluateAnswer } from './services/geminiService';
+import AuthoringScreen from './components/AuthoringScreen';
+import WeakConceptsScreen from './components/WeakConceptsScreen';
+import ProgressDashboard from './components/ProgressDashboard';
+import ProfileScreen from './components/ProfileScreen';
+import { QUESTIONS_PER_SESSION, BATCH_EVALUATION_CONCURRENCY } from './constants';
+import { getEvaluator } from './services/evaluator';
+import { getProgress, saveProgress, saveSession, updateSession, listSessions } from './services/historyStore';
+import { getDueReviews } from './services/spacedRepetition';
+import { buildMockTest } from './services/mockTest';
+import { getSubjects } from './services/questionBank';
+import { paperDurationSeconds, questionTimeLimitSeconds } from './services/timing';
+import { evaluateBatch } from './services/batchEvaluation';
+import { applyHintDeduction, totalHintDeduction } from './services/hints';
+import { DEFAULT_PROFILE_SETTINGS, saveProfileSettings } from './services/profileStore';
+import { ADAPTIVE_STARTING_DIFFICULTY, averageChapterMarks, nextDifficulty, pickAdaptiveQuestion } from './services/adaptiveDifficulty';
 
 // Comment: Questions are originally worded and aligned to CBSE Class 11 topics without reproducing NCERT verbatim.
 
-type AppState = 'setup' | 'quiz' | 'summary';
+type AppState = 'profiles' | 'setup' | 'quiz' | 'grading' | 'summary' | 'authoring' | 'weakConcepts' | 'progress';
 
 export default function App() {
-  const [appState, setAppState] = useState<AppState>('setup');
+  const [appState, setAppState] = useState<AppState>('profiles');
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [sessionMode, setSessionMode] = useState<SessionMode>('practice');
   const [selectedSubject, setSelectedSubject] = useState<string>('');
   const [selectedChapter, setSelectedChapter] = useState<string>('');
   const [selectedDifficulty, setSelectedDifficulty] = useState<Difficulty | null>(null);
 
   const [questions, setQuestions] = useState<Question[]>([]);
+  // Questions the session will have once finished; adaptive sessions add theirs one at a time.
+  const [sessionLength, setSessionLength] = useState(0);
+  // Adaptive sessions: the level each question was asked at, by question id.
+  const [questionLevels, setQuestionLevels] = useState<Record<string, Difficulty>>({});
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [totalScore, setTotalScore] = useState(0);
-  const [sessionAnswers, setSessionAnswers] = useState<Array<{ question: Question, studentAnswer: string, result: EvaluationResult | null }>>([]);
+  const [sessionAnswers, setSessionAnswers] = useState<SessionAnswer[]>([]);
+  const [sessionStartedAt, setSessionStartedAt] = useState<number>(0);
+  const [examSettings, setExamSettings] = useState<ExamSettings>(DEFAULT_PROFILE_SETTINGS.examSettings);
+  const [paperDeadline, setPaperDeadline] = useState<number | null>(null);
+  const [gradingMode, setGradingMode] = useState<GradingMode>(DEFAULT_PROFILE_SETTINGS.gradingMode);
+  // Deferred grading: answers written so far and photos attached to them, by question id, and progress of the final batch.
+  const [draftAnswers, setDraftAnswers] = useState<Record<string, string>>({});
+  const [draftImages, setDraftImages] = useState<Record<string, AnswerImage[]>>({});
+  const [gradingProgress, setGradingProgress] = useState<{ completed: number; total: number }>({ completed: 0, total: 0 });
+  const [retryingIndex, setRetryingIndex] = useState<number | null>(null);
+  // Number of hints opened per question id in this session.
+  const [hintsUsed, setHintsUsed] = useState<Record<string, number>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [streak, setStreak] = useState<number>(() => {
-    const savedStreak = localStorage.getItem('streak');
-    return savedStreak ? parseInt(savedStreak, 10) : 0;
-  });
+  const [streak, setStreak] = useState<number>(0);
+  // Last progress read from or written to the history store; null until it has loaded.
+  const progressRef = useRef<ProgressRecord | null>(null);
+  const sessionSavedRef = useRef(false);
+  const savedSessionRef = useRef<SessionRecord | null>(null);
+  const questionShownAtRef = useRef(0);
+  // Deferred grading: time spent per question id, summed over every visit.
+  const draftTimesRef = useRef<Record<string, number>>({});
 
   useEffect(() => {
-    localStorage.setItem('streak', streak.toString());
+    if (!profile) return;
+    // Nothing is saved until the new profile's progress has loaded, so one profile's streak never overwrites another's.
+    progressRef.current = null;
+    setStreak(0);
+    getProgress(profile.id)
+      .then(progress => {
+        progressRef.current = progress;
+        setStreak(progress.streak);
+      })
+      .catch(e => {
+        console.error("Failed to load progress:", e);
+        progressRef.current = { streak: 0, longestStreak: 0 };
+      });
+  }, [profile?.id]);
+
+  useEffect(() => {
+    const progress = progressRef.current;
+    if (!profile || !progress || progress.streak === streak) return;
+    const updated = { streak, longestStreak: Math.max(progress.longestStreak, streak) };
+    progressRef.current = updated;
+    saveProgress(profile.id, updated).catch(e => console.error("Failed to save progress:", e));
   }, [streak]);
 
+  useEffect(() => {
+    if (profile) saveProfileSettings(profile.id, { examSettings, gradingMode });
+  }, [examSettings, gradingMode]);
+
+  const handleSelectProfile = useCallback((selected: Profile) => {
+    setProfile(selected);
+    setExamSettings(selected.settings.examSettings);
+    setGradingMode(selected.settings.gradingMode);
+    setError(null);
+    setAppState('setup');
+  }, []);
+
+  const handleSwitchProfile = useCallback(() => {
+    setProfile(null);
+    setError(null);
+    setAppState('profiles');
+  }, []);
+
   const shuffleArray = <T,>(array: T[]): T[] => {
     return [...array].sort(() => Math.random() - 0.5);
   };
 
+  const beginSession = useCallback((sessionQuestions: Question[], mode: SessionMode, subject: string, chapter: string, difficulty: Difficulty | null) => {
+    setQuestions(sessionQuestions);
+    setSessionLength(sessionQuestions.length);
+    setQuestionLevels({});
+    setSessionMode(mode);
+    setSelectedSubject(subject);
+    setSelectedChapter(chapter);
+    setSelectedDifficulty(difficulty);
+    setCurrentQuestionIndex(0);
+    setTotalScore(0);
+    setSessionAnswers([]);
+    setDraftAnswers({});
+    setDraftImages({});
+    setHintsUsed({});
+    draftTimesRef.current = {};
+    savedSessionRef.current = null;
+    setSessionStartedAt(Date.now());
+    setPaperDeadline(examSettings.enabled ? Date.now() + paperDurationSeconds(sessionQuestions, examSettings) * 1000 : null);
+    sessionSavedRef.current = false;
+    setError(null);
+    setAppState('quiz');
+  }, [examSettings]);
+
+  useEffect(() => {
+    questionShownAtRef.current = Date.now();
+  }, [currentQuestionIndex, questions]);
+
   const handleStartQuiz = useCallback((subject: string, chapter: string, difficulty: Difficulty) => {
     try {
-      const chapterData = SUBJECTS[subject]?.chapters.find(c => c.name === chapter);
+      const chapterData = getSubjects()[subject]?.chapters.find(c => c.name === chapter);
       if (!chapterData) throw new Error("Chapter not found");
 
       const questionPool = chapterData.questions[difficulty];
       if (!questionPool || questionPool.length === 0) throw new Error("No questions available for this selection.");
 
       const shuffledQuestions = shuffleArray(questionPool).slice(0, QUESTIONS_PER_SESSION);
-      
-      setQuestions(shuffledQuestions);
-      setSelectedSubject(subject);
-      setSelectedChapter(chapter);
-      setSelectedDifficulty(difficulty);
-      setCurrentQuestionIndex(0);
-      setTotalScore(0);
-      setSessionAnswers([]);
-      setError(null);
-      setAppState('quiz');
+      beginSession(shuffledQuestions, 'practice', subject, chapter, difficulty);
     } catch (e: any) {
       setError(e.message || "Failed to start the quiz. Please try again.");
     }
-  }, []);
+  }, [beginSession]);
+
+  // Starts at the lowest level; later questions are picked one by one in `handleNextQuestion`.
+  const handleStartAdaptive = useCallback((subject: string, chapter: string) => {
+    try {
+      const chapterData = getSubjects()[subject]?.chapters.find(c => c.name === chapter);
+      if (!chapterData) throw new Error("Chapter not found");
 
-  const handleAnswerSubmit = useCallback(async (studentAnswer: string) => {
+      const first = pickAdaptiveQuestion(chapterData, ADAPTIVE_STARTING_DIFFICULTY, new Set());
+      if (!first) throw new Error("No questions available for this selection.");
+
+      const poolSize = Object.values(Difficulty).reduce((acc, d) => acc + chapterData.questions[d].length, 0);
+      const length = Math.min(QUESTIONS_PER_SESSION, poolSize);
+      beginSession([first.question], 'adaptive', subject, chapter, null);
+      setSessionLength(length);
+      setQuestionLevels({ [first.question.id]: first.difficulty });
+      // The questions aren't known yet, so the paper is timed as if each carried the chapter's average marks.
+      if (examSettings.enabled) {
+        setPaperDeadline(Date.now() + averageChapterMarks(chapterData) * length * examSettings.secondsPerMark * 1000);
+      }
+    } catch (e: any) {
+      setError(e.message || "Failed to start the quiz. Please try again.");
+    }
+  }, [beginSession, examSettings]);
+
+  const handleStartReview = useCallback(async () => {
+    try {
+      const dueReviews = getDueReviews(await listSessions(profile!.id));
+      if (dueReviews.length === 0) throw new Error("Nothing is due for review right now. Come back later, or practise a new chapter.");
+      beginSession(dueReviews.map(review => review.question), 'review', '', '', null);
+    } catch (e: any) {
+      setError(e.message || "Failed to start the review. Please try again.");
+    }
+  }, [beginSession, profile]);
+
+  const handleStartTargeted = useCallback((targetedQuestions: Question[], subject: string, chapter: string) => {
+    beginSession(targetedQuestions, 'targeted', subject, chapter, null);
+  }, [beginSession]);
+
+  const handleStartMockTest = useCallback((blueprint: MockTestBlueprint) => {
+    try {
+      beginSession(buildMockTest(blueprint), 'mock', blueprint.subject, '', null);
+    } catch (e: any) {
+      setError(e.message || "Failed to build the mock test. Please try again.");
+    }
+  }, [beginSession]);
+
+  const handleAnswerSubmit = useCallback(async (studentAnswer: string, images: AnswerImage[], onPartial?: (partial: PartialEvaluation) => void) => {
     setIsLoading(true);
     setError(null);
     const currentQuestion = questions[currentQuestionIndex];
+    const hintCount = hintsUsed[currentQuestion.id] ?? 0;
     
+    // A retry replaces the ungraded entry left by the failed attempt instead of adding a second one.
+    const recordAnswer = (answer: SessionAnswer) => setSessionAnswers(prev => {
+      const existing = prev.findIndex(a => a.question.id === answer.question.id);
+      return existing >= 0 ? prev.map((a, i) => i === existing ? answer : a) : [...prev, answer];
+    });
+
     try {
-      const result = await evaluateAnswer(currentQuestion, studentAnswer);
+      const evaluator = getEvaluator();
+      // Streamed marks are shown with the hint deduction already taken off, like the final result.
+      const onScoredPartial = onPartial && ((partial: PartialEvaluation) => onPartial(partial.score === undefined ? partial
+        : { ...partial, score: Math.max(0, partial.score - totalHintDeduction(currentQuestion, hintCount)) }));
+      const evaluation = onScoredPartial && evaluator.evaluateStreaming
+        ? await evaluator.evaluateStreaming(currentQuestion, studentAnswer, onScoredPartial, images)
+        : await evaluator.evaluate(currentQuestion, studentAnswer, images);
+      const { result, deduction } = applyHintDeduction(currentQuestion, evaluation, hintCount);
       setTotalScore(prev => prev + result.score);
       if (result.isCorrect) {
         setStreak(prev => prev + 1);
       } else {
         setStreak(0);
       }
-      const newSessionAnswer = { question: currentQuestion, studentAnswer, result };
-      setSessionAnswers(prev => [...prev, newSessionAnswer]);
+      recordAnswer({ question: currentQuestion, studentAnswer, ...(images.length > 0 ? { images } : {}), result, answeredAt: Date.now(), timeSpentMs: Date.now() - questionShownAtRef.current, hintsUsed: hintCount, hintDeduction: deduction, difficulty: questionLevels[currentQuestion.id] });
       return result;
-    } catch (e) {
+    } catch (e: any) {
+      // A service failure is not the student's fault: the answer is kept ungraded (it can be retried here or
+      // from the summary) and neither the score nor the streak is touched.
       console.error("Evaluation failed:", e);
-      setError("Sorry, there was an error evaluating your answer. Please try again.");
-      setStreak(0); // Reset streak on error
-      const errorResult: EvaluationResult = { 
-        score: 0, 
-        feedback: "Error during evaluation.", 
-        isCorrect: false,
-        missingConcepts: [],
-        terminologyCorrections: [],
-        modelAnswerImprovement: ""
-      };
-      const newSessionAnswer = { question: currentQuestion, studentAnswer, result: errorResult };
-      setSessionAnswers(prev => [...prev, newSessionAnswer]);
-      return errorResult;
+      const message = e?.message || "Sorry, there was an error evaluating your answer.";
+      setError(message);
+      recordAnswer({ question: currentQuestion, studentAnswer, ...(images.length > 0 ? { images } : {}), result: null, answeredAt: Date.now(), timeSpentMs: Date.now() - questionShownAtRef.current, evaluationError: message, hintsUsed: hintCount, difficulty: questionLevels[currentQuestion.id] });
+      return null;
     } finally {
       setIsLoading(false);
     }
-  }, [currentQuestionIndex, questions]);
+  }, [currentQuestionIndex, questions, hintsUsed, questionLevels]);
 
-  const handleNextQuestion = useCallback((wasAnswered: boolean) => {
-    // If the question was not answered on screen, it means the user clicked "Next" to skip it.
+  const handleUseHint = useCallback((questionId: string) => {
+    setHintsUsed(prev => ({ ...prev, [questionId]: (prev[questionId] ?? 0) + 1 }));
+  }, []);
+
+  // Adaptive sessions: picks the next question from the answers so far. False when the chapter has run out.
+  const addAdaptiveQuestion = useCallback((answers: SessionAnswer[]): boolean => {
+    const chapterData = getSubjects()[selectedSubject]?.chapters.find(c => c.name === selectedChapter);
+    const next = chapterData && pickAdaptiveQuestion(chapterData, nextDifficulty(answers), new Set(questions.map(q => q.id)));
+    if (!next) return false;
+    setQuestions(prev => [...prev, next.question]);
+    setQuestionLevels(prev => ({ ...prev, [next.question.id]: next.difficulty }));
+    return true;
+  }, [selectedSubject, selectedChapter, questions]);
+
+  const handleNextQuestion = useCallback((wasAnswered: boolean, timedOut = false) => {
+    let answers = sessionAnswers;
+    // If the question was not answered on screen, the user clicked "Next" to skip it or its time ran out.
     if (!wasAnswered) {
       setStreak(0); // Reset streak on skip
       const currentQuestion = questions[currentQuestionIndex];
-      const skippedResult = {
+      const skippedResult: SessionAnswer = {
         question: currentQuestion,
         studentAnswer: "", // Empty string for a skip
         result: {
           score: 0,
-          feedback: "You skipped this question.",
+          feedback: timedOut ? "Time ran out before this question was attempted." : "You skipped this question.",
           isCorrect: false,
           missingConcepts: [],
           terminologyCorrections: [],
           modelAnswerImprovement: "",
-        }
+        },
+        answeredAt: Date.now(),
+        timeSpentMs: Date.now() - questionShownAtRef.current,
+        difficulty: questionLevels[currentQuestion.id],
       };
+      answers = [...sessionAnswers, skippedResult];
       setSessionAnswers(prev => [...prev, skippedResult]);
     }
 
+    setError(null);
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
+    } else if (sessionMode === 'adaptive' && questions.length < sessionLength && addAdaptiveQuestion(answers)) {
+      setCurrentQuestionIndex(prev => prev + 1);
     } else {
       setAppState('summary');
     }
+  }, [currentQuestionIndex, questions, sessionAnswers, questionLevels, sessionMode, sessionLength, addAdaptiveQuestion]);
+
+  const handleTutorChatChange = useCallback((questionId: string, messages: TutorMessage[]) => {
+    setSessionAnswers(prev => prev.map(a => a.question.id === questionId ? { ...a, tutorChat: messages } : a));
+  }, []);
+
+  const recordDraftTime = useCallback(() => {
+    const questionId = questions[currentQuestionIndex]?.id;
+    if (!questionId) return;
+    draftTimesRef.current[questionId] = (draftTimesRef.current[questionId] ?? 0) + Date.now() - questionShownAtRef.current;
+    questionShownAtRef.current = Date.now();
   }, [currentQuestionIndex, questions]);
 
+  const handleDraftChange = useCallback((questionId: string, answer: string) => {
+    setDraftAnswers(prev => prev[questionId] === answer ? prev : { ...prev, [questionId]: answer });
+  }, []);
+
+  const handleDraftImagesChange = useCallback((questionId: string, images: AnswerImage[]) => {
+    setDraftImages(prev => ({ ...prev, [questionId]: images }));
+  }, []);
+
+  // Deferred grading: the paper is handed in, so every written answer is graded in one batch.
+  // Blank answers are recorded as unattempted without spending an evaluation on them.
+  const handleFinishPaper = useCallback(async () => {
+    recordDraftTime();
+    const attempted = questions.filter(q => draftAnswers[q.id]?.trim() || draftImages[q.id]?.length);
+    setGradingProgress({ completed: 0, total: attempted.length });
+    setAppState('grading');
+
+    const outcomes = await evaluateBatch(
+      attempted.map(q => ({ question: q, studentAnswer: draftAnswers[q.id] ?? "", images: draftImages[q.id] })),
+      getEvaluator(),
+      BATCH_EVALUATION_CONCURRENCY,
+      (completed, total) => setGradingProgress({ completed, total }),
+    );
+
+    const answers: SessionAnswer[] = questions.map(q => {
+      const base = { question: q, studentAnswer: draftAnswers[q.id] ?? "", ...(draftImages[q.id]?.length ? { images: draftImages[q.id] } : {}), answeredAt: Date.now(), timeSpentMs: draftTimesRef.current[q.id] ?? 0, hintsUsed: hintsUsed[q.id] ?? 0 };
+      const outcome = outcomes[attempted.indexOf(q)];
+      if (!outcome) {
+        return {
+          ...base,
+          result: {
+            score: 0,
+            feedback: "This question was not attempted.",
+            isCorrect: false,
+            missingConcepts: [],
+            terminologyCorrections: [],
+            modelAnswerImprovement: "",
+          },
+        };
+      }
+      if (outcome.status === 'failed') {
+        return { ...base, result: null, evaluationError: outcome.error };
+      }
+      const { result, deduction } = applyHintDeduction(q, outcome.result, base.hintsUsed);
+      return { ...base, result, hintDeduction: deduction };
+    });
+
+    setSessionAnswers(answers);
+    setTotalScore(answers.reduce((acc, a) => acc + (a.result?.score ?? 0), 0));
+    setStreak(prev => answers.reduce((run, a) => a.result?.isCorrect ? run + 1 : a.result ? 0 : run, prev));
+    setAppState('summary');
+  }, [questions, draftAnswers, draftImages, hintsUsed, recordDraftTime]);
+
+  const handleDeferredNext = useCallback(() => {
+    if (currentQuestionIndex < questions.length - 1) {
+      recordDraftTime();
+      setCurrentQuestionIndex(prev => prev + 1);
+    } else {
+      handleFinishPaper();
+    }
+  }, [currentQuestionIndex, questions, recordDraftTime, handleFinishPaper]);
+
+  const handleDeferredPrevious = useCallback(() => {
+    if (currentQuestionIndex === 0) return;
+    recordDraftTime();
+    setCurrentQuestionIndex(prev => prev - 1);
+  }, [currentQuestionIndex, recordDraftTime]);
+
+  const handleRetryEvaluation = useCallback(async (index: number) => {
+    const answer = sessionAnswers[index];
+    if (!answer) return;
+    setRetryingIndex(index);
+    try {
+      const evaluation = await getEvaluator().evaluate(answer.question, answer.studentAnswer, answer.images);
+      const { result, deduction } = applyHintDeduction(answer.question, evaluation, answer.hintsUsed ?? 0);
+      const updatedAnswers = sessionAnswers.map((a, i) => i === index ? { ...a, result, hintDeduction: deduction, evaluationError: undefined } : a);
+      const updatedTotal = updatedAnswers.reduce((acc, a) => acc + (a.result?.score ?? 0), 0);
+      setSessionAnswers(updatedAnswers);
+      setTotalScore(updatedTotal);
+      if (savedSessionRef.current) {
+        const updatedRecord = { ...savedSessionRef.current, answers: updatedAnswers, totalScore: updatedTotal };
+        savedSessionRef.current = updatedRecord;
+        updateSession(updatedRecord).catch(e => console.error("Failed to update session history:", e));
+      }
+    } catch (e: any) {
+      console.error("Retrying evaluation failed:", e);
+      setSessionAnswers(prev => prev.map((a, i) => i === index ? { ...a, evaluationError: e?.message || "Evaluation failed." } : a));
+    } finally {
+      setRetryingIndex(null);
+    }
+  }, [sessionAnswers]);
+
+  // The paper's time ran out: whatever wasn't reached counts as unattempted and the session ends.
+  const handleTimeUp = useCallback(() => {
+    if (gradingMode === 'deferred') {
+      handleFinishPaper();
+      return;
+    }
+    // An adaptive session only holds the questions asked so far, so its unreached slots are drawn now at the
+    // current level: the summary and the saved record then count the whole paper.
+    const paper = [...questions];
+    const levels = { ...questionLevels };
+    if (sessionMode === 'adaptive') {
+      const chapterData = getSubjects()[selectedSubject]?.chapters.find(c => c.name === selectedChapter);
+      const difficulty = nextDifficulty(sessionAnswers);
+      while (chapterData && paper.length < sessionLength) {
+        const next = pickAdaptiveQuestion(chapterData, difficulty, new Set(paper.map(q => q.id)));
+        if (!next) break;
+        paper.push(next.question);
+        levels[next.question.id] = next.difficulty;
+      }
+      setQuestions(paper);
+      setQuestionLevels(levels);
+    }
+    setSessionAnswers(prev => {
+      const answeredIds = new Set(prev.map(a => a.question.id));
+      const unattempted: SessionAnswer[] = paper
+        .filter(q => !answeredIds.has(q.id))
+        .map(q => ({
+          question: q,
+          studentAnswer: "",
+          result: {
+            score: 0,
+            feedback: "Time ran out before this question was attempted.",
+            isCorrect: false,
+            missingConcepts: [],
+            terminologyCorrections: [],
+            modelAnswerImprovement: "",
+          },
+          answeredAt: Date.now(),
+          timeSpentMs: 0,
+          difficulty: levels[q.id],
+        }));
+      return [...prev, ...unattempted];
+    });
+    setAppState('summary');
+  }, [questions, gradingMode, handleFinishPaper, questionLevels, sessionMode, selectedSubject, selectedChapter, sessionAnswers, sessionLength]);
+
   const handleRestart = useCallback(() => {
+    setError(null);
     setAppState('setup');
     setSelectedSubject('');
     setSelectedChapter('');
@@ -133,6 +444,26 @@ export default function App() {
   const maxPossibleScore = useMemo(() => {
     return questions.reduce((acc, q) => acc + q.maxMarks, 0);
   }, [questions]);
+
+  // Record the finished session once the summary is reached.
+  useEffect(() => {
+    if (appState !== 'summary' || sessionSavedRef.current || !profile) return;
+    sessionSavedRef.current = true;
+    saveSession({
+      profileId: profile.id,
+      mode: sessionMode,
+      subject: selectedSubject,
+      chapter: selectedChapter,
+      difficulty: selectedDifficulty,
+      startedAt: sessionStartedAt,
+      completedAt: Date.now(),
+      answers: sessionAnswers,
+      totalScore,
+      maxPossibleScore,
+    })
+      .then(record => { savedSessionRef.current = record; })
+      .catch(e => console.error("Failed to save session history:", e));
+  }, [appState, profile, sessionMode, selectedSubject, selectedChapter, selectedDifficulty, sessionStartedAt, sessionAnswers, totalScore, maxPossibleScore]);
   
   const renderContent = () => {
     if (error && appState === 'setup') {
@@ -152,15 +483,43 @@ export default function App() {
           <QuestionScreen
             question={questions[currentQuestionIndex]}
             questionNumber={currentQuestionIndex + 1}
-            totalQuestions={questions.length}
+            totalQuestions={sessionLength}
             totalScore={totalScore}
             streak={streak}
             isLoading={isLoading}
             error={error}
             onSubmit={handleAnswerSubmit}
-            onNext={handleNextQuestion}
+            onNext={gradingMode === 'deferred' ? handleDeferredNext : handleNextQuestion}
+            paperDeadline={paperDeadline}
+            questionTimeLimitSeconds={gradingMode === 'deferred' ? null : questionTimeLimitSeconds(questions[currentQuestionIndex], examSettings)}
+            onTimeUp={handleTimeUp}
+            gradingMode={gradingMode}
+            savedAnswer={draftAnswers[questions[currentQuestionIndex].id] ?? ''}
+            onAnswerChange={handleDraftChange}
+            savedImages={draftImages[questions[currentQuestionIndex].id] ?? []}
+            onImagesChange={handleDraftImagesChange}
+            onPrevious={gradingMode === 'deferred' && currentQuestionIndex > 0 ? handleDeferredPrevious : undefined}
+            onTutorChatChange={handleTutorChatChange}
+            hintsUsed={hintsUsed[questions[currentQuestionIndex].id] ?? 0}
+            hintDeduction={sessionAnswers.find(a => a.question.id === questions[currentQuestionIndex].id)?.hintDeduction ?? 0}
+            onUseHint={handleUseHint}
           />
         );
+      case 'grading':
+        return (
+          <div className="flex flex-col items-center justify-center h-full animate-fade-in">
+            <div className="w-full max-w-lg p-8 text-center bg-white/50 backdrop-blur-lg border border-white/30 rounded-2xl shadow-xl">
+              <h2 className="text-2xl font-bold text-slate-900 mb-2">Grading your paper…</h2>
+              <p className="text-slate-600 mb-6">{gradingProgress.completed} of {gradingProgress.total} answers evaluated</p>
+              <div className="w-full h-3 bg-slate-300/50 rounded-full overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={gradingProgress.total} aria-valuenow={gradingProgress.completed}>
+                <div
+                  className="h-full bg-gradient-to-r from-blue-500 to-indigo-600 transition-all duration-300"
+                  style={{ width: `${gradingProgress.total > 0 ? (gradingProgress.completed / gradingProgress.total) * 100 : 100}%` }}
+                ></div>
+              </div>
+            </div>
+          </div>
+        );
       case 'summary':
         return (
           <SummaryScreen
@@ -169,11 +528,21 @@ export default function App() {
             onRestart={handleRestart}
             sessionAnswers={sessionAnswers}
             difficulty={selectedDifficulty}
+            onRetryEvaluation={handleRetryEvaluation}
+            retryingIndex={retryingIndex}
           />
         );
+      case 'authoring':
+        return <AuthoringScreen onClose={() => setAppState('setup')} />;
+      case 'weakConcepts':
+        return <WeakConceptsScreen profileId={profile!.id} onClose={() => setAppState('setup')} onPractise={handleStartTargeted} />;
+      case 'progress':
+        return <ProgressDashboard profileId={profile!.id} onClose={() => setAppState('setup')} />;
       case 'setup':
+        return <SetupScreen profile={profile!} onSwitchProfile={handleSwitchProfile} onStartQuiz={handleStartQuiz} onStartAdaptive={handleStartAdaptive} onStartReview={handleStartReview} onStartMockTest={handleStartMockTest} examSettings={examSettings} onExamSettingsChange={setExamSettings} gradingMode={gradingMode} onGradingModeChange={setGradingMode} onOpenAuthoring={() => setAppState('authoring')} onOpenWeakConcepts={() => setAppState('weakConcepts')} onOpenProgress={() => setAppState('progress')} />;
+      case 'profiles':
       default:
-        return <SetupScreen onStartQuiz={handleStartQuiz} />;
+        return <ProfileScreen onSelect={handleSelectProfile} />;
     }
   };
 
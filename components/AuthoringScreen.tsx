@@ -0,0 +1,532 @@
+import React, { useState, useMemo } from 'react';
+import { Difficulty, EvaluationResult, PendingQuestion, Question, SubjectsData } from '../types';
+import { getAuthoredSubjects, getSubjects, saveAuthoredSubjects } from '../services/questionBank';
+import { BankValidationError, validateQuestion } from '../services/questionBankFormat';
+import { getEvaluator } from '../services/evaluator';
+import { generateQuestionVariants, isGeminiConfigured } from '../services/geminiService';
+import { listPendingQuestions, queueGeneratedQuestions, removePendingQuestions } from '../services/reviewQueue';
+import { hasMath } from '../services/mathText';
+import MathText from './MathText';
+
+interface AuthoringScreenProps {
+  onClose: () => void;
+}
+
+interface QuestionDraft {
+  id: string;
+  prompt: string;
+  canonicalAnswer: string;
+  maxMarks: string;
+  // Kept as-is when editing a question that came with a marking scheme (e.g. from an import).
+  markingScheme?: Question['markingScheme'];
+  // The final numerical answer, as typed; an empty value means the question has none.
+  numericValue: string;
+  numericUnit: string;
+  numericSigFigs: string;
+  // Percentage, e.g. "1" for ±1%.
+  numericTolerance: string;
+  numericMarks: string;
+}
+
+const DEFAULT_MARKS: Record<Difficulty, number> = {
+  [Difficulty.Basic]: 2,
+  [Difficulty.Medium]: 4,
+  [Difficulty.Difficult]: 6,
+};
+
+const GENERATE_COUNTS = [3, 5, 10];
+
+// Prefilled with the usual tolerance and marks, so only the value and unit need typing.
+const EMPTY_NUMERIC_DRAFT = { numericValue: '', numericUnit: '', numericSigFigs: '', numericTolerance: '1', numericMarks: '1' };
+
+const newDraft = (difficulty: Difficulty): QuestionDraft => ({
+  id: `T-${Date.now().toString(36).toUpperCase()}`,
+  prompt: '',
+  canonicalAnswer: '',
+  maxMarks: String(DEFAULT_MARKS[difficulty]),
+  ...EMPTY_NUMERIC_DRAFT,
+});
+
+const numericDraft = (question: Question) => question.numericAnswer ? {
+  numericValue: String(question.numericAnswer.value),
+  numericUnit: question.numericAnswer.unit,
+  numericSigFigs: question.numericAnswer.significantFigures === undefined ? '' : String(question.numericAnswer.significantFigures),
+  numericTolerance: String(Number((question.numericAnswer.relativeTolerance * 100).toPrecision(6))),
+  numericMarks: String(question.numericAnswer.marks),
+} : EMPTY_NUMERIC_DRAFT;
+
+// Left as typed (NaN included) so validateQuestion reports bad input the same way it would for an import.
+const draftNumericAnswer = (draft: QuestionDraft) => draft.numericValue.trim() === '' ? undefined : {
+  value: Number(draft.numericValue),
+  unit: draft.numericUnit,
+  significantFigures: draft.numericSigFigs.trim() === '' ? undefined : Number(draft.numericSigFigs),
+  relativeTolerance: Number(draft.numericTolerance) / 100,
+  marks: Number(draft.numericMarks),
+};
+
+const fieldClassName = "w-full px-4 py-2 bg-sky-50 text-slate-900 border border-slate-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const cloneSubjects = (subjects: SubjectsData): SubjectsData => JSON.parse(JSON.stringify(subjects));
+
+const AuthoringScreen: React.FC<AuthoringScreenProps> = ({ onClose }) => {
+  // Edits are made on this copy and only written to storage on Save.
+  const [authored, setAuthored] = useState<SubjectsData>(() => cloneSubjects(getAuthoredSubjects()));
+  const [subject, setSubject] = useState('');
+  const [chapter, setChapter] = useState('');
+  const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.Basic);
+  const [newSubjectName, setNewSubjectName] = useState('');
+  const [newChapterName, setNewChapterName] = useState('');
+  const [draft, setDraft] = useState<QuestionDraft>(() => newDraft(Difficulty.Basic));
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftErrors, setDraftErrors] = useState<string[]>([]);
+  const [saveErrors, setSaveErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const [sampleAnswer, setSampleAnswer] = useState('');
+  const [preview, setPreview] = useState<EvaluationResult | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const [pending, setPending] = useState<PendingQuestion[]>(() => listPendingQuestions());
+  // Approved questions leave the review queue only once the authored bank they were added to is saved.
+  const [approvedIds, setApprovedIds] = useState<string[]>([]);
+  const [generateCount, setGenerateCount] = useState(GENERATE_COUNTS[0]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [generateError, setGenerateError] = useState<string | null>(null);
+
+  const subjectNames = useMemo(() => Array.from(new Set([...Object.keys(getSubjects()), ...Object.keys(authored)])), [authored]);
+
+  const chapterNames = useMemo(() => {
+    if (!subject) return [];
+    const builtIn = getSubjects()[subject]?.chapters.map(c => c.name) ?? [];
+    const own = authored[subject]?.chapters.map(c => c.name) ?? [];
+    return Array.from(new Set([...builtIn, ...own]));
+  }, [subject, authored]);
+
+  const authoredQuestions: Question[] = authored[subject]?.chapters.find(c => c.name === chapter)?.questions[difficulty] ?? [];
+  const poolSize = (subjects: SubjectsData) => subjects[subject]?.chapters.find(c => c.name === chapter)?.questions[difficulty].length ?? 0;
+  // The catalogue includes the last saved authored questions, so take those back out.
+  const otherQuestionCount = poolSize(getSubjects()) - poolSize(getAuthoredSubjects());
+
+  const pendingHere = pending.filter(p =>
+    p.subject === subject && p.chapter === chapter && p.difficulty === difficulty && !approvedIds.includes(p.question.id));
+
+  const updateAuthored = (fn: (next: SubjectsData) => void) => {
+    setAuthored(prev => {
+      const next = cloneSubjects(prev);
+      fn(next);
+      return next;
+    });
+    setIsDirty(true);
+    setMessage(null);
+  };
+
+  // Makes sure the selected subject and chapter exist in the authored bank before a question is added to them.
+  const ensureChapter = (next: SubjectsData) => {
+    const subjectData = next[subject] ?? (next[subject] = { name: subject, chapters: [] });
+    let chapterData = subjectData.chapters.find(c => c.name === chapter);
+    if (!chapterData) {
+      chapterData = { name: chapter, questions: { [Difficulty.Basic]: [], [Difficulty.Medium]: [], [Difficulty.Difficult]: [] } };
+      subjectData.chapters.push(chapterData);
+    }
+    return chapterData;
+  };
+
+  const resetDraft = (forDifficulty: Difficulty = difficulty) => {
+    setDraft(newDraft(forDifficulty));
+    setEditingId(null);
+    setDraftErrors([]);
+    setPreview(null);
+    setPreviewError(null);
+  };
+
+  const handleAddSubject = () => {
+    const name = newSubjectName.trim();
+    if (!name) return;
+    updateAuthored(next => {
+      if (!next[name]) next[name] = { name, chapters: [] };
+    });
+    setSubject(name);
+    setChapter('');
+    setNewSubjectName('');
+  };
+
+  const handleAddChapter = () => {
+    const name = newChapterName.trim();
+    if (!subject || !name) return;
+    setChapter(name);
+    updateAuthored(next => {
+      const subjectData = next[subject] ?? (next[subject] = { name: subject, chapters: [] });
+      if (!subjectData.chapters.some(c => c.name === name)) {
+        subjectData.chapters.push({ name, questions: { [Difficulty.Basic]: [], [Difficulty.Medium]: [], [Difficulty.Difficult]: [] } });
+      }
+    });
+    setNewChapterName('');
+  };
+
+  const draftToQuestion = (): Question | null => {
+    const errors: BankValidationError[] = [];
+    const { id, prompt, canonicalAnswer, markingScheme } = draft;
+    const question = validateQuestion({
+      id, prompt, canonicalAnswer, markingScheme,
+      maxMarks: draft.maxMarks.trim() === '' ? undefined : Number(draft.maxMarks),
+      numericAnswer: draftNumericAnswer(draft),
+    }, 0, errors);
+    setDraftErrors(errors.map(e => e.message));
+    return question;
+  };
+
+  const handleSaveDraft = () => {
+    const question = draftToQuestion();
+    if (!question || !subject || !chapter) return;
+    const idTaken = editingId !== question.id && (
+      authoredQuestions.some(q => q.id === question.id) ||
+      Object.values(getSubjects()).some(s => s.chapters.some(c => Object.values(Difficulty).some(d => c.questions[d].some(q => q.id === question.id))))
+    );
+    if (idTaken) {
+      setDraftErrors([`Question id "${question.id}" already exists in the question bank.`]);
+      return;
+    }
+    updateAuthored(next => {
+      const bucket = ensureChapter(next).questions[difficulty];
+      const existing = editingId ? bucket.findIndex(q => q.id === editingId) : -1;
+      if (existing >= 0) bucket[existing] = question;
+      else bucket.push(question);
+    });
+    resetDraft();
+  };
+
+  const handleEdit = (question: Question) => {
+    setDraft({ id: question.id, prompt: question.prompt, canonicalAnswer: question.canonicalAnswer, maxMarks: String(question.maxMarks), markingScheme: question.markingScheme, ...numericDraft(question) });
+    setEditingId(question.id);
+    setDraftErrors([]);
+    setPreview(null);
+  };
+
+  const handleDelete = (questionId: string) => {
+    updateAuthored(next => {
+      const chapterData = ensureChapter(next);
+      chapterData.questions[difficulty] = chapterData.questions[difficulty].filter(q => q.id !== questionId);
+    });
+    // Deleting an approved but unsaved variant puts it back in the review queue.
+    setApprovedIds(prev => prev.filter(id => id !== questionId));
+    if (editingId === questionId) resetDraft();
+  };
+
+  const handlePreview = async () => {
+    const question = draftToQuestion();
+    if (!question || !sampleAnswer.trim()) return;
+    setIsPreviewing(true);
+    setPreviewError(null);
+    try {
+      setPreview(await getEvaluator().evaluate(question, sampleAnswer));
+    } catch (e: any) {
+      console.error("Preview grading failed:", e);
+      setPreviewError(e?.message || "Grading failed.");
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    const existing = [...(getSubjects()[subject]?.chapters.find(c => c.name === chapter)?.questions[difficulty] ?? [])];
+    authoredQuestions.forEach(q => { if (!existing.some(e => e.id === q.id)) existing.push(q); });
+    setIsGenerating(true);
+    setGenerateError(null);
+    try {
+      const generated = await generateQuestionVariants(subject, chapter, difficulty, existing, generateCount, DEFAULT_MARKS[difficulty]);
+      queueGeneratedQuestions(subject, chapter, difficulty, generated);
+      setPending(listPendingQuestions());
+      if (generated.length === 0) setGenerateError("The AI service didn't return any usable questions. Try again.");
+    } catch (e: any) {
+      console.error("Question generation failed:", e);
+      setGenerateError(e?.message || "Generation failed.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleApprove = (item: PendingQuestion) => {
+    updateAuthored(next => {
+      ensureChapter(next).questions[difficulty].push(item.question);
+    });
+    setApprovedIds(prev => [...prev, item.question.id]);
+  };
+
+  const handleReject = (item: PendingQuestion) => {
+    removePendingQuestions([item.question.id]);
+    setPending(listPendingQuestions());
+  };
+
+  const handleSave = () => {
+    const result = saveAuthoredSubjects(authored);
+    if (result.ok === false) {
+      setSaveErrors(result.errors);
+      return;
+    }
+    removePendingQuestions(approvedIds);
+    setPending(listPendingQuestions());
+    setApprovedIds([]);
+    setSaveErrors([]);
+    setIsDirty(false);
+    setMessage('Saved. New questions are now part of the question bank.');
+  };
+
+  const handleClose = () => {
+    if (isDirty && !window.confirm('You have unsaved changes. Leave without saving?')) return;
+    onClose();
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col p-4 sm:p-6 bg-white/60 backdrop-blur-lg border border-white/30 rounded-2xl shadow-xl animate-fade-in">
+      <header className="flex justify-between items-center mb-4 pb-4 border-b border-slate-300/70">
+        <h2 className="text-2xl font-bold text-slate-900">Question Authoring</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleSave}
+            disabled={!isDirty}
+            className="px-4 py-2 font-semibold text-white bg-green-500 rounded-lg shadow-sm hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+          <button onClick={handleClose} className="px-4 py-2 font-semibold text-slate-700 bg-white/70 border border-slate-300 rounded-lg hover:bg-white">
+            Close
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-grow overflow-y-auto pr-2 space-y-6">
+        {message && <div className="p-3 bg-green-100 text-green-800 border border-green-300 rounded-lg">{message}</div>}
+        {saveErrors.length > 0 && (
+          <div className="p-3 bg-red-100 text-red-700 border border-red-300 rounded-lg text-sm">
+            <p className="font-semibold">Not saved:</p>
+            <ul className="list-disc list-inside mt-1 space-y-1">
+              {saveErrors.map((error, index) => <li key={index}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="authoring-subject" className="text-sm font-medium text-slate-700">Subject</label>
+            <select
+              id="authoring-subject"
+              value={subject}
+              onChange={(e) => { setSubject(e.target.value); setChapter(''); resetDraft(); }}
+              className={fieldClassName}
+            >
+              <option value="">Select a subject...</option>
+              {subjectNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <div className="flex gap-2">
+              <input value={newSubjectName} onChange={(e) => setNewSubjectName(e.target.value)} placeholder="New subject" className={fieldClassName} />
+              <button onClick={handleAddSubject} className="px-3 text-sm font-semibold text-white bg-blue-500 rounded-lg hover:bg-blue-600">Add</button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="authoring-chapter" className="text-sm font-medium text-slate-700">Chapter</label>
+            <select
+              id="authoring-chapter"
+              value={chapter}
+              disabled={!subject}
+              onChange={(e) => { setChapter(e.target.value); resetDraft(); }}
+              className={fieldClassName}
+            >
+              <option value="">Select a chapter...</option>
+              {chapterNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <div className="flex gap-2">
+              <input value={newChapterName} disabled={!subject} onChange={(e) => setNewChapterName(e.target.value)} placeholder="New chapter" className={fieldClassName} />
+              <button onClick={handleAddChapter} disabled={!subject} className="px-3 text-sm font-semibold text-white bg-blue-500 rounded-lg hover:bg-blue-600 disabled:bg-gray-400">Add</button>
+            </div>
+          </div>
+        </div>
+
+        {subject && chapter && (
+          <>
+            <div className="grid grid-cols-3 gap-2 p-1 bg-sky-50 border border-slate-300 rounded-lg" role="tablist">
+              {Object.values(Difficulty).map(d => (
+                <button
+                  key={d}
+                  role="tab"
+                  aria-selected={difficulty === d}
+                  onClick={() => { setDifficulty(d); resetDraft(d); }}
+                  className={`py-2 text-sm font-semibold rounded-md transition-colors ${difficulty === d ? 'bg-blue-500 text-white shadow' : 'text-slate-600 hover:bg-white/70'}`}
+                >
+                  {d}
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <h3 className="font-semibold text-slate-800 mb-2">Your questions</h3>
+              {otherQuestionCount > 0 && (
+                <p className="text-sm text-slate-500 mb-2">This pool also has {otherQuestionCount} built-in or imported question{otherQuestionCount === 1 ? '' : 's'}.</p>
+              )}
+              {authoredQuestions.length === 0 ? (
+                <p className="text-sm text-slate-600">No questions written for this difficulty yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {authoredQuestions.map(q => (
+                    <li key={q.id} className="p-3 bg-slate-50 rounded-lg border border-slate-200 flex justify-between items-start gap-4 text-sm">
+                      <span className="text-slate-800"><span className="font-bold">{q.id}</span> ({q.maxMarks}m): <MathText text={q.prompt} /></span>
+                      <span className="flex-shrink-0 flex gap-3 font-semibold">
+                        <button onClick={() => handleEdit(q)} className="text-indigo-600 hover:text-indigo-800">Edit</button>
+                        <button onClick={() => handleDelete(q.id)} className="text-red-600 hover:text-red-800">Delete</button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="p-4 bg-indigo-50 rounded-lg border border-indigo-200 space-y-3">
+              <div className="flex flex-wrap justify-between items-center gap-2">
+                <h3 className="font-semibold text-slate-800">AI review queue</h3>
+                {isGeminiConfigured() ? (
+                  <div className="flex items-center gap-2 text-sm">
+                    <select
+                      aria-label="Number of questions to generate"
+                      value={generateCount}
+                      onChange={(e) => setGenerateCount(Number(e.target.value))}
+                      className="px-2 py-1 bg-sky-50 text-slate-900 border border-slate-300 rounded-md"
+                    >
+                      {GENERATE_COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                    <button
+                      onClick={handleGenerate}
+                      disabled={isGenerating}
+                      className="px-4 py-2 font-semibold text-white bg-indigo-500 rounded-lg hover:bg-indigo-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                      {isGenerating ? 'Generating…' : 'Generate variants'}
+                    </button>
+                  </div>
+                ) : (
+                  <span className="text-sm text-slate-500">Set a Gemini API key to generate questions.</span>
+                )}
+              </div>
+              {generateError && <p className="text-sm text-red-700">{generateError}</p>}
+              {pendingHere.length === 0 ? (
+                <p className="text-sm text-slate-600">No generated questions waiting for review.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {pendingHere.map(item => (
+                    <li key={item.question.id} className="p-3 bg-white rounded-lg border border-slate-200 text-sm space-y-2">
+                      <p className="text-slate-800"><span className="font-bold">{item.question.maxMarks}m:</span> <MathText text={item.question.prompt} /></p>
+                      <p className="text-slate-600 whitespace-pre-wrap"><MathText text={item.question.canonicalAnswer} /></p>
+                      <div className="flex justify-end gap-3 font-semibold">
+                        <button onClick={() => handleApprove(item)} className="text-green-700 hover:text-green-900">Approve</button>
+                        <button onClick={() => handleReject(item)} className="text-red-600 hover:text-red-800">Reject</button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="p-4 bg-slate-50 rounded-lg border border-slate-200 space-y-3">
+              <h3 className="font-semibold text-slate-800">{editingId ? `Edit ${editingId}` : 'New question'}</h3>
+              <div className="grid grid-cols-3 gap-3">
+                <label className="col-span-2 text-sm text-slate-700 space-y-1">
+                  <span>Id</span>
+                  <input value={draft.id} onChange={(e) => setDraft({ ...draft, id: e.target.value })} className={fieldClassName} />
+                </label>
+                <label className="text-sm text-slate-700 space-y-1">
+                  <span>Marks</span>
+                  <input type="number" min={1} value={draft.maxMarks} onChange={(e) => setDraft({ ...draft, maxMarks: e.target.value })} className={fieldClassName} />
+                </label>
+              </div>
+              <label className="block text-sm text-slate-700 space-y-1">
+                <span>Prompt</span>
+                <textarea value={draft.prompt} onChange={(e) => setDraft({ ...draft, prompt: e.target.value })} className={`${fieldClassName} h-20`} />
+              </label>
+              <label className="block text-sm text-slate-700 space-y-1">
+                <span>Canonical answer</span>
+                <textarea value={draft.canonicalAnswer} onChange={(e) => setDraft({ ...draft, canonicalAnswer: e.target.value })} className={`${fieldClassName} h-28`} />
+              </label>
+              {(hasMath(draft.prompt) || hasMath(draft.canonicalAnswer)) && (
+                <div className="p-3 bg-white border border-slate-200 rounded-lg text-sm text-slate-700 space-y-2">
+                  <p><strong>Prompt:</strong> <MathText text={draft.prompt} /></p>
+                  <p className="whitespace-pre-wrap"><strong>Canonical answer:</strong> <MathText text={draft.canonicalAnswer} /></p>
+                </div>
+              )}
+              <fieldset className="space-y-2">
+                <legend className="text-sm text-slate-700">Numerical answer <span className="text-slate-500">(optional; checked locally, the rest of the marks go to the working)</span></legend>
+                <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                  <label className="text-sm text-slate-700 space-y-1">
+                    <span>Value</span>
+                    <input value={draft.numericValue} onChange={(e) => setDraft({ ...draft, numericValue: e.target.value })} placeholder="e.g. 2.96e5" className={fieldClassName} />
+                  </label>
+                  <label className="text-sm text-slate-700 space-y-1">
+                    <span>Unit</span>
+                    <input value={draft.numericUnit} onChange={(e) => setDraft({ ...draft, numericUnit: e.target.value })} placeholder="e.g. m/s^2" className={fieldClassName} />
+                  </label>
+                  <label className="text-sm text-slate-700 space-y-1">
+                    <span>Sig. figs</span>
+                    <input type="number" min={1} value={draft.numericSigFigs} onChange={(e) => setDraft({ ...draft, numericSigFigs: e.target.value })} placeholder="Any" className={fieldClassName} />
+                  </label>
+                  <label className="text-sm text-slate-700 space-y-1">
+                    <span>Tolerance %</span>
+                    <input type="number" min={0} step="any" value={draft.numericTolerance} onChange={(e) => setDraft({ ...draft, numericTolerance: e.target.value })} className={fieldClassName} />
+                  </label>
+                  <label className="text-sm text-slate-700 space-y-1">
+                    <span>Marks</span>
+                    <input type="number" min={0.5} step={0.5} value={draft.numericMarks} onChange={(e) => setDraft({ ...draft, numericMarks: e.target.value })} className={fieldClassName} />
+                  </label>
+                </div>
+              </fieldset>
+
+              {draftErrors.length > 0 && (
+                <ul className="p-3 bg-red-100 text-red-700 border border-red-300 rounded-lg text-sm list-disc list-inside">
+                  {draftErrors.map((error, index) => <li key={index}>{error}</li>)}
+                </ul>
+              )}
+
+              <div className="flex gap-2 justify-end">
+                {editingId && (
+                  <button onClick={() => resetDraft()} className="px-4 py-2 text-sm font-semibold text-slate-700 bg-white/70 border border-slate-300 rounded-lg hover:bg-white">
+                    Cancel
+                  </button>
+                )}
+                <button onClick={handleSaveDraft} className="px-4 py-2 text-sm font-semibold text-white bg-blue-500 rounded-lg hover:bg-blue-600">
+                  {editingId ? 'Update question' : 'Add question'}
+                </button>
+              </div>
+
+              <div className="pt-3 border-t border-slate-200 space-y-2">
+                <h4 className="font-semibold text-slate-800">Preview grading <span className="text-sm font-normal text-slate-500">({getEvaluator().label})</span></h4>
+                <textarea
+                  value={sampleAnswer}
+                  onChange={(e) => setSampleAnswer(e.target.value)}
+                  placeholder="Type a sample student answer..."
+                  className={`${fieldClassName} h-20`}
+                />
+                <div className="flex justify-end">
+                  <button
+                    onClick={handlePreview}
+                    disabled={isPreviewing || !sampleAnswer.trim()}
+                    className="px-4 py-2 text-sm font-semibold text-white bg-indigo-500 rounded-lg hover:bg-indigo-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                  >
+                    {isPreviewing ? 'Grading…' : 'Grade sample answer'}
+                  </button>
+                </div>
+                {previewError && <p className="text-sm text-red-700">{previewError}</p>}
+                {preview && (
+                  <div className="p-3 bg-white border border-slate-200 rounded-lg text-sm text-slate-700 space-y-1">
+                    <p><strong>Marks:</strong> {preview.score} / {draft.maxMarks}</p>
+                    {preview.numericCheck && <p><strong>Final answer:</strong> {preview.numericCheck.marksAwarded} / {preview.numericCheck.marks}. {preview.numericCheck.feedback}</p>}
+                    <p><MathText text={preview.feedback} /></p>
+                    {preview.missingConcepts.length > 0 && <p><strong>Missing:</strong> {preview.missingConcepts.join('; ')}</p>}
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuthoringScreen;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { AssertionReasonSpec, MultipleChoiceSpec } from '../types';
+import { choiceOptions, formatChoiceAnswer, optionLabel, parseChoiceAnswer } from '../services/objectiveQuestions';
+import { CheckIcon, CrossIcon } from './Icons';
+import MathText from './MathText';
+
+interface ChoiceInputProps {
+  spec: MultipleChoiceSpec | AssertionReasonSpec;
+  // The choice as an answer string, see `formatChoiceAnswer`.
+  answer: string;
+  onAnswerChange: (answer: string) => void;
+  // Once graded, the right option is marked, and the student's own if it was wrong.
+  isGraded: boolean;
+  disabled: boolean;
+}
+
+/** The options of a multiple choice or assertion-reason question, one to pick. */
+const ChoiceInput: React.FC<ChoiceInputProps> = ({ spec, answer, onAnswerChange, isGraded, disabled }) => {
+  const chosen = parseChoiceAnswer(answer);
+
+  return (
+    <div className="space-y-3">
+      {spec.type === 'assertion-reason' && (
+        <div className="p-4 bg-white/70 border border-slate-300 rounded-lg space-y-2 text-slate-800">
+          <p><strong>Assertion (A):</strong> <MathText text={spec.assertion} /></p>
+          <p><strong>Reason (R):</strong> <MathText text={spec.reason} /></p>
+        </div>
+      )}
+      <div role="radiogroup" className="space-y-2">
+        {choiceOptions(spec).map((option, index) => {
+          const isChosen = chosen === index;
+          const isAnswer = isGraded && index === spec.answer;
+          const style = isAnswer
+            ? 'bg-green-50 border-green-500'
+            : isGraded && isChosen
+              ? 'bg-red-50 border-red-400'
+              : isChosen
+                ? 'bg-blue-50 border-blue-500'
+                : 'bg-white/70 border-slate-300 hover:bg-white';
+          return (
+            <button
+              key={index}
+              role="radio"
+              aria-checked={isChosen}
+              onClick={() => onAnswerChange(formatChoiceAnswer(spec, index))}
+              disabled={disabled}
+              className={`w-full flex items-start gap-3 p-3 text-left border-2 rounded-lg transition-colors disabled:cursor-default ${style}`}
+            >
+              <span className="font-bold text-slate-700">{optionLabel(index)}</span>
+              <span className="flex-grow text-slate-800"><MathText text={option} /></span>
+              {isAnswer && <CheckIcon />}
+              {isGraded && isChosen && !isAnswer && <CrossIcon />}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ChoiceInput;
@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { Diagram, LabelCheck, LabellingSpec } from '../types';
+import { formatLabelAnswer, parseLabelAnswer } from '../services/diagramLabels';
+import { CheckIcon, CrossIcon } from './Icons';
+
+interface DiagramLabellerProps {
+  diagram: Diagram;
+  spec: LabellingSpec;
+  // The labels as an answer string, see `formatLabelAnswer`.
+  answer: string;
+  onAnswerChange: (answer: string) => void;
+  // Once graded, how each blank was marked.
+  checks?: LabelCheck[];
+  disabled: boolean;
+}
+
+/** A diagram with numbered blanks to label, typed or placed from the word bank. */
+const DiagramLabeller: React.FC<DiagramLabellerProps> = ({ diagram, spec, answer, onAnswerChange, checks, disabled }) => {
+  const labels = parseLabelAnswer(answer, spec.labels.length);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const src = useMemo(() => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(diagram.svg)}`, [diagram]);
+
+  const setLabel = (index: number, label: string) =>
+    onAnswerChange(formatLabelAnswer(labels.map((l, i) => i === index ? label : l)));
+
+  // A word from the bank goes on the selected blank, then the selection moves on to the next empty one.
+  const placeWord = (word: string) => {
+    setLabel(activeIndex, word);
+    const next = labels.findIndex((l, i) => i !== activeIndex && !l.trim());
+    if (next >= 0) setActiveIndex(next);
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row gap-4">
+      <div className="relative w-full md:w-3/5 flex-shrink-0 self-start">
+        <img src={src} alt={diagram.title} className="w-full rounded-lg border border-slate-300" />
+        {spec.labels.map((label, index) => {
+          const marker = diagram.markers.find(m => m.id === label.markerId);
+          if (!marker) return null;
+          return (
+            <button
+              key={label.markerId}
+              onClick={() => setActiveIndex(index)}
+              disabled={disabled}
+              aria-label={`Blank ${index + 1}`}
+              style={{ left: `${marker.x}%`, top: `${marker.y}%` }}
+              className={`absolute -translate-x-1/2 -translate-y-1/2 w-7 h-7 rounded-full text-sm font-bold border-2 transition-colors ${activeIndex === index && !disabled ? 'bg-blue-500 text-white border-blue-600' : 'bg-white text-slate-800 border-slate-500'}`}
+            >
+              {index + 1}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex-grow space-y-2">
+        {spec.labels.map((label, index) => (
+          <div key={label.markerId} className="flex items-center gap-2">
+            <span className="w-6 text-right font-bold text-slate-700">{index + 1}.</span>
+            <input
+              type="text"
+              value={labels[index]}
+              onChange={e => setLabel(index, e.target.value)}
+              onFocus={() => setActiveIndex(index)}
+              disabled={disabled}
+              placeholder={spec.wordBank ? 'Type or pick a label' : 'Type the label'}
+              className={`flex-grow px-3 py-2 bg-white/70 border rounded-lg text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 ${activeIndex === index && !disabled ? 'border-blue-500' : 'border-slate-300'}`}
+            />
+            {checks?.[index] && (
+              <span className="flex-shrink-0 flex items-center gap-1 text-sm">
+                {checks[index].correct ? <CheckIcon /> : <CrossIcon />}
+                {!checks[index].correct && <span className="text-slate-600">{checks[index].expected}</span>}
+              </span>
+            )}
+          </div>
+        ))}
+        {spec.wordBank && !disabled && (
+          <div className="pt-2 flex flex-wrap gap-2">
+            {spec.wordBank.map(word => (
+              <button
+                key={word}
+                onClick={() => placeWord(word)}
+                className={`px-3 py-1 text-sm rounded-full border transition-colors ${labels.includes(word) ? 'bg-slate-100 text-slate-400 border-slate-200' : 'bg-white/70 text-slate-700 border-slate-300 hover:bg-white'}`}
+              >
+                {word}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DiagramLabeller;
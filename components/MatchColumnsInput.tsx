@@ -0,0 +1,67 @@
+import React from 'react';
+import { MatchColumnsSpec } from '../types';
+import { columnBLabel, formatMatchAnswer, optionLabel, parseMatchAnswer } from '../services/objectiveQuestions';
+import { CheckIcon, CrossIcon } from './Icons';
+import MathText from './MathText';
+
+interface MatchColumnsInputProps {
+  spec: MatchColumnsSpec;
+  // The matches as an answer string, see `formatMatchAnswer`.
+  answer: string;
+  onAnswerChange: (answer: string) => void;
+  // Once graded, each pair is marked and the right match shown where it was missed.
+  isGraded: boolean;
+  disabled: boolean;
+}
+
+/** Column A items, each matched to an item of column B. */
+const MatchColumnsInput: React.FC<MatchColumnsInputProps> = ({ spec, answer, onAnswerChange, isGraded, disabled }) => {
+  const matches = parseMatchAnswer(answer, spec);
+
+  const setMatch = (a: number, value: string) =>
+    onAnswerChange(formatMatchAnswer(matches.map((b, i) => i === a ? (value === '' ? null : Number(value)) : b)));
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <h4 className="font-semibold text-slate-800">Column A</h4>
+        {spec.columnA.map((item, a) => (
+          <div key={a} className="p-3 bg-white/70 border border-slate-300 rounded-lg">
+            <div className="flex items-start gap-2 text-slate-800">
+              <span className="font-bold">{optionLabel(a)}</span>
+              <span className="flex-grow"><MathText text={item} /></span>
+            </div>
+            <div className="mt-2 flex items-center gap-2">
+              <select
+                value={matches[a] ?? ''}
+                onChange={e => setMatch(a, e.target.value)}
+                disabled={disabled}
+                aria-label={`Match for ${optionLabel(a)}`}
+                className="flex-grow px-2 py-1 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Choose from column B…</option>
+                {spec.columnB.map((_, b) => (
+                  <option key={b} value={b}>{columnBLabel(b)}</option>
+                ))}
+              </select>
+              {isGraded && (matches[a] === spec.answer[a] ? <CheckIcon /> : (
+                <span className="flex items-center gap-1 text-sm text-slate-600"><CrossIcon />{columnBLabel(spec.answer[a])}</span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="space-y-2">
+        <h4 className="font-semibold text-slate-800">Column B</h4>
+        {spec.columnB.map((item, b) => (
+          <div key={b} className="flex items-start gap-2 p-3 bg-white/70 border border-slate-300 rounded-lg text-slate-800">
+            <span className="font-bold">{columnBLabel(b)}</span>
+            <span className="flex-grow"><MathText text={item} /></span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MatchColumnsInput;
@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import katex from 'katex';
+import { splitMath } from '../services/mathText';
+
+interface MathTextProps {
+  // May be missing while a streamed response hasn't reached it yet; nothing is rendered then.
+  text: string | undefined;
+  // Applied to the plain-text parts only, e.g. to render chemical formulas between the math.
+  formatText?: (text: string) => string;
+}
+
+// KaTeX builds the markup itself and escapes everything it's given; with `trust` off, commands that could
+// link or inject HTML (\href, \url, \htmlClass, ...) are refused, so its output is safe to insert.
+const renderTex = (tex: string, display: boolean): string =>
+  katex.renderToString(tex, {
+    displayMode: display,
+    throwOnError: false,
+    trust: false,
+    strict: 'ignore',
+    maxSize: 20,
+    maxExpand: 200,
+  });
+
+/** Text with its LaTeX rendered; everything outside the math is shown as plain text. */
+const MathText: React.FC<MathTextProps> = ({ text, formatText }) => {
+  const segments = useMemo(() => splitMath(text).map(segment =>
+    segment.kind === 'text'
+      ? { ...segment, text: formatText ? formatText(segment.text) : segment.text }
+      : { ...segment, html: renderTex(segment.tex, segment.display) }), [text, formatText]);
+
+  return (
+    <>
+      {segments.map((segment, index) => segment.kind === 'text'
+        ? <React.Fragment key={index}>{segment.text}</React.Fragment>
+        : <span key={index} className={segment.display ? 'block overflow-x-auto' : undefined} dangerouslySetInnerHTML={{ __html: segment.html }} />)}
+    </>
+  );
+};
+
+export default MathText;
@@ -0,0 +1,103 @@
+import React, { useState, useMemo } from 'react';
+import { MockTestBlueprint } from '../types';
+import { DEFAULT_MOCK_QUESTIONS_BY_MARKS } from '../constants';
+import { blueprintTotalMarks } from '../services/mockTest';
+import { getSubjects } from '../services/questionBank';
+
+interface MockTestBuilderProps {
+  subject: string;
+  onStart: (blueprint: MockTestBlueprint) => void;
+}
+
+const inputClassName = "w-20 px-2 py-1 bg-sky-50 text-slate-900 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const MockTestBuilder: React.FC<MockTestBuilderProps> = ({ subject, onStart }) => {
+  const chapterNames = useMemo(() => getSubjects()[subject].chapters.map(c => c.name), [subject]);
+  const [selectedChapters, setSelectedChapters] = useState<string[]>(chapterNames);
+  const [chapterWeightage, setChapterWeightage] = useState<Record<string, number>>({});
+  const [questionsByMarks, setQuestionsByMarks] = useState<Record<number, number>>(DEFAULT_MOCK_QUESTIONS_BY_MARKS);
+  const [totalMarks, setTotalMarks] = useState<number>(blueprintTotalMarks(DEFAULT_MOCK_QUESTIONS_BY_MARKS));
+
+  const computedTotal = blueprintTotalMarks(questionsByMarks);
+  const canStart = selectedChapters.length > 0 && computedTotal > 0 && computedTotal === totalMarks;
+
+  const toggleChapter = (chapter: string) => {
+    setSelectedChapters(prev => prev.includes(chapter) ? prev.filter(c => c !== chapter) : [...prev, chapter]);
+  };
+
+  const handleStart = () => {
+    if (!canStart) return;
+    onStart({ subject, chapters: selectedChapters, questionsByMarks, chapterWeightage, totalMarks });
+  };
+
+  return (
+    <div className="space-y-4 animate-fade-in-fast">
+      <div>
+        <h3 className="text-sm font-medium text-slate-700 mb-2">Chapters and weightage</h3>
+        <ul className="space-y-2">
+          {chapterNames.map(chapter => (
+            <li key={chapter} className="flex justify-between items-center gap-4 text-sm text-slate-700">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={selectedChapters.includes(chapter)} onChange={() => toggleChapter(chapter)} />
+                {chapter}
+              </label>
+              <input
+                type="number"
+                min={0}
+                aria-label={`Weightage for ${chapter}`}
+                value={chapterWeightage[chapter] ?? 1}
+                disabled={!selectedChapters.includes(chapter)}
+                onChange={(e) => setChapterWeightage(prev => ({ ...prev, [chapter]: Number(e.target.value) }))}
+                className={inputClassName}
+              />
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-slate-700 mb-2">Questions per section</h3>
+        <div className="grid grid-cols-3 gap-4">
+          {Object.keys(DEFAULT_MOCK_QUESTIONS_BY_MARKS).map(Number).map(marks => (
+            <label key={marks} className="flex flex-col gap-1 text-sm text-slate-700">
+              {marks}-mark
+              <input
+                type="number"
+                min={0}
+                value={questionsByMarks[marks] ?? 0}
+                onChange={(e) => setQuestionsByMarks(prev => ({ ...prev, [marks]: Math.max(0, Number(e.target.value)) }))}
+                className={inputClassName}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center gap-4 text-sm text-slate-700">
+        <label className="flex items-center gap-2">
+          Total marks
+          <input
+            type="number"
+            min={1}
+            value={totalMarks}
+            onChange={(e) => setTotalMarks(Number(e.target.value))}
+            className={inputClassName}
+          />
+        </label>
+        <span className={computedTotal === totalMarks ? 'text-green-700' : 'text-red-600'}>
+          Sections add up to {computedTotal}
+        </span>
+      </div>
+
+      <button
+        onClick={handleStart}
+        disabled={!canStart}
+        className="w-full py-4 text-lg font-semibold text-white rounded-lg shadow-md transition-transform transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 bg-gradient-to-br from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 focus:ring-indigo-500 disabled:opacity-60 disabled:cursor-not-allowed disabled:hover:scale-100"
+      >
+        Start Mock Test
+      </button>
+    </div>
+  );
+};
+
+export default MockTestBuilder;
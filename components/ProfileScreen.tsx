@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { Profile } from '../types';
+import { PROFILE_AVATARS, PROFILE_PIN_LENGTH } from '../constants';
+import { checkPin, createProfile, deleteProfile, exportProfile, listProfiles } from '../services/profileStore';
+import { downloadFile } from '../services/fileDownload';
+
+interface ProfileScreenProps {
+  onSelect: (profile: Profile) => void;
+}
+
+// What the PIN prompt is guarding: opening, exporting or deleting the profile.
+type PinPurpose = 'open' | 'export' | 'delete';
+
+const PIN_ACTION_LABELS: Record<PinPurpose, string> = {
+  open: 'Open',
+  export: 'Export',
+  delete: 'Delete',
+};
+
+const isValidPin = (pin: string) => new RegExp(`^\\d{${PROFILE_PIN_LENGTH}}$`).test(pin);
+
+const ProfileScreen: React.FC<ProfileScreenProps> = ({ onSelect }) => {
+  const [profiles, setProfiles] = useState<Profile[]>(() => listProfiles());
+  const [isCreating, setIsCreating] = useState(profiles.length === 0);
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(PROFILE_AVATARS[0]);
+  const [newPin, setNewPin] = useState('');
+  const [pinPrompt, setPinPrompt] = useState<{ profile: Profile; purpose: PinPurpose } | null>(null);
+  const [pin, setPin] = useState('');
+  const [isManaging, setIsManaging] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setName('');
+    setAvatar(PROFILE_AVATARS[0]);
+    setNewPin('');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError("Please enter a name.");
+      return;
+    }
+    if (profiles.some(p => p.name.toLowerCase() === name.trim().toLowerCase())) {
+      setError(`There is already a profile called "${name.trim()}".`);
+      return;
+    }
+    if (newPin && !isValidPin(newPin)) {
+      setError(`The PIN must be ${PROFILE_PIN_LENGTH} digits, or left empty.`);
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      const profile = await createProfile(name, avatar, newPin || null);
+      setProfiles(listProfiles());
+      resetForm();
+      setIsCreating(false);
+      onSelect(profile);
+    } catch (e: any) {
+      console.error("Failed to create profile:", e);
+      setError("Couldn't create the profile. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async (profile: Profile) => {
+    if (!window.confirm(`Delete ${profile.name}'s profile, history and streak? This can't be undone.`)) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await deleteProfile(profile.id);
+      const remaining = listProfiles();
+      setProfiles(remaining);
+      if (remaining.length === 0) setIsCreating(true);
+    } catch (e: any) {
+      console.error("Failed to delete profile:", e);
+      setError("Couldn't delete the profile. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExport = async (profile: Profile) => {
+    setError(null);
+    try {
+      const fileName = `${profile.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'profile'}-progress.json`;
+      downloadFile(fileName, await exportProfile(profile), 'application/json');
+    } catch (e: any) {
+      console.error("Failed to export profile:", e);
+      setError("Couldn't export this profile's history.");
+    }
+  };
+
+  const runAction = (profile: Profile, purpose: PinPurpose) => {
+    if (purpose === 'open') onSelect(profile);
+    else if (purpose === 'export') handleExport(profile);
+    else handleDelete(profile);
+  };
+
+  const requestAccess = (profile: Profile, purpose: PinPurpose) => {
+    setError(null);
+    if (!profile.pinHash) {
+      runAction(profile, purpose);
+      return;
+    }
+    setPin('');
+    setPinPrompt({ profile, purpose });
+  };
+
+  const handlePinSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pinPrompt) return;
+    if (!(await checkPin(pinPrompt.profile, pin))) {
+      setError("That PIN isn't right.");
+      setPin('');
+      return;
+    }
+    const { profile, purpose } = pinPrompt;
+    setPinPrompt(null);
+    setError(null);
+    runAction(profile, purpose);
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full animate-fade-in">
+      <header className="text-center mb-10">
+        <h1 className="text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-600 to-indigo-700">
+          Who's practising?
+        </h1>
+        <p className="mt-3 text-lg text-slate-600">Each profile keeps its own streak, history and settings.</p>
+      </header>
+
+      <div className="w-full max-w-lg p-8 space-y-6 bg-white/50 backdrop-blur-lg border border-white/30 rounded-2xl shadow-xl">
+        {error && <div className="p-3 bg-red-100 text-red-700 border border-red-300 rounded-lg text-sm">{error}</div>}
+
+        {pinPrompt ? (
+          <form onSubmit={handlePinSubmit} className="space-y-4 text-center animate-fade-in-fast">
+            <div className="text-5xl">{pinPrompt.profile.avatar}</div>
+            <p className="font-semibold text-slate-800">Enter {pinPrompt.profile.name}'s PIN</p>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoFocus
+              maxLength={PROFILE_PIN_LENGTH}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              className="w-40 px-4 py-3 text-center text-2xl tracking-[0.5em] bg-sky-50 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex justify-center gap-3">
+              <button type="button" onClick={() => { setPinPrompt(null); setError(null); }} className="px-4 py-2 font-semibold text-slate-700 bg-white/70 border border-slate-300 rounded-lg hover:bg-white">
+                Back
+              </button>
+              <button type="submit" disabled={pin.length !== PROFILE_PIN_LENGTH} className="px-6 py-2 font-semibold text-white rounded-lg shadow-md bg-gradient-to-br from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 disabled:opacity-60">
+                {PIN_ACTION_LABELS[pinPrompt.purpose]}
+              </button>
+            </div>
+          </form>
+        ) : isCreating ? (
+          <form onSubmit={handleCreate} className="space-y-4 animate-fade-in-fast">
+            <h2 className="font-semibold text-slate-800">New profile</h2>
+            <div className="space-y-2">
+              <label htmlFor="profile-name" className="text-sm font-medium text-slate-700">Name</label>
+              <input
+                id="profile-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={30}
+                className="w-full px-4 py-3 bg-sky-50 text-slate-900 border border-slate-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-slate-700">Avatar</span>
+              <div className="flex flex-wrap gap-2">
+                {PROFILE_AVATARS.map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setAvatar(option)}
+                    aria-label={`Choose avatar ${option}`}
+                    className={`w-11 h-11 text-2xl rounded-full border-2 transition-colors ${avatar === option ? 'border-indigo-500 bg-indigo-50' : 'border-transparent bg-white/70 hover:bg-white'}`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="profile-pin" className="text-sm font-medium text-slate-700">PIN (optional, {PROFILE_PIN_LENGTH} digits)</label>
+              <input
+                id="profile-pin"
+                type="password"
+                inputMode="numeric"
+                maxLength={PROFILE_PIN_LENGTH}
+                value={newPin}
+                onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+                className="w-40 px-4 py-3 bg-sky-50 text-slate-900 border border-slate-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="flex justify-end gap-3">
+              {profiles.length > 0 && (
+                <button type="button" onClick={() => { setIsCreating(false); resetForm(); setError(null); }} className="px-4 py-2 font-semibold text-slate-700 bg-white/70 border border-slate-300 rounded-lg hover:bg-white">
+                  Cancel
+                </button>
+              )}
+              <button type="submit" disabled={isBusy} className="px-6 py-2 font-semibold text-white rounded-lg shadow-md bg-gradient-to-br from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 disabled:opacity-60">
+                Create profile
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <ul className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {profiles.map(profile => (
+                <li key={profile.id} className="flex flex-col items-center gap-2">
+                  <button
+                    onClick={() => requestAccess(profile, 'open')}
+                    disabled={isBusy}
+                    className="w-full p-4 flex flex-col items-center gap-2 bg-white/70 border border-slate-200 rounded-xl shadow-sm transition-transform transform hover:scale-105 hover:bg-white"
+                  >
+                    <span className="text-5xl">{profile.avatar}</span>
+                    <span className="font-semibold text-slate-800 truncate max-w-full">{profile.name}</span>
+                    {profile.pinHash && <span className="text-xs text-slate-500">PIN locked</span>}
+                  </button>
+                  {isManaging && (
+                    <div className="flex gap-3 text-xs font-semibold animate-fade-in-fast">
+                      <button onClick={() => requestAccess(profile, 'export')} className="text-indigo-600 hover:text-indigo-800">Export</button>
+                      <button onClick={() => requestAccess(profile, 'delete')} disabled={isBusy} className="text-red-600 hover:text-red-800">Delete</button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-between items-center pt-4 border-t border-slate-300/70">
+              <button onClick={() => setIsManaging(m => !m)} className="text-sm font-semibold text-slate-600 hover:text-slate-800">
+                {isManaging ? 'Done' : 'Manage profiles'}
+              </button>
+              <button
+                onClick={() => { setIsCreating(true); setError(null); }}
+                className="px-4 py-2 text-sm font-semibold text-white rounded-lg shadow-md bg-gradient-to-br from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+              >
+                Add profile
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfileScreen;
@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Difficulty, ProgressRecord } from '../types';
+import { listSessions, getProgress } from '../services/historyStore';
+import { analyzeProgress, averagePercentage, ChapterProgress, ProgressOverview, TrendPoint } from '../services/progressAnalytics';
+import { formatDuration } from '../services/timing';
+import ScoreRing from './ScoreRing';
+import ScoreBars from './ScoreBars';
+import { FireIcon } from './Icons';
+
+interface ProgressDashboardProps {
+  profileId: string;
+  onClose: () => void;
+}
+
+const DIFFICULTY_COLORS: Record<Difficulty, string> = {
+  [Difficulty.Basic]: '#10b981',
+  [Difficulty.Medium]: '#0ea5e9',
+  [Difficulty.Difficult]: '#6366f1',
+};
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 8;
+
+const chapterId = (entry: ChapterProgress) => `${entry.subject}/${entry.chapter}`;
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+const TrendChart: React.FC<{ trends: Record<Difficulty, TrendPoint[]> }> = ({ trends }) => {
+  const all = Object.values(trends).flat();
+  const first = Math.min(...all.map(p => p.completedAt));
+  const last = Math.max(...all.map(p => p.completedAt));
+  const x = (at: number) => last === first
+    ? CHART_WIDTH / 2
+    : CHART_PADDING + ((at - first) / (last - first)) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = (percentage: number) => CHART_PADDING + (1 - percentage / 100) * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+  return (
+    <div>
+      <svg className="w-full h-40 bg-slate-200/50 rounded-lg" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none">
+        {[25, 50, 75].map(level => (
+          <line key={level} x1={0} x2={CHART_WIDTH} y1={y(level)} y2={y(level)} stroke="#cbd5e1" strokeWidth="0.5" strokeDasharray="2 2" />
+        ))}
+        {Object.values(Difficulty).map(d => trends[d].length > 0 && (
+          <g key={d} stroke={DIFFICULTY_COLORS[d]} fill={DIFFICULTY_COLORS[d]}>
+            <polyline
+              points={trends[d].map(p => `${x(p.completedAt)},${y(p.percentage)}`).join(' ')}
+              fill="none"
+              strokeWidth="2"
+              vectorEffect="non-scaling-stroke"
+            />
+            {trends[d].map((p, i) => (
+              <circle key={i} cx={x(p.completedAt)} cy={y(p.percentage)} r="2.5">
+                <title>{`${d} · ${new Date(p.completedAt).toLocaleDateString()} · ${p.percentage}% over ${p.questionCount} question${p.questionCount === 1 ? '' : 's'}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-slate-500 mt-1">
+        <span>{new Date(first).toLocaleDateString()}</span>
+        <span className="flex gap-3">
+          {Object.values(Difficulty).map(d => (
+            <span key={d} className="flex items-center gap-1">
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: DIFFICULTY_COLORS[d] }}></span>
+              {d}
+            </span>
+          ))}
+        </span>
+        <span>{new Date(last).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+};
+
+const StatTile: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="p-3 bg-slate-50 rounded-lg border border-slate-200 text-center">
+    <div className="text-2xl font-bold text-slate-900 tabular-nums">{value}</div>
+    <div className="text-xs text-slate-600">{label}</div>
+  </div>
+);
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ profileId, onClose }) => {
+  const [overview, setOverview] = useState<ProgressOverview | null>(null);
+  const [progress, setProgress] = useState<ProgressRecord | null>(null);
+  const [selectedChapter, setSelectedChapter] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([listSessions(profileId), getProgress(profileId)])
+      .then(([sessions, storedProgress]) => {
+        const analysed = analyzeProgress(sessions);
+        setOverview(analysed);
+        setProgress(storedProgress);
+        const mostRecent = analysed.chapters
+          .filter(c => c.lastPractisedAt !== null)
+          .sort((a, b) => b.lastPractisedAt! - a.lastPractisedAt!)[0];
+        if (mostRecent) setSelectedChapter(chapterId(mostRecent));
+      })
+      .catch(e => {
+        console.error("Failed to load session history:", e);
+        setError("Couldn't load your session history.");
+      });
+  }, [profileId]);
+
+  const attempted = useMemo(() => overview?.chapters.filter(c => c.lastPractisedAt !== null) ?? [], [overview]);
+  const selected = attempted.find(c => chapterId(c) === selectedChapter);
+
+  const totalSeen = overview ? sum(overview.chapters.map(c => sum(Object.values(c.seen)))) : 0;
+  const totalPool = overview ? sum(overview.chapters.map(c => sum(Object.values(c.poolSize)))) : 0;
+  const coverage = totalPool > 0 ? Math.round((totalSeen / totalPool) * 100) : 0;
+  // The recorded streak also counts answers from before history was kept, so take whichever is longer.
+  const longestStreak = Math.max(overview?.longestAnswerStreak ?? 0, progress?.longestStreak ?? 0);
+
+  return (
+    <div className="w-full h-full flex flex-col p-4 sm:p-6 bg-white/60 backdrop-blur-lg border border-white/30 rounded-2xl shadow-xl animate-fade-in">
+      <header className="flex justify-between items-center mb-4 pb-4 border-b border-slate-300/70">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Your Progress</h2>
+          <p className="text-sm text-slate-600">Scores, coverage and streaks across all your sessions.</p>
+        </div>
+        <button onClick={onClose} className="px-4 py-2 font-semibold text-slate-700 bg-white/70 border border-slate-300 rounded-lg hover:bg-white">
+          Close
+        </button>
+      </header>
+
+      <div className="flex-grow overflow-y-auto pr-2 space-y-6">
+        {error && <div className="p-3 bg-red-100 text-red-700 border border-red-300 rounded-lg">{error}</div>}
+        {!overview && !error && <p className="text-slate-600">Loading…</p>}
+        {overview && overview.sessionCount === 0 && (
+          <p className="text-slate-600">No sessions yet. Finish a practice session and your progress will show up here.</p>
+        )}
+
+        {overview && overview.sessionCount > 0 && (
+          <>
+            <section className="flex flex-col sm:flex-row items-center gap-6">
+              <ScoreRing percentage={coverage} colorClass="text-indigo-500" sizeClass="w-36 h-36 flex-shrink-0">
+                <span className="text-3xl font-bold text-slate-900">{coverage}%</span>
+                <span className="text-xs text-slate-600">{totalSeen} / {totalPool} seen</span>
+              </ScoreRing>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 w-full">
+                <StatTile label="Sessions" value={overview.sessionCount} />
+                <StatTile label="Answers graded" value={overview.answerCount} />
+                <StatTile label="Time on task" value={formatDuration(overview.totalTimeSpentMs)} />
+                <StatTile label="Longest correct streak" value={<span className="flex items-center justify-center gap-1"><FireIcon />{longestStreak}</span>} />
+                <StatTile label="Longest daily streak" value={`${overview.longestDayStreak} day${overview.longestDayStreak === 1 ? '' : 's'}`} />
+                <StatTile label="Chapters attempted" value={`${attempted.length} / ${overview.chapters.length}`} />
+              </div>
+            </section>
+
+            {attempted.length > 0 && (
+              <section className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+                <div className="flex justify-between items-center gap-4 mb-3">
+                  <h3 className="font-semibold text-slate-800">Score trend</h3>
+                  <select
+                    value={selectedChapter}
+                    onChange={(e) => setSelectedChapter(e.target.value)}
+                    className="p-2 text-sm bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {attempted.map(c => <option key={chapterId(c)} value={chapterId(c)}>{c.chapter} · {c.subject}</option>)}
+                  </select>
+                </div>
+                {selected && (
+                  Object.values(selected.trends).some(points => points.length > 0) ? (
+                    <div className="space-y-6">
+                      <TrendChart trends={selected.trends} />
+                      <ScoreBars
+                        bars={Object.values(Difficulty).map(d => {
+                          const average = averagePercentage(selected.trends[d]);
+                          return {
+                            label: d,
+                            percentage: average ?? 0,
+                            highlighted: average !== null,
+                            tooltip: average !== null ? (
+                              <div className="text-left">
+                                <p><strong>Average:</strong> {average}%</p>
+                                <p><strong>Sessions:</strong> {selected.trends[d].length}</p>
+                                <p><strong>Seen:</strong> {selected.seen[d]}/{selected.poolSize[d]}</p>
+                              </div>
+                            ) : (
+                              "Not played yet"
+                            ),
+                          };
+                        })}
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-sm text-slate-600">None of the answers in this chapter have been graded yet.</p>
+                  )
+                )}
+              </section>
+            )}
+
+            <section className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+              <h3 className="font-semibold text-slate-800 mb-3">Coverage</h3>
+              <table className="w-full text-sm text-left">
+                <thead>
+                  <tr className="text-slate-500 border-b border-slate-200">
+                    <th className="py-1 font-medium">Chapter</th>
+                    {Object.values(Difficulty).map(d => <th key={d} className="py-1 font-medium text-center">{d}</th>)}
+                    <th className="py-1 font-medium text-right">Time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {overview.chapters.map(c => (
+                    <tr key={chapterId(c)} className={`border-b border-slate-100 ${c.lastPractisedAt === null ? 'text-slate-400' : 'text-slate-700'}`}>
+                      <td className="py-1">
+                        {c.chapter} <span className="text-slate-400">· {c.subject}</span>
+                      </td>
+                      {Object.values(Difficulty).map(d => (
+                        <td key={d} className="py-1 text-center tabular-nums">
+                          <span className={c.poolSize[d] > 0 && c.seen[d] >= c.poolSize[d] ? 'font-bold text-green-600' : ''}>
+                            {c.seen[d]}/{c.poolSize[d]}
+                          </span>
+                        </td>
+                      ))}
+                      <td className="py-1 text-right tabular-nums">{c.timeSpentMs > 0 ? formatDuration(c.timeSpentMs) : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { BankFileFormat, BankValidationError, serializeCsvBank, serializeQuestionBank } from '../services/questionBankFormat';
+import { getSubjects, importQuestionBank, listImportedBanks, removeImportedBank, ImportedBank } from '../services/questionBank';
+import { downloadFile } from '../services/fileDownload';
+
+interface QuestionBankManagerProps {
+  onCatalogueChange: () => void;
+  onOpenAuthoring: () => void;
+}
+
+const MAX_ERRORS_SHOWN = 20;
+
+const QuestionBankManager: React.FC<QuestionBankManagerProps> = ({ onCatalogueChange, onOpenAuthoring }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [banks, setBanks] = useState<ImportedBank[]>(() => listImportedBanks());
+  const [errors, setErrors] = useState<BankValidationError[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const format: BankFileFormat = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+    let result: ReturnType<typeof importQuestionBank>;
+    try {
+      result = importQuestionBank(file.name, await file.text(), format);
+    } catch (err: any) {
+      console.error("Question bank import failed:", err);
+      setErrors([]);
+      setMessage(`${file.name} could not be saved: ${err?.message || 'unknown error'}.`);
+      return;
+    }
+    if (result.ok === false) {
+      setErrors(result.errors);
+      setMessage(`${file.name} was not imported.`);
+      return;
+    }
+    setErrors([]);
+    setMessage(`Imported ${result.bank.questionCount} questions from ${file.name}.`);
+    setBanks(listImportedBanks());
+    onCatalogueChange();
+  };
+
+  const handleRemove = (name: string) => {
+    removeImportedBank(name);
+    setBanks(listImportedBanks());
+    setMessage(`Removed ${name}.`);
+    onCatalogueChange();
+  };
+
+  const handleExport = (format: BankFileFormat) => {
+    if (format === 'json') {
+      setMessage(null);
+      downloadFile('question-bank.json', serializeQuestionBank(getSubjects(), 'json'), 'application/json');
+      return;
+    }
+    const csv = serializeCsvBank(getSubjects());
+    const skipped = [
+      ...(csv.skippedQuestions > 0 ? [`${csv.skippedQuestions} question${csv.skippedQuestions === 1 ? '' : 's'} with a marking scheme or answer key`] : []),
+      ...(csv.skippedChapters > 0 ? [`${csv.skippedChapters} chapter${csv.skippedChapters === 1 ? '' : 's'} that would be missing a difficulty`] : []),
+    ];
+    setErrors([]);
+    setMessage(skipped.length > 0
+      ? `Exported ${csv.questionCount} questions. CSV can't hold ${skipped.join(' or ')}, so they were left out; export JSON to keep everything.`
+      : `Exported ${csv.questionCount} questions.`);
+    downloadFile('question-bank.csv', csv.content, 'text/csv');
+  };
+
+  return (
+    <div className="w-full max-w-lg mt-6 p-6 bg-white/50 backdrop-blur-lg border border-white/30 rounded-2xl shadow-xl">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-expanded={isOpen}
+        className="w-full flex justify-between items-center font-semibold text-slate-800"
+      >
+        Question Bank
+        <span className="text-sm text-indigo-600">{isOpen ? 'Hide' : 'Import / Export'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4 animate-fade-in-fast">
+          <div className="flex flex-wrap gap-2">
+            <label className="px-4 py-2 text-sm font-semibold text-white bg-blue-500 rounded-md shadow-sm hover:bg-blue-600 cursor-pointer">
+              Import JSON or CSV
+              <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFileChange} className="hidden" />
+            </label>
+            <button onClick={() => handleExport('json')} className="px-4 py-2 text-sm font-semibold text-slate-700 bg-white/70 border border-slate-300 rounded-md hover:bg-white">
+              Export JSON
+            </button>
+            <button onClick={() => handleExport('csv')} className="px-4 py-2 text-sm font-semibold text-slate-700 bg-white/70 border border-slate-300 rounded-md hover:bg-white">
+              Export CSV
+            </button>
+            <button onClick={onOpenAuthoring} className="px-4 py-2 text-sm font-semibold text-slate-700 bg-white/70 border border-slate-300 rounded-md hover:bg-white">
+              Write Questions
+            </button>
+          </div>
+
+          {message && <p className="text-sm text-slate-700">{message}</p>}
+
+          {errors.length > 0 && (
+            <div className="p-3 bg-red-100 text-red-700 border border-red-300 rounded-lg text-sm">
+              <ul className="space-y-1">
+                {errors.slice(0, MAX_ERRORS_SHOWN).map((error, index) => (
+                  <li key={index}><span className="font-semibold">Line {error.line}:</span> {error.message}</li>
+                ))}
+              </ul>
+              {errors.length > MAX_ERRORS_SHOWN && <p className="mt-2">…and {errors.length - MAX_ERRORS_SHOWN} more.</p>}
+            </div>
+          )}
+
+          {banks.length > 0 && (
+            <ul className="space-y-2">
+              {banks.map(bank => (
+                <li key={bank.name} className="flex justify-between items-center gap-4 text-sm text-slate-700">
+                  <span>
+                    <span className="font-medium text-slate-900">{bank.name}</span>
+                    <span className="text-slate-500"> · {bank.questionCount} questions · {new Date(bank.importedAt).toLocaleDateString()}</span>
+                  </span>
+                  <button onClick={() => handleRemove(bank.name)} className="flex-shrink-0 text-red-600 hover:text-red-800 font-semibold">
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionBankManager;
@@ -1,6 +1,20 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Question, EvaluationResult } from '../types';
-import { MicIcon, SendIcon, VolumeUpIcon, VolumeOffIcon, NextIcon, LightbulbIcon, PencilIcon, SparklesIcon, FireIcon } from './Icons';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Question, EvaluationResult, GradingMode, PartialEvaluation, TutorMessage, AnswerImage } from '../types';
+import { MAX_ANSWER_IMAGES } from '../constants';
+import { formatDuration } from '../services/timing';
+import { explainObjectiveAnswer, isGeminiConfigured } from '../services/geminiService';
+import { getEvaluator } from '../services/evaluator';
+import { answerImageSrc, readAnswerImage } from '../services/answerImages';
+import { getDiagram } from '../services/questionBank';
+import { buildHints } from '../services/hints';
+import { hasMath, mathToPlain } from '../services/mathText';
+import { describeImbalance, findEquations, formatChemistry, isChemistryQuestion, normalizeSpokenChemistry } from '../services/chemistry';
+import TutorChat from './TutorChat';
+import MathText from './MathText';
+import DiagramLabeller from './DiagramLabeller';
+import ChoiceInput from './ChoiceInput';
+import MatchColumnsInput from './MatchColumnsInput';
+import { MicIcon, SendIcon, VolumeUpIcon, VolumeOffIcon, NextIcon, LightbulbIcon, PencilIcon, SparklesIcon, FireIcon, CheckIcon, CrossIcon, CameraIcon } from './Icons';
 
 // Fix: Add type definitions for the Web Speech API to resolve TypeScript errors.
 interface SpeechRecognition extends EventTarget {
@@ -40,6 +54,9 @@ interface SpeechRecognitionAlternative {
   readonly transcript: string;
 }
 
+// Symbols that are awkward to type, offered as buttons in formula input.
+const REACTION_SYMBOLS = ['→', '⇌', '↑', '↓', '(aq)', 'Δ'];
+
 interface QuestionScreenProps {
   question: Question;
   questionNumber: number;
@@ -48,8 +65,29 @@ interface QuestionScreenProps {
   streak: number;
   isLoading: boolean;
   error: string | null;
-  onSubmit: (answer: string) => Promise<EvaluationResult>;
-  onNext: (wasAnswered: boolean) => void;
+  // Resolves to null when the answer couldn't be graded; `error` then says why and the student can retry.
+  // `onPartial` receives the evaluation as it streams in, when the grading backend supports it.
+  onSubmit: (answer: string, images: AnswerImage[], onPartial?: (partial: PartialEvaluation) => void) => Promise<EvaluationResult | null>;
+  // `timedOut` when the question's own time limit ran out before anything was written.
+  onNext: (wasAnswered: boolean, timedOut?: boolean) => void;
+  // Exam mode: epoch ms when the whole paper ends, and this question's own limit. Null when untimed.
+  paperDeadline: number | null;
+  questionTimeLimitSeconds: number | null;
+  onTimeUp: () => void;
+  // Deferred grading: the answer is only collected here (and kept in App) until the paper is finished.
+  gradingMode: GradingMode;
+  savedAnswer: string;
+  onAnswerChange: (questionId: string, answer: string) => void;
+  savedImages: AnswerImage[];
+  onImagesChange: (questionId: string, images: AnswerImage[]) => void;
+  onPrevious?: () => void;
+  // Saves the follow-up tutor conversation with the session answer for this question.
+  onTutorChatChange: (questionId: string, messages: TutorMessage[]) => void;
+  // Hints already opened for this question; each one costs marks when the answer is graded.
+  hintsUsed: number;
+  // Marks the hints cost once the answer was graded; never more than the answer scored.
+  hintDeduction: number;
+  onUseHint: (questionId: string) => void;
 }
 
 const QuestionScreen: React.FC<QuestionScreenProps> = ({
@@ -62,35 +100,121 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
   error,
   onSubmit,
   onNext,
+  paperDeadline,
+  questionTimeLimitSeconds,
+  onTimeUp,
+  gradingMode,
+  savedAnswer,
+  onAnswerChange,
+  savedImages,
+  onImagesChange,
+  onPrevious,
+  onTutorChatChange,
+  hintsUsed,
+  hintDeduction,
+  onUseHint,
 }) => {
+  const isDeferred = gradingMode === 'deferred';
   const [studentAnswer, setStudentAnswer] = useState('');
+  // Photos of a handwritten answer, offered only when the grading backend can read them.
+  const [images, setImages] = useState<AnswerImage[]>([]);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const canAttachPhotos = !!getEvaluator().acceptsImages;
+  const labellingDiagram = question.labelling ? getDiagram(question.labelling.diagramId) : undefined;
+  const hasAnswer = !!studentAnswer.trim() || images.length > 0;
   const [evaluationResult, setEvaluationResult] = useState<EvaluationResult | null>(null);
+  const [evaluationFailed, setEvaluationFailed] = useState(false);
+  const [partialResult, setPartialResult] = useState<PartialEvaluation | null>(null);
+  const [tutorMessages, setTutorMessages] = useState<TutorMessage[]>([]);
+  const [tutorDraft, setTutorDraft] = useState('');
+  // Objective questions: the AI explanation of the wrong options, fetched only when asked for.
+  const [explanation, setExplanation] = useState<string | null>(null);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [explanationError, setExplanationError] = useState<string | null>(null);
+  const hints = useMemo(() => buildHints(question), [question]);
+  // Formula input: dictation is turned into formulas, and a rendered preview with an equation balance check is shown.
+  const [isFormulaMode, setIsFormulaMode] = useState(() => isChemistryQuestion(question));
+  const formulaModeRef = useRef(isFormulaMode);
+  formulaModeRef.current = isFormulaMode;
+  const answerInputRef = useRef<HTMLTextAreaElement>(null);
+  const draftEquations = useMemo(() => isFormulaMode ? findEquations(studentAnswer) : [], [isFormulaMode, studentAnswer]);
+  // The part of the streamed feedback that has already been handed to text-to-speech.
+  const spokenFeedbackRef = useRef('');
   const [isRecording, setIsRecording] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [showCorrectAnswer, setShowCorrectAnswer] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const questionShownAtRef = useRef(Date.now());
+  const questionTimeUpHandledRef = useRef(false);
+  const paperTimeUpHandledRef = useRef(false);
 
   // Fix: Cast window to any to access vendor-prefixed SpeechRecognition API
   // and rename variable to avoid shadowing the global SpeechRecognition type.
   const SpeechRecognitionImpl = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
   const recognitionRef = useRef<SpeechRecognition | null>(null);
   const baseTranscriptRef = useRef('');
+  // Which text box dictation goes into: the answer, or the message to the tutor once the answer is graded.
+  const dictationTargetRef = useRef<'answer' | 'tutor'>('answer');
   const isSpeechSupported = !!SpeechRecognitionImpl;
 
-  const speak = useCallback((text: string) => {
+  // `interrupt` stops whatever is being read out; without it the text is queued after it.
+  const speak = useCallback((text: string, interrupt = true) => {
     if ('speechSynthesis' in window && !isMuted) {
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(text);
+      if (interrupt) window.speechSynthesis.cancel();
+      const utterance = new SpeechSynthesisUtterance(mathToPlain(text));
       window.speechSynthesis.speak(utterance);
     }
   }, [isMuted]);
 
   useEffect(() => {
-    setStudentAnswer('');
+    setStudentAnswer(savedAnswer);
+    setImages(savedImages);
+    setPhotoError(null);
     setEvaluationResult(null);
+    setEvaluationFailed(false);
+    setPartialResult(null);
+    setTutorMessages([]);
+    setTutorDraft('');
+    setExplanation(null);
+    setExplanationError(null);
     setShowCorrectAnswer(false);
+    setIsFormulaMode(isChemistryQuestion(question));
     speak(question.prompt);
   }, [question, speak]);
 
+  useEffect(() => {
+    if (isDeferred) {
+      onAnswerChange(question.id, studentAnswer);
+    }
+    // Only a change of the answer itself should be saved; `question` changes are handled by the reset above.
+  }, [studentAnswer]);
+
+  useEffect(() => {
+    if (isDeferred) {
+      onImagesChange(question.id, images);
+    }
+  }, [images]);
+
+  useEffect(() => {
+    questionShownAtRef.current = Date.now();
+    questionTimeUpHandledRef.current = false;
+    setNow(Date.now());
+  }, [question]);
+
+  const isTimed = paperDeadline !== null || questionTimeLimitSeconds !== null;
+
+  useEffect(() => {
+    if (!isTimed) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [isTimed]);
+
+  const paperRemainingMs = paperDeadline !== null ? paperDeadline - now : null;
+  const questionRemainingMs = questionTimeLimitSeconds !== null ? questionTimeLimitSeconds * 1000 - (now - questionShownAtRef.current) : null;
+  const isPaperTimeUp = paperRemainingMs !== null && paperRemainingMs <= 0;
+  const isQuestionTimeUp = questionRemainingMs !== null && questionRemainingMs <= 0;
+
   useEffect(() => {
     if (isSpeechSupported) {
       recognitionRef.current = new SpeechRecognitionImpl();
@@ -108,7 +232,11 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
         for (let i = 0; i < event.results.length; ++i) {
           fullTranscript += event.results[i][0].transcript;
         }
-        setStudentAnswer(baseTranscriptRef.current + fullTranscript);
+        if (dictationTargetRef.current === 'tutor') {
+          setTutorDraft(baseTranscriptRef.current + fullTranscript);
+        } else {
+          setStudentAnswer(baseTranscriptRef.current + (formulaModeRef.current ? normalizeSpokenChemistry(fullTranscript) : fullTranscript));
+        }
       };
 
       recognition.onend = () => {
@@ -122,26 +250,137 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
     }
   }, [isSpeechSupported, SpeechRecognitionImpl]);
   
-  const toggleRecording = () => {
+  const toggleRecording = (target: 'answer' | 'tutor' = 'answer') => {
     if (!isSpeechSupported) return;
     if (isRecording) {
       recognitionRef.current?.stop();
     } else {
-      baseTranscriptRef.current = studentAnswer ? studentAnswer.trim() + ' ' : '';
+      const existing = target === 'tutor' ? tutorDraft : studentAnswer;
+      dictationTargetRef.current = target;
+      baseTranscriptRef.current = existing ? existing.trim() + ' ' : '';
       recognitionRef.current?.start();
     }
     setIsRecording(!isRecording);
   };
+
+  const handleTutorMessagesChange = (messages: TutorMessage[]) => {
+    setTutorMessages(messages);
+    onTutorChatChange(question.id, messages);
+  };
   
-  const handleAnswerSubmit = async () => {
-    if (!studentAnswer.trim() || isLoading) return;
+  const submitAnswer = async (answer: string) => {
     if (isRecording) {
         recognitionRef.current?.stop();
         setIsRecording(false);
     }
-    const result = await onSubmit(studentAnswer);
+    spokenFeedbackRef.current = '';
+    setPartialResult(null);
+    const result = await onSubmit(answer, images, (partial) => {
+      setPartialResult(partial);
+      if (partial.feedback) speakCompleteSentences(partial.feedback);
+    });
+    setPartialResult(null);
+    if (!result) {
+      setEvaluationFailed(true);
+      return;
+    }
+    setEvaluationFailed(false);
     setEvaluationResult(result);
-    speak(result.feedback);
+    if (!spokenFeedbackRef.current) {
+      speak(result.feedback);
+    } else if (result.feedback.startsWith(spokenFeedbackRef.current)) {
+      // The stream already read out the opening sentences; queue the rest.
+      const rest = result.feedback.slice(spokenFeedbackRef.current.length);
+      if (rest.trim()) speak(rest, false);
+    }
+  };
+
+  // Reads out each sentence of streamed feedback as soon as it is complete, starting with the first.
+  const speakCompleteSentences = (feedback: string) => {
+    if (!feedback.startsWith(spokenFeedbackRef.current)) return;
+    const unspoken = feedback.slice(spokenFeedbackRef.current.length);
+    const sentences = unspoken.match(/^[\s\S]*[.!?](?=\s)/)?.[0];
+    if (!sentences) return;
+    const isFirst = !spokenFeedbackRef.current;
+    spokenFeedbackRef.current += sentences;
+    speak(sentences, isFirst);
+  };
+
+  // Inserts a reaction symbol at the cursor in the answer box.
+  const insertSymbol = (symbol: string) => {
+    const input = answerInputRef.current;
+    const start = input?.selectionStart ?? studentAnswer.length;
+    const end = input?.selectionEnd ?? studentAnswer.length;
+    setStudentAnswer(studentAnswer.slice(0, start) + symbol + studentAnswer.slice(end));
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + symbol.length, start + symbol.length);
+    });
+  };
+
+  const handleAnswerSubmit = async () => {
+    if (!hasAnswer || isLoading) return;
+    await submitAnswer(studentAnswer);
+  };
+
+  const handleAddPhotos = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Cleared so picking the same photo again after removing it still fires a change.
+    event.target.value = '';
+    if (files.length === 0) return;
+    const room = MAX_ANSWER_IMAGES - images.length;
+    setPhotoError(files.length > room ? `You can attach up to ${MAX_ANSWER_IMAGES} photos per answer.` : null);
+    try {
+      const added = await Promise.all(files.slice(0, room).map(readAnswerImage));
+      setImages(prev => [...prev, ...added].slice(0, MAX_ANSWER_IMAGES));
+    } catch (e) {
+      console.error("Failed to read the photo:", e);
+      setPhotoError("That photo couldn't be read. Try a JPEG or PNG image.");
+    }
+  };
+
+  // When time runs out, whatever has been written so far is submitted as the answer. A blank answer is
+  // recorded as unattempted instead, without spending an evaluation on it.
+  useEffect(() => {
+    if (isDeferred || !isQuestionTimeUp || isPaperTimeUp || questionTimeUpHandledRef.current || isLoading) return;
+    questionTimeUpHandledRef.current = true;
+    if (evaluationResult) return;
+    if (hasAnswer) {
+      submitAnswer(studentAnswer);
+      return;
+    }
+    if (isRecording) {
+      recognitionRef.current?.stop();
+      setIsRecording(false);
+    }
+    onNext(false, true);
+  });
+
+  useEffect(() => {
+    if (!isPaperTimeUp || paperTimeUpHandledRef.current || isLoading) return;
+    paperTimeUpHandledRef.current = true;
+    (async () => {
+      // A blank answer is left for the summary to mark as unattempted rather than sent for grading.
+      if (!isDeferred && !evaluationResult && hasAnswer) {
+        await submitAnswer(studentAnswer);
+      }
+      onTimeUp();
+    })();
+  });
+
+  const handleExplainOptions = async () => {
+    setIsExplaining(true);
+    setExplanationError(null);
+    try {
+      const text = await explainObjectiveAnswer(question, studentAnswer);
+      setExplanation(text);
+      speak(text);
+    } catch (e: any) {
+      console.error("Explaining the options failed:", e);
+      setExplanationError(e?.message || "Sorry, the explanation couldn't be fetched.");
+    } finally {
+      setIsExplaining(false);
+    }
   };
 
   const handleShowCorrectAnswerToggle = () => {
@@ -161,7 +400,7 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
           Question {questionNumber}/{totalQuestions}
         </div>
         <div className="flex items-center gap-6">
-            {streak > 1 && (
+            {!isDeferred && streak > 1 && (
                 <div 
                     className="flex items-center gap-1 text-lg font-bold text-orange-500 animate-fade-in-fast"
                     title={`${streak} correct answers in a row!`}
@@ -170,9 +409,28 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
                     <span>{streak} Streak</span>
                 </div>
             )}
-            <div className="text-lg font-semibold text-slate-800">
-                Total Score: <span className="font-bold text-indigo-600">{totalScore}</span>
-            </div>
+            {!isDeferred && (
+                <div className="text-lg font-semibold text-slate-800">
+                    Total Score: <span className="font-bold text-indigo-600">{totalScore}</span>
+                </div>
+            )}
+            {paperRemainingMs !== null && (
+                <div
+                    className={`text-lg font-semibold tabular-nums ${paperRemainingMs < 5 * 60 * 1000 ? 'text-red-600' : 'text-slate-800'}`}
+                    title="Time left for the whole paper"
+                    aria-live="polite"
+                >
+                    Paper: {formatDuration(paperRemainingMs)}
+                </div>
+            )}
+            {questionRemainingMs !== null && !evaluationResult && (
+                <div
+                    className={`text-lg font-semibold tabular-nums ${questionRemainingMs < 30 * 1000 ? 'text-red-600' : 'text-slate-800'}`}
+                    title="Time left for this question"
+                >
+                    Question: {formatDuration(questionRemainingMs)}
+                </div>
+            )}
         </div>
         <div className="flex items-center gap-2">
           <span className="text-sm font-medium text-slate-600 select-none" id="mute-label">
@@ -196,7 +454,7 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
 
       <div className="flex-grow overflow-y-auto pr-2">
         <div className="bg-blue-500/10 p-6 rounded-lg mb-4 flex items-start gap-4">
-          <p className="text-xl font-medium text-slate-900 leading-relaxed flex-grow">{question.prompt}</p>
+          <p className="text-xl font-medium text-slate-900 leading-relaxed flex-grow"><MathText text={question.prompt} /></p>
           <button
             onClick={() => speak(question.prompt)}
             className="flex-shrink-0 p-2 rounded-full text-blue-500 hover:bg-blue-200/50 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
@@ -205,50 +463,358 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
             <VolumeUpIcon />
           </button>
         </div>
+
+        {hints.length > 0 && (hintsUsed > 0 || (!evaluationResult && !isLoading)) && (
+          <div className="mb-4">
+            {hints.slice(0, hintsUsed).map((hint, index) => (
+              <div key={index} className="mb-2 p-3 bg-amber-50 border-l-4 border-amber-400 rounded-r-lg text-sm">
+                <h4 className="flex items-center gap-2 font-semibold text-amber-800">
+                  <LightbulbIcon />
+                  Hint {index + 1} <span className="font-normal text-amber-700">(−{hint.deduction} marks)</span>
+                </h4>
+                <p className="text-slate-700 mt-1"><MathText text={hint.text} /></p>
+              </div>
+            ))}
+            {!evaluationResult && !isLoading && hintsUsed < hints.length && (
+              <button
+                onClick={() => onUseHint(question.id)}
+                className="text-sm font-semibold text-amber-700 hover:text-amber-900 transition-colors"
+              >
+                {hintsUsed === 0 ? 'Need a hint?' : 'Show another hint'} (−{hints[hintsUsed].deduction} marks)
+              </button>
+            )}
+          </div>
+        )}
         
-        <div className="relative">
-          <textarea
-            value={studentAnswer}
-            onChange={(e) => setStudentAnswer(e.target.value)}
-            placeholder={isSpeechSupported ? "Click the mic to speak or type your answer here..." : "Type your answer here..."}
-            className="w-full h-40 p-4 bg-white/70 border border-slate-300 text-slate-900 placeholder-slate-500 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 transition"
-            disabled={!!evaluationResult || isLoading}
-          />
-          {isSpeechSupported && (
-            <button
-              onClick={toggleRecording}
-              disabled={!!evaluationResult || isLoading}
-              aria-label={isRecording ? "Stop recording" : "Start recording"}
-              className={`absolute bottom-3 right-14 p-3 rounded-full transition-all transform ${isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-blue-500 text-white hover:bg-blue-600 hover:scale-110'}`}
-            >
-              <MicIcon />
-            </button>
-          )}
-          <button
-            onClick={handleAnswerSubmit}
-            disabled={!studentAnswer.trim() || !!evaluationResult || isLoading}
-            aria-label="Submit answer"
-            className="absolute bottom-3 right-3 p-3 rounded-full bg-green-500 text-white hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
-          >
-            {isLoading ? (
-                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+        {labellingDiagram || question.objective ? (
+          <>
+            {labellingDiagram ? (
+              <DiagramLabeller
+                diagram={labellingDiagram}
+                spec={question.labelling!}
+                answer={studentAnswer}
+                onAnswerChange={setStudentAnswer}
+                checks={evaluationResult?.labelChecks}
+                disabled={!!evaluationResult || isLoading}
+              />
+            ) : question.objective!.type === 'match' ? (
+              <MatchColumnsInput
+                spec={question.objective}
+                answer={studentAnswer}
+                onAnswerChange={setStudentAnswer}
+                isGraded={!!evaluationResult}
+                disabled={!!evaluationResult || isLoading}
+              />
             ) : (
-                <SendIcon />
+              <ChoiceInput
+                spec={question.objective!}
+                answer={studentAnswer}
+                onAnswerChange={setStudentAnswer}
+                isGraded={!!evaluationResult}
+                disabled={!!evaluationResult || isLoading}
+              />
             )}
-          </button>
-        </div>
+            {!isDeferred && !evaluationResult && (
+              <div className="mt-3 flex justify-end">
+                <button
+                  onClick={handleAnswerSubmit}
+                  disabled={!hasAnswer || isLoading}
+                  className="flex items-center gap-2 px-5 py-2 rounded-lg bg-green-500 text-white font-semibold hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isLoading ? 'Checking…' : labellingDiagram ? 'Check labels' : 'Check answer'}
+                  <SendIcon />
+                </button>
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+              <button
+                onClick={() => setIsFormulaMode(m => !m)}
+                aria-pressed={isFormulaMode}
+                disabled={!!evaluationResult || isLoading}
+                className={`px-3 py-1 font-semibold rounded-full border transition-colors ${isFormulaMode ? 'bg-teal-500 text-white border-teal-500' : 'bg-white/70 text-slate-600 border-slate-300 hover:bg-white'}`}
+              >
+                Formula input
+              </button>
+              {canAttachPhotos && !evaluationResult && (
+                <>
+                  <button
+                    onClick={() => photoInputRef.current?.click()}
+                    disabled={isLoading || images.length >= MAX_ANSWER_IMAGES}
+                    title="Attach photos of an answer written on paper, diagrams included"
+                    className="flex items-center gap-1 px-3 py-1 font-semibold rounded-full border bg-white/70 text-slate-600 border-slate-300 hover:bg-white disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    <CameraIcon />
+                    Attach photo
+                  </button>
+                  <input
+                    ref={photoInputRef}
+                    type="file"
+                    accept="image/*"
+                    capture="environment"
+                    multiple
+                    onChange={handleAddPhotos}
+                    className="hidden"
+                  />
+                </>
+              )}
+              {isFormulaMode && !evaluationResult && REACTION_SYMBOLS.map(symbol => (
+                <button
+                  key={symbol}
+                  onClick={() => insertSymbol(symbol)}
+                  disabled={isLoading}
+                  className="px-2 py-1 font-mono text-slate-700 bg-white/70 border border-slate-300 rounded-md hover:bg-white"
+                >
+                  {symbol}
+                </button>
+              ))}
+            </div>
 
-        {error && <div className="mt-4 p-3 bg-red-100 text-red-700 border border-red-300 rounded-lg">{error}</div>}
+            <div className="relative">
+              <textarea
+                ref={answerInputRef}
+                value={studentAnswer}
+                onChange={(e) => setStudentAnswer(e.target.value)}
+                placeholder={isFormulaMode
+                  ? "Type or say formulas like 2H2 + O2 -> 2H2O or SO4^2-..."
+                  : isSpeechSupported ? "Click the mic to speak or type your answer here..." : "Type your answer here..."}
+                className="w-full h-40 p-4 bg-white/70 border border-slate-300 text-slate-900 placeholder-slate-500 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 transition"
+                disabled={!!evaluationResult || isLoading}
+              />
+              {isSpeechSupported && (
+                <button
+                  onClick={() => toggleRecording('answer')}
+                  disabled={!!evaluationResult || isLoading}
+                  aria-label={isRecording ? "Stop recording" : "Start recording"}
+                  className={`absolute bottom-3 ${isDeferred ? 'right-3' : 'right-14'} p-3 rounded-full transition-all transform ${isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-blue-500 text-white hover:bg-blue-600 hover:scale-110'}`}
+                >
+                  <MicIcon />
+                </button>
+              )}
+              {!isDeferred && (
+                <button
+                  onClick={handleAnswerSubmit}
+                  disabled={!hasAnswer || !!evaluationResult || isLoading}
+                  aria-label="Submit answer"
+                  className="absolute bottom-3 right-3 p-3 rounded-full bg-green-500 text-white hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isLoading ? (
+                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  ) : (
+                      <SendIcon />
+                  )}
+                </button>
+              )}
+            </div>
+
+            {images.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {images.map((image, index) => (
+                  <div key={index} className="relative">
+                    <a href={answerImageSrc(image)} target="_blank" rel="noreferrer">
+                      <img src={answerImageSrc(image)} alt={`Answer photo ${index + 1}`} className="h-24 w-24 object-cover rounded-lg border border-slate-300" />
+                    </a>
+                    {!evaluationResult && !isLoading && (
+                      <button
+                        onClick={() => setImages(prev => prev.filter((_, i) => i !== index))}
+                        aria-label={`Remove photo ${index + 1}`}
+                        className="absolute -top-2 -right-2 w-6 h-6 flex items-center justify-center rounded-full bg-slate-700 text-white text-sm hover:bg-red-600"
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            {photoError && <p className="mt-2 text-sm text-red-600">{photoError}</p>}
+
+            {(isFormulaMode || hasMath(studentAnswer)) && studentAnswer.trim() && (
+              <div className="mt-2 p-3 bg-teal-50 border border-teal-200 rounded-lg text-sm">
+                <p className="text-slate-800 whitespace-pre-wrap"><MathText text={studentAnswer} formatText={isFormulaMode ? formatChemistry : undefined} /></p>
+                {draftEquations.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-slate-600">
+                    {draftEquations.map((check, index) => (
+                      <li key={index} className="flex items-start gap-2">
+                        {check.balanced && check.chargeBalanced ? <CheckIcon /> : <CrossIcon />}
+                        <span>{formatChemistry(check.equation)}: {check.balanced && check.chargeBalanced ? 'balanced' : `not balanced (${describeImbalance(check)})`}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-100 text-red-700 border border-red-300 rounded-lg flex justify-between items-center gap-4">
+            <span>{error}</span>
+            {evaluationFailed && (
+              <button
+                onClick={() => submitAnswer(studentAnswer)}
+                disabled={isLoading}
+                className="flex-shrink-0 px-3 py-1 text-sm font-semibold text-white bg-red-500 rounded-md hover:bg-red-600 disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Retrying…' : 'Retry evaluation'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {!evaluationResult && isLoading && partialResult && (
+          <div className="mt-6 p-5 bg-slate-50 rounded-lg border border-slate-200 animate-fade-in-fast" aria-live="polite" aria-busy="true">
+            <div className="flex justify-between items-start mb-2">
+                <h3 className="text-xl font-bold text-slate-900">Feedback</h3>
+                {/* Provisional: the marking scheme is only reconciled once the whole response is in. */}
+                {partialResult.score !== undefined && (
+                  <div className={`text-lg font-bold px-4 py-1 rounded-full ${partialResult.isCorrect ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'}`}>
+                      Marks: {partialResult.score} / {question.maxMarks} <span className="text-sm font-semibold opacity-75">(provisional)</span>
+                  </div>
+                )}
+            </div>
+            <p className="text-slate-700 leading-relaxed mb-4">
+              <MathText text={partialResult.feedback ?? ''} />
+              <span className="inline-block w-2 h-4 ml-1 align-middle bg-slate-400 animate-pulse"></span>
+            </p>
+            {partialResult.missingConcepts && partialResult.missingConcepts.length > 0 && (
+              <div className="mt-4 p-3 bg-yellow-50 border-l-4 border-yellow-400 rounded-r-lg">
+                <h4 className="flex items-center gap-2 font-semibold text-yellow-800">
+                  <LightbulbIcon />
+                  Points to include:
+                </h4>
+                <ul className="list-disc list-inside text-slate-600 mt-2 space-y-1 pl-2">
+                  {partialResult.missingConcepts.map((concept, index) => (
+                    <li key={index}><MathText text={concept} /></li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {partialResult.terminologyCorrections && partialResult.terminologyCorrections.length > 0 && (
+              <div className="mt-4 p-3 bg-purple-50 border-l-4 border-purple-400 rounded-r-lg">
+                <h4 className="flex items-center gap-2 font-semibold text-purple-800">
+                  <PencilIcon />
+                  Terminology suggestions:
+                </h4>
+                <ul className="list-disc list-inside text-slate-600 mt-2 space-y-1 pl-2">
+                  {partialResult.terminologyCorrections.map((correction, index) => (
+                    <li key={index}><MathText text={correction} /></li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
 
         {evaluationResult && (
           <div className="mt-6 p-5 bg-slate-50 rounded-lg border border-slate-200 animate-fade-in-fast">
             <div className="flex justify-between items-start mb-2">
-                <h3 className="text-xl font-bold text-slate-900">Feedback</h3>
+                <h3 className="text-xl font-bold text-slate-900">
+                  Feedback
+                  {evaluationResult.cached && (
+                    <span className="ml-2 align-middle text-xs font-semibold px-2 py-0.5 rounded-full bg-slate-200 text-slate-600" title="This answer was graded before; the saved result was reused.">
+                      Cached
+                    </span>
+                  )}
+                </h3>
                 <div className={`text-lg font-bold px-4 py-1 rounded-full ${evaluationResult.isCorrect ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'}`}>
                     Marks: <span className={scoreColor}>{evaluationResult.score}</span> / {question.maxMarks}
                 </div>
             </div>
-            <p className="text-slate-700 leading-relaxed mb-4">{evaluationResult.feedback}</p>
+            {hintsUsed > 0 && (
+              <p className="text-sm text-amber-700 mb-2">Includes a deduction of {hintDeduction} marks for {hintsUsed} hint{hintsUsed === 1 ? '' : 's'}.</p>
+            )}
+            <p className="text-slate-700 leading-relaxed mb-4"><MathText text={evaluationResult.feedback} /></p>
+
+            {question.markingScheme && evaluationResult.awardedPoints && evaluationResult.awardedPoints.length > 0 && (
+              <div className="mt-4 p-3 bg-white border border-slate-200 rounded-lg">
+                <h4 className="font-semibold text-slate-800">Step marking:</h4>
+                <ul className="text-slate-600 mt-2 space-y-1">
+                  {question.markingScheme.map(point => {
+                    const awarded = evaluationResult.awardedPoints?.find(p => p.pointId === point.id)?.marksAwarded ?? 0;
+                    return (
+                      <li key={point.id} className="flex justify-between items-start gap-4 text-sm">
+                        <span className="flex items-start gap-2">
+                          {awarded > 0 ? <CheckIcon /> : <CrossIcon />}
+                          <span>
+                            {point.description}
+                            {point.mandatory && <span className="ml-2 text-xs font-semibold text-red-600">Mandatory</span>}
+                          </span>
+                        </span>
+                        <span className="flex-shrink-0 font-bold">{awarded}/{point.marks}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            {evaluationResult.numericCheck && (
+              <div className="mt-4 p-3 bg-white border border-slate-200 rounded-lg">
+                <div className="flex justify-between items-start gap-4">
+                  <h4 className="font-semibold text-slate-800">Final answer check:</h4>
+                  <span className="flex-shrink-0 text-sm font-bold">{evaluationResult.numericCheck.marksAwarded}/{evaluationResult.numericCheck.marks}</span>
+                </div>
+                <p className="text-sm text-slate-600 mt-1">
+                  Read as: <span className="font-mono">{evaluationResult.numericCheck.answer ?? '—'}</span>
+                </p>
+                <ul className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-slate-600 mt-2">
+                  {([
+                    ['Value', evaluationResult.numericCheck.valueCorrect],
+                    ['Unit', evaluationResult.numericCheck.unitCorrect],
+                    ['Significant figures', evaluationResult.numericCheck.significantFiguresCorrect],
+                  ] as [string, boolean][]).map(([label, ok]) => (
+                    <li key={label} className="flex items-center gap-1">{ok ? <CheckIcon /> : <CrossIcon />}{label}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {evaluationResult.equationChecks && evaluationResult.equationChecks.length > 0 && (
+              <div className="mt-4 p-3 bg-white border border-slate-200 rounded-lg">
+                <h4 className="font-semibold text-slate-800">Equation balance:</h4>
+                <ul className="text-sm text-slate-600 mt-2 space-y-1">
+                  {evaluationResult.equationChecks.map((check, index) => (
+                    <li key={index} className="flex items-start gap-2">
+                      {check.balanced && check.chargeBalanced ? <CheckIcon /> : <CrossIcon />}
+                      <span>{formatChemistry(check.equation)}{!(check.balanced && check.chargeBalanced) && ` — ${describeImbalance(check)}`}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {question.objective && isGeminiConfigured() && (
+              <div className="mt-4">
+                {explanation ? (
+                  <div className="p-3 bg-indigo-50 border-l-4 border-indigo-400 rounded-r-lg">
+                    <h4 className="flex items-center gap-2 font-semibold text-indigo-800">
+                      <SparklesIcon />
+                      Why the other options are wrong:
+                    </h4>
+                    <p className="text-slate-700 mt-1 whitespace-pre-wrap"><MathText text={explanation} /></p>
+                  </div>
+                ) : (
+                  <button
+                    onClick={handleExplainOptions}
+                    disabled={isExplaining}
+                    className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 transition-colors disabled:opacity-60"
+                  >
+                    {isExplaining ? 'Explaining…' : 'Explain the wrong options'}
+                  </button>
+                )}
+                {explanationError && <p className="mt-1 text-sm text-red-600">{explanationError}</p>}
+              </div>
+            )}
+
+            {evaluationResult.diagramFeedback && (
+              <div className="mt-4 p-3 bg-white border border-slate-200 rounded-lg">
+                <h4 className="font-semibold text-slate-800">Diagram & labels:</h4>
+                <p className="text-sm text-slate-600 mt-1"><MathText text={evaluationResult.diagramFeedback} /></p>
+              </div>
+            )}
 
             {evaluationResult.missingConcepts.length > 0 && (
               <div className="mt-4 p-3 bg-yellow-50 border-l-4 border-yellow-400 rounded-r-lg">
@@ -258,7 +824,7 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
                 </h4>
                 <ul className="list-disc list-inside text-slate-600 mt-2 space-y-1 pl-2">
                   {evaluationResult.missingConcepts.map((concept, index) => (
-                    <li key={index}>{concept}</li>
+                    <li key={index}><MathText text={concept} /></li>
                   ))}
                 </ul>
               </div>
@@ -272,7 +838,7 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
                 </h4>
                 <ul className="list-disc list-inside text-slate-600 mt-2 space-y-1 pl-2">
                   {evaluationResult.terminologyCorrections.map((correction, index) => (
-                    <li key={index}>{correction}</li>
+                    <li key={index}><MathText text={correction} /></li>
                   ))}
                 </ul>
               </div>
@@ -284,7 +850,7 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
                   <SparklesIcon />
                   Example Improvement:
                 </h4>
-                <p className="text-blue-700 italic mt-1">"{evaluationResult.modelAnswerImprovement}"</p>
+                <p className="text-blue-700 italic mt-1">"<MathText text={evaluationResult.modelAnswerImprovement} />"</p>
               </div>
             )}
 
@@ -302,22 +868,53 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
               {showCorrectAnswer && (
                 <div className="mt-2 p-3 bg-green-50/70 border-l-4 border-green-500 rounded-r-lg animate-fade-in-fast">
                   <h4 className="font-semibold text-green-800">Model Answer:</h4>
-                  <p className="text-slate-800 mt-1">{question.canonicalAnswer}</p>
+                  <p className="text-slate-800 mt-1"><MathText text={question.canonicalAnswer} /></p>
                 </div>
               )}
             </div>
 
+            {isGeminiConfigured() && (
+              <TutorChat
+                question={question}
+                studentAnswer={studentAnswer}
+                result={evaluationResult}
+                messages={tutorMessages}
+                onMessagesChange={handleTutorMessagesChange}
+                draft={tutorDraft}
+                onDraftChange={setTutorDraft}
+                speak={speak}
+                isSpeechSupported={isSpeechSupported}
+                isRecording={isRecording}
+                onToggleRecording={() => toggleRecording('tutor')}
+              />
+            )}
+
           </div>
         )}
       </div>
 
-      <div className="mt-auto pt-4 flex justify-end">
+      <div className="mt-auto pt-4 flex justify-end gap-3">
+        {onPrevious && (
+          <button
+            onClick={onPrevious}
+            disabled={isLoading}
+            className="px-6 py-3 bg-white/70 text-slate-700 font-semibold rounded-lg shadow-md border border-slate-300 hover:bg-white transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+        )}
         <button 
-          onClick={() => onNext(!!evaluationResult)}
+          onClick={() => {
+            if (isRecording) {
+              recognitionRef.current?.stop();
+              setIsRecording(false);
+            }
+            onNext(!!evaluationResult || evaluationFailed);
+          }}
           disabled={isLoading}
           className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-blue-500 to-indigo-600 text-white font-semibold rounded-lg shadow-md hover:from-blue-600 hover:to-indigo-700 transition-transform transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-60 disabled:cursor-not-allowed"
         >
-          {questionNumber === totalQuestions ? 'Finish' : 'Next Question'}
+          {questionNumber === totalQuestions ? (isDeferred ? 'Finish & Grade' : 'Finish') : 'Next Question'}
           <NextIcon />
         </button>
       </div>
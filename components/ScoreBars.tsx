@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+
+export interface ScoreBar {
+  label: string;
+  // Bar height, 0-100.
+  percentage: number;
+  highlighted: boolean;
+  tooltip: React.ReactNode;
+}
+
+interface ScoreBarsProps {
+  bars: ScoreBar[];
+}
+
+const ScoreBars: React.FC<ScoreBarsProps> = ({ bars }) => {
+  const [hoveredLabel, setHoveredLabel] = useState<string | null>(null);
+
+  return (
+    <div className="flex justify-around items-end h-40 bg-slate-200/50 p-4 rounded-lg space-x-4 text-center">
+      {bars.map((bar) => (
+        <div
+          key={bar.label}
+          className="relative flex flex-col items-center w-1/3 h-full"
+          onMouseEnter={() => setHoveredLabel(bar.label)}
+          onMouseLeave={() => setHoveredLabel(null)}
+        >
+          {hoveredLabel === bar.label && (
+            <div className="absolute bottom-full mb-2 w-max px-3 py-2 text-sm font-medium text-white bg-slate-800 rounded-md shadow-lg transition-opacity duration-300 pointer-events-none z-10">
+              {bar.tooltip}
+              <div className="absolute left-1/2 -translate-x-1/2 top-full w-0 h-0 border-x-4 border-x-transparent border-t-4 border-t-slate-800"></div>
+            </div>
+          )}
+          <div className="w-full h-full flex items-end">
+            <div
+              className={`w-full rounded-t-md transition-all duration-1000 ease-out ${bar.highlighted ? 'bg-sky-500' : 'bg-slate-300'}`}
+              style={{ height: `${bar.percentage}%` }}
+            ></div>
+          </div>
+          <span className={`mt-2 text-sm font-semibold ${bar.highlighted ? 'text-sky-600 font-bold' : 'text-slate-500'}`}>
+            {bar.label}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ScoreBars;
@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface ScoreRingProps {
+  percentage: number;
+  // Tailwind text colour class for the filled arc, e.g. "text-green-500".
+  colorClass: string;
+  sizeClass?: string;
+  children?: React.ReactNode;
+}
+
+const RING_PATH = 'M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831';
+
+const ScoreRing: React.FC<ScoreRingProps> = ({ percentage, colorClass, sizeClass = 'w-48 h-48 sm:w-56 sm:h-56', children }) => (
+  <div className={`relative ${sizeClass}`}>
+    <svg className="w-full h-full" viewBox="0 0 36 36">
+      <path className="text-slate-300/50" d={RING_PATH} fill="none" stroke="currentColor" strokeWidth="3" />
+      <path
+        className={colorClass}
+        strokeDasharray={`${percentage}, 100`}
+        d={RING_PATH}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="3"
+        strokeLinecap="round"
+        style={{ transition: 'stroke-dasharray 1s ease-in-out' }}
+      />
+    </svg>
+    <div className="absolute inset-0 flex flex-col items-center justify-center">
+      {children}
+    </div>
+  </div>
+);
+
+export default ScoreRing;
@@ -1,19 +1,73 @@
-import React, { useState, useMemo } from 'react';
-import { SUBJECTS } from '../data/questions';
-import { Difficulty } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Difficulty, SessionRecord, SessionMode, MockTestBlueprint, ExamSettings, GradingMode, Profile } from '../types';
+import { listSessions } from '../services/historyStore';
+import { getDueReviews } from '../services/spacedRepetition';
+import { analyzeWeakConcepts } from '../services/weakConcepts';
+import { getSubjects } from '../services/questionBank';
+import MockTestBuilder from './MockTestBuilder';
+import QuestionBankManager from './QuestionBankManager';
+
+const RECENT_SESSIONS_SHOWN = 5;
+
+const SESSION_MODE_LABELS: Record<SessionMode, string> = {
+  practice: 'Practice',
+  review: 'Review',
+  mock: 'Mock Test',
+  targeted: 'Weak Spots',
+  adaptive: 'Adaptive',
+};
+
+type SetupMode = 'chapter' | 'mock';
 
 interface SetupScreenProps {
+  profile: Profile;
+  onSwitchProfile: () => void;
   onStartQuiz: (subject: string, chapter: string, difficulty: Difficulty) => void;
+  onStartAdaptive: (subject: string, chapter: string) => void;
+  onStartReview: () => void;
+  onStartMockTest: (blueprint: MockTestBlueprint) => void;
+  examSettings: ExamSettings;
+  onExamSettingsChange: (settings: ExamSettings) => void;
+  gradingMode: GradingMode;
+  onGradingModeChange: (mode: GradingMode) => void;
+  onOpenAuthoring: () => void;
+  onOpenWeakConcepts: () => void;
+  onOpenProgress: () => void;
 }
 
-const SetupScreen: React.FC<SetupScreenProps> = ({ onStartQuiz }) => {
+const SetupScreen: React.FC<SetupScreenProps> = ({ profile, onSwitchProfile, onStartQuiz, onStartAdaptive, onStartReview, onStartMockTest, examSettings, onExamSettingsChange, gradingMode, onGradingModeChange, onOpenAuthoring, onOpenWeakConcepts, onOpenProgress }) => {
   const [selectedSubject, setSelectedSubject] = useState<string>('');
   const [selectedChapter, setSelectedChapter] = useState<string>('');
+  const [setupMode, setSetupMode] = useState<SetupMode>('chapter');
+  const [recentSessions, setRecentSessions] = useState<SessionRecord[]>([]);
+  const [dueReviewCount, setDueReviewCount] = useState(0);
+  const [weakConceptCount, setWeakConceptCount] = useState(0);
 
-  const subjects = Object.keys(SUBJECTS);
+  useEffect(() => {
+    listSessions(profile.id)
+      .then(sessions => {
+        setRecentSessions(sessions.slice(0, RECENT_SESSIONS_SHOWN));
+        setDueReviewCount(getDueReviews(sessions).length);
+        setWeakConceptCount(analyzeWeakConcepts(sessions).reduce((acc, c) => acc + c.concepts.length, 0));
+      })
+      .catch(e => console.error("Failed to load session history:", e));
+  }, [profile.id]);
+
+  // Bumped when a question bank is imported or removed so the subject and chapter lists are re-read.
+  const [catalogueVersion, setCatalogueVersion] = useState(0);
+
+  const subjects = useMemo(() => Object.keys(getSubjects()), [catalogueVersion]);
   const chapters = useMemo(() => {
-    return selectedSubject ? SUBJECTS[selectedSubject].chapters.map(c => c.name) : [];
-  }, [selectedSubject]);
+    return selectedSubject && getSubjects()[selectedSubject] ? getSubjects()[selectedSubject].chapters.map(c => c.name) : [];
+  }, [selectedSubject, catalogueVersion]);
+
+  const handleCatalogueChange = () => {
+    setCatalogueVersion(v => v + 1);
+    if (selectedSubject && !getSubjects()[selectedSubject]) {
+      setSelectedSubject('');
+      setSelectedChapter('');
+    }
+  };
 
   const handleSubjectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setSelectedSubject(e.target.value);
@@ -32,6 +86,18 @@ const SetupScreen: React.FC<SetupScreenProps> = ({ onStartQuiz }) => {
 
   return (
     <div className="flex flex-col items-center justify-center h-full animate-fade-in">
+      <div className="w-full max-w-lg flex justify-end items-center gap-3 mb-4 text-sm text-slate-700">
+        <span className="flex items-center gap-2 font-semibold">
+          <span className="text-2xl">{profile.avatar}</span>
+          {profile.name}
+        </span>
+        <button onClick={onOpenProgress} className="font-semibold text-indigo-600 hover:text-indigo-800 transition-colors">
+          View progress
+        </button>
+        <button onClick={onSwitchProfile} className="font-semibold text-indigo-600 hover:text-indigo-800 transition-colors">
+          Switch profile
+        </button>
+      </div>
       <header className="text-center mb-10">
         <h1 className="text-4xl sm:text-5xl md:text-6xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-600 to-indigo-700">
           CBSE Class 11 AI Tutor
@@ -56,6 +122,70 @@ const SetupScreen: React.FC<SetupScreenProps> = ({ onStartQuiz }) => {
         </div>
 
         {selectedSubject && (
+          <div className="p-4 space-y-3 bg-sky-50 border border-slate-300 rounded-lg animate-fade-in-fast">
+            <label className="flex items-center justify-between gap-4 text-sm font-medium text-slate-700">
+              Exam conditions (timed)
+              <input
+                type="checkbox"
+                checked={examSettings.enabled}
+                onChange={(e) => onExamSettingsChange({ ...examSettings, enabled: e.target.checked })}
+              />
+            </label>
+            {examSettings.enabled && (
+              <>
+                <label className="flex items-center justify-between gap-4 text-sm text-slate-700">
+                  Seconds per mark
+                  <input
+                    type="number"
+                    min={10}
+                    value={examSettings.secondsPerMark}
+                    onChange={(e) => onExamSettingsChange({ ...examSettings, secondsPerMark: Math.max(10, Number(e.target.value)) })}
+                    className="w-20 px-2 py-1 bg-white text-slate-900 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-4 text-sm text-slate-700">
+                  Also limit time on each question
+                  <input
+                    type="checkbox"
+                    checked={examSettings.perQuestionLimit}
+                    disabled={gradingMode === 'deferred'}
+                    onChange={(e) => onExamSettingsChange({ ...examSettings, perQuestionLimit: e.target.checked })}
+                  />
+                </label>
+              </>
+            )}
+            <label className="flex items-center justify-between gap-4 text-sm font-medium text-slate-700">
+              Grade at the end (no feedback until the paper is finished)
+              <input
+                type="checkbox"
+                checked={gradingMode === 'deferred'}
+                onChange={(e) => onGradingModeChange(e.target.checked ? 'deferred' : 'instant')}
+              />
+            </label>
+          </div>
+        )}
+
+        {selectedSubject && (
+          <div className="grid grid-cols-2 gap-2 p-1 bg-sky-50 border border-slate-300 rounded-lg animate-fade-in-fast" role="tablist">
+            {(['chapter', 'mock'] as SetupMode[]).map(mode => (
+              <button
+                key={mode}
+                role="tab"
+                aria-selected={setupMode === mode}
+                onClick={() => setSetupMode(mode)}
+                className={`py-2 text-sm font-semibold rounded-md transition-colors ${setupMode === mode ? 'bg-blue-500 text-white shadow' : 'text-slate-600 hover:bg-white/70'}`}
+              >
+                {mode === 'chapter' ? 'Chapter Practice' : 'Mock Test'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {selectedSubject && setupMode === 'mock' && (
+          <MockTestBuilder key={selectedSubject} subject={selectedSubject} onStart={onStartMockTest} />
+        )}
+
+        {selectedSubject && setupMode === 'chapter' && (
           <div className="space-y-2 animate-fade-in-fast">
             <label htmlFor="chapter-select" className="text-sm font-medium text-slate-700">Choose your chapter</label>
             <select
@@ -70,7 +200,7 @@ const SetupScreen: React.FC<SetupScreenProps> = ({ onStartQuiz }) => {
           </div>
         )}
 
-        {selectedChapter && (
+        {selectedChapter && setupMode === 'chapter' && (
           <div className="pt-4 animate-fade-in">
             <h3 className="text-center font-medium text-slate-700 mb-4">Select Difficulty</h3>
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
@@ -84,9 +214,71 @@ const SetupScreen: React.FC<SetupScreenProps> = ({ onStartQuiz }) => {
                 </button>
               ))}
             </div>
+            <button
+              onClick={() => onStartAdaptive(selectedSubject, selectedChapter)}
+              disabled={gradingMode === 'deferred'}
+              className="w-full mt-4 py-3 font-semibold text-indigo-700 bg-white/70 border-2 border-indigo-300 rounded-lg shadow-sm transition-transform transform hover:scale-105 hover:bg-white disabled:opacity-60 disabled:cursor-not-allowed disabled:hover:scale-100"
+            >
+              Adaptive: start easy, step up as you get answers right
+            </button>
+            {gradingMode === 'deferred' && (
+              <p className="mt-2 text-xs text-center text-slate-500">Adaptive sessions need each answer graded straight away, so they aren't available when grading at the end.</p>
+            )}
           </div>
         )}
       </div>
+
+      {dueReviewCount > 0 && (
+        <div className="w-full max-w-lg mt-6 p-6 flex justify-between items-center gap-4 bg-white/50 backdrop-blur-lg border border-white/30 rounded-2xl shadow-xl animate-fade-in-fast">
+          <div>
+            <h3 className="font-semibold text-slate-800">Review</h3>
+            <p className="text-sm text-slate-600">{dueReviewCount} question{dueReviewCount === 1 ? '' : 's'} due for revision across your chapters.</p>
+          </div>
+          <button
+            onClick={onStartReview}
+            className="flex-shrink-0 px-6 py-3 font-semibold text-white rounded-lg shadow-md transition-transform transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 bg-gradient-to-br from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 focus:ring-teal-500"
+          >
+            Start Review
+          </button>
+        </div>
+      )}
+
+      {weakConceptCount > 0 && (
+        <div className="w-full max-w-lg mt-6 p-6 flex justify-between items-center gap-4 bg-white/50 backdrop-blur-lg border border-white/30 rounded-2xl shadow-xl animate-fade-in-fast">
+          <div>
+            <h3 className="font-semibold text-slate-800">Weak Spots</h3>
+            <p className="text-sm text-slate-600">{weakConceptCount} recurring gap{weakConceptCount === 1 ? '' : 's'} found in your feedback.</p>
+          </div>
+          <button
+            onClick={onOpenWeakConcepts}
+            className="flex-shrink-0 px-6 py-3 font-semibold text-white rounded-lg shadow-md transition-transform transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 bg-gradient-to-br from-amber-500 to-orange-600 hover:from-amber-600 hover:to-orange-700 focus:ring-orange-500"
+          >
+            View
+          </button>
+        </div>
+      )}
+
+      <QuestionBankManager onCatalogueChange={handleCatalogueChange} onOpenAuthoring={onOpenAuthoring} />
+
+      {recentSessions.length > 0 && (
+        <div className="w-full max-w-lg mt-6 p-6 bg-white/50 backdrop-blur-lg border border-white/30 rounded-2xl shadow-xl animate-fade-in-fast">
+          <h3 className="font-semibold text-slate-800 mb-3">Recent Sessions</h3>
+          <ul className="space-y-2">
+            {recentSessions.map(session => {
+              const percentage = session.maxPossibleScore > 0 ? Math.round((session.totalScore / session.maxPossibleScore) * 100) : 0;
+              return (
+                <li key={session.id} className="flex justify-between items-center gap-4 text-sm text-slate-700">
+                  <span>
+                    <span className="font-medium text-slate-900">{session.mode === 'practice' ? session.chapter : SESSION_MODE_LABELS[session.mode]}</span>
+                    <span className="text-slate-500"> · {session.mode === 'practice' ? session.difficulty : session.mode === 'adaptive' ? session.chapter : session.subject || 'Mixed'} · {new Date(session.completedAt).toLocaleDateString()}</span>
+                  </span>
+                  <span className="flex-shrink-0 font-bold text-indigo-600">{percentage}%</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
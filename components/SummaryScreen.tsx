@@ -1,18 +1,43 @@
-import React, { useState } from 'react';
-import { Question, EvaluationResult, Difficulty } from '../types';
+import React from 'react';
+import { Difficulty, SessionAnswer } from '../types';
+import { formatDuration } from '../services/timing';
+import { describeImbalance, formatChemistry } from '../services/chemistry';
+import { answerImageSrc } from '../services/answerImages';
 import { CheckIcon, CrossIcon } from './Icons';
+import ScoreRing from './ScoreRing';
+import ScoreBars from './ScoreBars';
+import MathText from './MathText';
+
+const DIFFICULTY_STYLES: Record<Difficulty, string> = {
+  [Difficulty.Basic]: 'bg-emerald-50 text-emerald-700 border-emerald-300',
+  [Difficulty.Medium]: 'bg-sky-50 text-sky-700 border-sky-300',
+  [Difficulty.Difficult]: 'bg-indigo-50 text-indigo-700 border-indigo-300',
+};
 
 interface SummaryScreenProps {
   totalScore: number;
   maxPossibleScore: number;
   onRestart: () => void;
-  sessionAnswers: Array<{ question: Question; result: EvaluationResult | null }>;
+  sessionAnswers: SessionAnswer[];
   difficulty: Difficulty | null;
+  onRetryEvaluation: (index: number) => void;
+  retryingIndex: number | null;
 }
 
-const SummaryScreen: React.FC<SummaryScreenProps> = ({ totalScore, maxPossibleScore, onRestart, sessionAnswers, difficulty }) => {
-  const [hoveredDifficulty, setHoveredDifficulty] = useState<Difficulty | null>(null);
+const SummaryScreen: React.FC<SummaryScreenProps> = ({ totalScore, maxPossibleScore, onRestart, sessionAnswers, difficulty, onRetryEvaluation, retryingIndex }) => {
   const percentage = maxPossibleScore > 0 ? Math.round((totalScore / maxPossibleScore) * 100) : 0;
+  const totalTimeMs = sessionAnswers.reduce((acc, a) => acc + (a.timeSpentMs ?? 0), 0);
+  const totalHintDeduction = sessionAnswers.reduce((acc, a) => acc + (a.hintDeduction ?? 0), 0);
+  // Adaptive sessions record the level of each question, so their scores can be split by difficulty.
+  const difficultyPath = sessionAnswers.filter(a => a.difficulty);
+  const isAdaptive = difficultyPath.length > 0;
+
+  const difficultyScore = (d: Difficulty) => {
+    const answers = isAdaptive ? difficultyPath.filter(a => a.difficulty === d) : d === difficulty ? sessionAnswers : [];
+    const score = answers.reduce((acc, a) => acc + (a.result?.score ?? 0), 0);
+    const max = answers.reduce((acc, a) => acc + a.question.maxMarks, 0);
+    return { count: answers.length, score, max, percentage: max > 0 ? Math.round((score / max) * 100) : 0 };
+  };
 
   const getFeedbackMessage = () => {
     if (percentage >= 85) {
@@ -44,38 +69,41 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({ totalScore, maxPossibleSc
         <h2 className="text-3xl sm:text-4xl font-bold text-slate-900 mb-2">Session Complete!</h2>
         <p className="text-slate-600 mb-8">Here's your performance summary.</p>
         
-        <div className="relative w-48 h-48 sm:w-56 sm:h-56 mx-auto mb-8">
-            <svg className="w-full h-full" viewBox="0 0 36 36">
-                <path
-                    className="text-slate-300/50"
-                    d="M18 2.0845
-                    a 15.9155 15.9155 0 0 1 0 31.831
-                    a 15.9155 15.9155 0 0 1 0 -31.831"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="3"
-                />
-                <path
-                    className={feedback.color}
-                    strokeDasharray={`${percentage}, 100`}
-                    d="M18 2.0845
-                    a 15.9155 15.9155 0 0 1 0 31.831
-                    a 15.9155 15.9155 0 0 1 0 -31.831"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="3"
-                    strokeLinecap="round"
-                    style={{ transition: 'stroke-dasharray 1s ease-in-out' }}
-                />
-            </svg>
-            <div className="absolute inset-0 flex flex-col items-center justify-center">
-                <span className="text-5xl font-bold text-slate-900">{percentage}%</span>
-                <span className="text-lg text-slate-600">{totalScore} / {maxPossibleScore}</span>
-            </div>
+        <div className="flex justify-center mb-8">
+          <ScoreRing percentage={percentage} colorClass={feedback.color}>
+            <span className="text-5xl font-bold text-slate-900">{percentage}%</span>
+            <span className="text-lg text-slate-600">{totalScore} / {maxPossibleScore}</span>
+          </ScoreRing>
         </div>
 
         <h3 className={`text-2xl font-bold ${feedback.color.replace('text-', 'text-')} mb-2`}>{feedback.title}</h3>
         <p className="text-slate-700 mb-10">{feedback.message}</p>
+        {totalTimeMs > 0 && (
+          <p className="text-slate-600 -mt-6 mb-10">Total time: <span className="font-bold tabular-nums">{formatDuration(totalTimeMs)}</span></p>
+        )}
+        {totalHintDeduction > 0 && (
+          <p className="text-amber-700 -mt-8 mb-10">Hints cost you <span className="font-bold">{totalHintDeduction}</span> marks this session.</p>
+        )}
+
+        {isAdaptive && (
+          <div className="w-full mb-10">
+            <h4 className="text-xl font-bold text-slate-800 mb-4">Difficulty Path</h4>
+            <ol className="flex flex-wrap justify-center items-center gap-2">
+              {difficultyPath.map((answer, index) => (
+                <li key={answer.question.id} className="flex items-center gap-2">
+                  {index > 0 && <span className="text-slate-400" aria-hidden="true">→</span>}
+                  <span
+                    title={`Q${index + 1}: ${answer.result ? `${answer.result.score}/${answer.question.maxMarks}` : 'not graded'}`}
+                    className={`flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full border ${DIFFICULTY_STYLES[answer.difficulty!]}`}
+                  >
+                    {answer.result?.isCorrect ? <CheckIcon /> : <CrossIcon />}
+                    {answer.difficulty}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
 
         {/* Question by Question review */}
         <div className="w-full text-left my-10">
@@ -85,18 +113,81 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({ totalScore, maxPossibleSc
               <div key={answer.question.id} className="p-4 bg-slate-50 rounded-lg border border-slate-200/80 transition-shadow hover:shadow-md">
                 <div className="flex justify-between items-start gap-4">
                   <p className="font-semibold text-slate-800 flex-grow text-sm">
-                    <span className="font-bold">Q{index + 1}:</span> {answer.question.prompt}
+                    <span className="font-bold">Q{index + 1}:</span> <MathText text={answer.question.prompt} />
                   </p>
                   <div className="flex-shrink-0 flex items-center gap-2 text-sm font-medium text-slate-700">
                     {answer.result?.isCorrect ? <CheckIcon /> : <CrossIcon />}
                     <span className="font-bold">{answer.result?.score ?? 0}/{answer.question.maxMarks}</span>
+                    {!!answer.hintsUsed && (
+                      <span className="text-amber-700" title={`${answer.hintsUsed} hint${answer.hintsUsed === 1 ? '' : 's'} used`}>
+                        {answer.hintsUsed} hint{answer.hintsUsed === 1 ? '' : 's'}{answer.hintDeduction ? ` (−${answer.hintDeduction})` : ''}
+                      </span>
+                    )}
+                    {answer.timeSpentMs !== undefined && (
+                      <span className="text-slate-500 tabular-nums" title="Time spent">{formatDuration(answer.timeSpentMs)}</span>
+                    )}
                   </div>
                 </div>
-                {answer.result?.feedback && (
+                {answer.studentAnswer && (
+                  <p className="text-sm text-slate-700 mt-2 pt-2 border-t border-slate-200 whitespace-pre-wrap">
+                    <strong>Your Answer:</strong> <MathText text={answer.studentAnswer} />
+                  </p>
+                )}
+                {(answer.result?.feedback || !!answer.images?.length) && (
+                  <div className="flex items-start gap-3 mt-2 pt-2 border-t border-slate-200">
+                    {!!answer.images?.length && (
+                      <div className="flex-shrink-0 flex flex-col gap-2">
+                        {answer.images.map((image, imageIndex) => (
+                          <a key={imageIndex} href={answerImageSrc(image)} target="_blank" rel="noreferrer">
+                            <img src={answerImageSrc(image)} alt={`Answer photo ${imageIndex + 1}`} className="h-24 w-24 object-cover rounded-lg border border-slate-300" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    <div className="text-sm text-slate-600 space-y-2">
+                      {answer.result?.feedback && (
+                        <p><strong>AI Feedback{answer.result.cached ? ' (cached)' : ''}:</strong> <MathText text={answer.result.feedback} /></p>
+                      )}
+                      {answer.result?.diagramFeedback && (
+                        <p><strong>Diagram & labels:</strong> <MathText text={answer.result.diagramFeedback} /></p>
+                      )}
+                    </div>
+                  </div>
+                )}
+                {answer.result?.numericCheck && (
+                  <p className="text-sm text-slate-600 mt-2 pt-2 border-t border-slate-200">
+                    <strong>Final answer ({answer.result.numericCheck.marksAwarded}/{answer.result.numericCheck.marks}):</strong> {answer.result.numericCheck.feedback}
+                  </p>
+                )}
+                {answer.result?.equationChecks?.some(c => !c.balanced || !c.chargeBalanced) && (
                   <p className="text-sm text-slate-600 mt-2 pt-2 border-t border-slate-200">
-                    <strong>AI Feedback:</strong> {answer.result.feedback}
+                    <strong>Unbalanced equations:</strong> {answer.result.equationChecks.filter(c => !c.balanced || !c.chargeBalanced).map(c => `${formatChemistry(c.equation)} (${describeImbalance(c)})`).join('; ')}
                   </p>
                 )}
+                {answer.tutorChat && answer.tutorChat.length > 0 && (
+                  <details className="text-sm text-slate-600 mt-2 pt-2 border-t border-slate-200">
+                    <summary className="cursor-pointer font-semibold text-indigo-600">Tutor conversation ({answer.tutorChat.length} messages)</summary>
+                    <ul className="mt-2 space-y-1">
+                      {answer.tutorChat.map((message, messageIndex) => (
+                        <li key={messageIndex} className="whitespace-pre-wrap">
+                          <strong>{message.role === 'student' ? 'You' : 'Tutor'}:</strong> <MathText text={message.text} />
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                {!answer.result && answer.evaluationError && (
+                  <div className="flex justify-between items-center gap-4 text-sm text-red-700 mt-2 pt-2 border-t border-slate-200">
+                    <span>This answer couldn't be graded: {answer.evaluationError}</span>
+                    <button
+                      onClick={() => onRetryEvaluation(index)}
+                      disabled={retryingIndex !== null}
+                      className="flex-shrink-0 px-3 py-1 bg-red-500 text-white rounded-md hover:bg-red-600 disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      {retryingIndex === index ? 'Retrying…' : 'Retry evaluation'}
+                    </button>
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -104,44 +195,25 @@ const SummaryScreen: React.FC<SummaryScreenProps> = ({ totalScore, maxPossibleSc
         
         <div className="w-full mb-10">
             <h4 className="text-xl font-bold text-slate-800 mb-4">Score by Difficulty</h4>
-            <div className="flex justify-around items-end h-40 bg-slate-200/50 p-4 rounded-lg space-x-4 text-center">
-                {Object.values(Difficulty).map((d) => {
-                    const isCurrentDifficulty = d === difficulty;
-                    const scorePercentage = isCurrentDifficulty ? percentage : 0;
-                    return (
-                        <div 
-                            key={d} 
-                            className="relative flex flex-col items-center w-1/3 h-full"
-                            onMouseEnter={() => setHoveredDifficulty(d)}
-                            onMouseLeave={() => setHoveredDifficulty(null)}
-                        >
-                            {hoveredDifficulty === d && (
-                                <div className="absolute bottom-full mb-2 w-max px-3 py-2 text-sm font-medium text-white bg-slate-800 rounded-md shadow-lg transition-opacity duration-300 pointer-events-none z-10">
-                                    {isCurrentDifficulty ? (
-                                        <div className="text-left">
-                                            <p><strong>Score:</strong> {percentage}%</p>
-                                            <p><strong>Questions:</strong> {sessionAnswers.length}</p>
-                                            <p><strong>Marks:</strong> {totalScore}/{maxPossibleScore}</p>
-                                        </div>
-                                    ) : (
-                                        "Not played in this session"
-                                    )}
-                                    <div className="absolute left-1/2 -translate-x-1/2 top-full w-0 h-0 border-x-4 border-x-transparent border-t-4 border-t-slate-800"></div>
-                                </div>
-                            )}
-                            <div className="w-full h-full flex items-end">
-                                <div
-                                    className={`w-full rounded-t-md transition-all duration-1000 ease-out ${isCurrentDifficulty ? 'bg-sky-500' : 'bg-slate-300'}`}
-                                    style={{ height: `${scorePercentage}%` }}
-                                ></div>
-                            </div>
-                            <span className={`mt-2 text-sm font-semibold ${isCurrentDifficulty ? 'text-sky-600 font-bold' : 'text-slate-500'}`}>
-                                {d}
-                            </span>
-                        </div>
-                    );
-                })}
-            </div>
+            <ScoreBars
+              bars={Object.values(Difficulty).map((d) => {
+                const { count, score, max, percentage: scorePercentage } = difficultyScore(d);
+                return {
+                  label: d,
+                  percentage: scorePercentage,
+                  highlighted: count > 0,
+                  tooltip: count > 0 ? (
+                    <div className="text-left">
+                      <p><strong>Score:</strong> {scorePercentage}%</p>
+                      <p><strong>Questions:</strong> {count}</p>
+                      <p><strong>Marks:</strong> {score}/{max}</p>
+                    </div>
+                  ) : (
+                    "Not played in this session"
+                  ),
+                };
+              })}
+            />
         </div>
 
         <button
@@ -0,0 +1,141 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Question, EvaluationResult, TutorMessage } from '../types';
+import { askTutor } from '../services/geminiService';
+import { MicIcon, SendIcon } from './Icons';
+import MathText from './MathText';
+
+interface TutorChatProps {
+  question: Question;
+  studentAnswer: string;
+  result: EvaluationResult;
+  messages: TutorMessage[];
+  onMessagesChange: (messages: TutorMessage[]) => void;
+  // The message being typed, kept by QuestionScreen so its speech recognition can dictate into it.
+  draft: string;
+  onDraftChange: (draft: string) => void;
+  speak: (text: string) => void;
+  isSpeechSupported: boolean;
+  isRecording: boolean;
+  onToggleRecording: () => void;
+}
+
+const SUGGESTED_QUESTIONS = ['Why did I lose marks?', 'Can you explain the concept I missed?', 'How should I structure this answer?'];
+
+const TutorChat: React.FC<TutorChatProps> = ({
+  question,
+  studentAnswer,
+  result,
+  messages,
+  onMessagesChange,
+  draft,
+  onDraftChange,
+  speak,
+  isSpeechSupported,
+  isRecording,
+  onToggleRecording,
+}) => {
+  const [isOpen, setIsOpen] = useState(messages.length > 0);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages, isSending]);
+
+  const send = async (text: string) => {
+    const message = text.trim();
+    if (!message || isSending) return;
+    if (isRecording) onToggleRecording();
+    const withQuestion = [...messages, { role: 'student' as const, text: message, sentAt: Date.now() }];
+    onMessagesChange(withQuestion);
+    onDraftChange('');
+    setIsSending(true);
+    setError(null);
+    try {
+      const reply = await askTutor(question, studentAnswer, result, messages, message);
+      onMessagesChange([...withQuestion, { role: 'tutor', text: reply, sentAt: Date.now() }]);
+      speak(reply);
+    } catch (e: any) {
+      console.error("Tutor reply failed:", e);
+      setError(e?.message || "The tutor couldn't reply. Please try again.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <div className="mt-4 pt-4 border-t border-slate-200">
+        <button onClick={() => setIsOpen(true)} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 transition-colors">
+          Ask the tutor about this feedback
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-200 animate-fade-in-fast">
+      <h4 className="font-semibold text-slate-800 mb-2">Ask the tutor</h4>
+
+      <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+        {messages.length === 0 && (
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTED_QUESTIONS.map(suggestion => (
+              <button
+                key={suggestion}
+                onClick={() => send(suggestion)}
+                disabled={isSending}
+                className="px-3 py-1 text-sm text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-full hover:bg-indigo-100 disabled:opacity-60"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map((message, index) => (
+          <div key={index} className={`flex ${message.role === 'student' ? 'justify-end' : 'justify-start'}`}>
+            <p className={`max-w-[85%] px-3 py-2 rounded-lg text-sm whitespace-pre-wrap ${message.role === 'student' ? 'bg-blue-500 text-white' : 'bg-white border border-slate-200 text-slate-700'}`}>
+              <MathText text={message.text} />
+            </p>
+          </div>
+        ))}
+        {isSending && <p className="text-sm text-slate-500 italic">The tutor is thinking…</p>}
+        <div ref={endRef}></div>
+      </div>
+
+      {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+
+      <div className="relative mt-2">
+        <input
+          value={draft}
+          onChange={(e) => onDraftChange(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') send(draft); }}
+          placeholder={isSpeechSupported ? "Ask a question or use the mic..." : "Ask a question..."}
+          disabled={isSending}
+          className={`w-full py-2 pl-3 ${isSpeechSupported ? 'pr-24' : 'pr-12'} bg-white/70 border border-slate-300 text-slate-900 placeholder-slate-500 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500`}
+        />
+        {isSpeechSupported && (
+          <button
+            onClick={onToggleRecording}
+            disabled={isSending}
+            aria-label={isRecording ? "Stop recording" : "Start recording"}
+            className={`absolute top-1 right-12 p-2 rounded-full transition-all ${isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-blue-500 text-white hover:bg-blue-600'}`}
+          >
+            <MicIcon />
+          </button>
+        )}
+        <button
+          onClick={() => send(draft)}
+          disabled={!draft.trim() || isSending}
+          aria-label="Send question"
+          className="absolute top-1 right-1 p-2 rounded-full bg-green-500 text-white hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          <SendIcon />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TutorChat;
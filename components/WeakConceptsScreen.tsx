@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { Question } from '../types';
+import { listSessions } from '../services/historyStore';
+import { analyzeWeakConcepts, buildTargetedSession, ChapterWeakConcepts, WeakConcept } from '../services/weakConcepts';
+import { LightbulbIcon, PencilIcon } from './Icons';
+
+interface WeakConceptsScreenProps {
+  profileId: string;
+  onClose: () => void;
+  onPractise: (questions: Question[], subject: string, chapter: string) => void;
+}
+
+const WeakConceptItem: React.FC<{ concept: WeakConcept }> = ({ concept }) => (
+  <li className={`p-3 rounded-r-lg border-l-4 text-sm ${concept.kind === 'missing' ? 'bg-yellow-50 border-yellow-400' : 'bg-purple-50 border-purple-400'}`}>
+    <div className="flex justify-between items-start gap-4">
+      <span className={`flex items-center gap-2 font-semibold ${concept.kind === 'missing' ? 'text-yellow-800' : 'text-purple-800'}`}>
+        {concept.kind === 'missing' ? <LightbulbIcon /> : <PencilIcon />}
+        {concept.label}
+      </span>
+      <span className="flex-shrink-0 text-slate-500">
+        {concept.occurrences}× in {concept.sessionCount} session{concept.sessionCount === 1 ? '' : 's'}
+      </span>
+    </div>
+    <details className="mt-1 text-slate-600">
+      <summary className="cursor-pointer text-xs">Last seen {new Date(concept.lastSeenAt).toLocaleDateString()} · what the feedback said</summary>
+      <ul className="list-disc list-inside mt-1 space-y-1 pl-2">
+        {concept.examples.map((example, index) => <li key={index}>{example}</li>)}
+      </ul>
+    </details>
+  </li>
+);
+
+const WeakConceptsScreen: React.FC<WeakConceptsScreenProps> = ({ profileId, onClose, onPractise }) => {
+  const [chapters, setChapters] = useState<ChapterWeakConcepts[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSessions(profileId)
+      .then(sessions => setChapters(analyzeWeakConcepts(sessions)))
+      .catch(e => {
+        console.error("Failed to load session history:", e);
+        setError("Couldn't load your session history.");
+      });
+  }, [profileId]);
+
+  const handlePractise = (entry: ChapterWeakConcepts) => {
+    const questions = buildTargetedSession(entry.concepts);
+    if (questions.length === 0) {
+      setError("The questions behind these gaps are no longer in the question bank.");
+      return;
+    }
+    onPractise(questions, entry.subject, entry.chapter);
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col p-4 sm:p-6 bg-white/60 backdrop-blur-lg border border-white/30 rounded-2xl shadow-xl animate-fade-in">
+      <header className="flex justify-between items-center mb-4 pb-4 border-b border-slate-300/70">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Weak Spots</h2>
+          <p className="text-sm text-slate-600">Gaps the feedback keeps pointing out, grouped by chapter.</p>
+        </div>
+        <button onClick={onClose} className="px-4 py-2 font-semibold text-slate-700 bg-white/70 border border-slate-300 rounded-lg hover:bg-white">
+          Close
+        </button>
+      </header>
+
+      <div className="flex-grow overflow-y-auto pr-2 space-y-6">
+        {error && <div className="p-3 bg-red-100 text-red-700 border border-red-300 rounded-lg">{error}</div>}
+        {!chapters && !error && <p className="text-slate-600">Loading…</p>}
+        {chapters && chapters.length === 0 && (
+          <p className="text-slate-600">No recurring gaps yet. Once the same point is missed in more than one answer, it will show up here.</p>
+        )}
+        {chapters?.map(entry => (
+          <section key={`${entry.subject}/${entry.chapter}`} className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+            <div className="flex justify-between items-center gap-4 mb-3">
+              <h3 className="font-semibold text-slate-800">
+                {entry.chapter} <span className="font-normal text-slate-500">· {entry.subject}</span>
+              </h3>
+              <button
+                onClick={() => handlePractise(entry)}
+                className="flex-shrink-0 px-4 py-2 text-sm font-semibold text-white rounded-lg shadow-md bg-gradient-to-br from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+              >
+                Practice these
+              </button>
+            </div>
+            <ul className="space-y-2">
+              {entry.concepts.map((concept, index) => <WeakConceptItem key={index} concept={concept} />)}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WeakConceptsScreen;
@@ -1 +1,64 @@
 export const QUESTIONS_PER_SESSION = 10;
+
+// An answer counts as correct when it earns at least this fraction of the question's marks.
+export const CORRECT_SCORE_THRESHOLD = 0.75;
+
+// Default mock test: 5 short, 3 medium and 2 long answer questions.
+export const DEFAULT_MOCK_QUESTIONS_BY_MARKS: Record<number, number> = { 2: 5, 4: 3, 6: 2 };
+
+// Time allowed per mark in exam mode; a 3-hour, 70-mark board paper works out to roughly 150 seconds a mark.
+export const EXAM_SECONDS_PER_MARK = 150;
+
+// Maximum evaluations in flight at once when a deferred-grading paper is marked.
+export const BATCH_EVALUATION_CONCURRENCY = 3;
+
+// Cached Gemini evaluations are reused for a week, and the cache keeps at most this many results.
+export const EVALUATION_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const EVALUATION_CACHE_MAX_ENTRIES = 300;
+
+// Gemini requests are abandoned after this long, then retried with exponential backoff up to the retry limit.
+export const GEMINI_REQUEST_TIMEOUT_MS = 30_000;
+export const GEMINI_MAX_RETRIES = 3;
+export const GEMINI_RETRY_BASE_DELAY_MS = 1_000;
+
+// Client-side rate limit: a burst of up to this many requests, refilled at the per-minute rate.
+// Kept under the free tier's limit so a deferred-grading batch doesn't trip 429s.
+export const GEMINI_RATE_LIMIT_BURST = 5;
+export const GEMINI_RATE_LIMIT_PER_MINUTE = 10;
+
+// Marks taken off for each hint a student opens, as a fraction of the question's marks:
+// the keyword nudge, the structural hint and the partial answer, in that order.
+export const HINT_DEDUCTIONS = [0.1, 0.15, 0.25];
+
+// A gap counts as recurring, and shows up in weak-concept analytics, once it has come up in this many answers.
+export const WEAK_CONCEPT_MIN_OCCURRENCES = 2;
+
+// Avatars to pick from when creating a profile, and the allowed PIN length.
+export const PROFILE_AVATARS = ['🦊', '🐼', '🐯', '🦉', '🐬', '🐢', '🦄', '🐙', '🚀', '🌻', '⚡', '🎧'];
+export const PROFILE_PIN_LENGTH = 4;
+
+// Adaptive sessions step up a level after this many correct answers in a row at the current level,
+// and step down after an answer scoring below this fraction of its marks.
+export const ADAPTIVE_STEP_UP_STREAK = 2;
+export const ADAPTIVE_STEP_DOWN_BELOW = 0.4;
+
+// Marks lost on a correct numerical answer with a missing or wrong unit, or the wrong number of significant figures.
+export const NUMERIC_UNIT_PENALTY = 0.5;
+export const NUMERIC_SIG_FIG_PENALTY = 0.5;
+
+// Marks lost for each chemical equation in an answer that isn't balanced for atoms or charge.
+export const CHEMISTRY_UNBALANCED_PENALTY = 0.5;
+
+// Photos of handwritten answers: how many can be attached, and the longest side and JPEG quality they are
+// scaled to before upload, which keeps handwriting legible while keeping requests and saved history small.
+export const MAX_ANSWER_IMAGES = 4;
+export const ANSWER_IMAGE_MAX_DIMENSION = 1600;
+export const ANSWER_IMAGE_QUALITY = 0.85;
+
+// The four fixed options of a CBSE assertion-reason question, in order.
+export const ASSERTION_REASON_OPTIONS = [
+  'Both Assertion (A) and Reason (R) are true, and R is the correct explanation of A.',
+  'Both Assertion (A) and Reason (R) are true, but R is not the correct explanation of A.',
+  'Assertion (A) is true, but Reason (R) is false.',
+  'Assertion (A) is false, but Reason (R) is true.',
+];
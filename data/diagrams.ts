@@ -0,0 +1,87 @@
+import { Diagram } from '../types';
+
+// Diagrams for labelling questions, by id. Each is drawn on a 480×320 canvas with pointer lines ending where
+// its markers sit, so a marker's position is its pointer's end in percent of that canvas.
+
+const svg = (body: string): string =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 480 320" font-family="sans-serif">` +
+  `<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse"><path d="M0 0L10 5L0 10z" fill="#1e293b"/></marker></defs>` +
+  `<rect width="480" height="320" fill="#ffffff"/>${body}</svg>`;
+
+const pointer = (x1: number, y1: number, x2: number, y2: number): string =>
+  `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#475569" stroke-width="1.5"/>`;
+
+// Pointer ends in canvas units, as marker positions.
+const at = (id: string, x: number, y: number) => ({ id, x: x / 4.8, y: y / 3.2 });
+
+export const DIAGRAMS: Record<string, Diagram> = {
+  'animal-cell': {
+    id: 'animal-cell',
+    title: 'Animal cell',
+    svg: svg(
+      `<ellipse cx="240" cy="160" rx="170" ry="120" fill="#fdecdc" stroke="#c2410c" stroke-width="4"/>` +
+      `<circle cx="215" cy="150" r="46" fill="#c7d2fe" stroke="#4338ca" stroke-width="3"/>` +
+      `<circle cx="225" cy="155" r="14" fill="#6366f1"/>` +
+      `<ellipse cx="330" cy="100" rx="32" ry="15" fill="#fca5a5" stroke="#b91c1c" stroke-width="2"/>` +
+      `<path d="M305 100q5-10 10 0t10 0t10 0t10 0t10 0" fill="none" stroke="#b91c1c" stroke-width="1.5"/>` +
+      `<path d="M120 205q30-18 60 0M124 215q26-15 52 0M128 225q22-12 44 0M132 235q18-9 36 0" fill="none" stroke="#a16207" stroke-width="4" stroke-linecap="round"/>` +
+      `<path d="M290 180q10-12 20 0t20 0t20 0M290 195q10-12 20 0t20 0t20 0M290 210q10-12 20 0t20 0t20 0" fill="none" stroke="#0f766e" stroke-width="3"/>` +
+      `<g fill="#0f172a"><circle cx="296" cy="176" r="2.5"/><circle cx="318" cy="184" r="2.5"/><circle cx="338" cy="176" r="2.5"/><circle cx="300" cy="191" r="2.5"/><circle cx="324" cy="199" r="2.5"/><circle cx="344" cy="191" r="2.5"/></g>` +
+      `<circle cx="150" cy="100" r="11" fill="#86efac" stroke="#15803d" stroke-width="2"/>` +
+      pointer(185, 125, 40, 40) +
+      pointer(228, 143, 240, 15) +
+      pointer(355, 95, 445, 40) +
+      pointer(150, 220, 35, 230) +
+      pointer(350, 195, 445, 170) +
+      pointer(370, 237, 445, 290),
+    ),
+    markers: [
+      at('nucleus', 40, 40),
+      at('nucleolus', 240, 15),
+      at('mitochondrion', 445, 40),
+      at('golgi', 35, 230),
+      at('rough-er', 445, 170),
+      at('membrane', 445, 290),
+    ],
+  },
+  'alveolus': {
+    id: 'alveolus',
+    title: 'Alveolus with its blood capillary',
+    svg: svg(
+      `<path d="M60 20L120 20L150 95L118 108z" fill="#e0f2fe" stroke="#0369a1" stroke-width="3"/>` +
+      `<circle cx="210" cy="170" r="95" fill="#e0f2fe" stroke="#0369a1" stroke-width="5"/>` +
+      `<path d="M230 72A100 100 0 0 1 230 268" fill="none" stroke="#dc2626" stroke-width="22" stroke-linecap="round" opacity="0.85"/>` +
+      `<g fill="#991b1b"><ellipse cx="282" cy="110" rx="8" ry="5"/><ellipse cx="305" cy="160" rx="8" ry="5"/><ellipse cx="296" cy="214" rx="8" ry="5"/></g>` +
+      `<path d="M175 160l45 0" stroke="#2563eb" stroke-width="2" marker-end="url(#arrow)"/>` +
+      pointer(180, 200, 40, 290) +
+      pointer(122, 200, 40, 200) +
+      pointer(320, 140, 440, 100) +
+      pointer(296, 214, 440, 260),
+    ),
+    markers: [
+      at('cavity', 40, 290),
+      at('wall', 40, 200),
+      at('capillary', 440, 100),
+      at('rbc', 440, 260),
+    ],
+  },
+  'incline-fbd': {
+    id: 'incline-fbd',
+    title: 'Block at rest on a rough inclined plane',
+    svg: svg(
+      `<path d="M60 260L420 260L420 80z" fill="#e2e8f0" stroke="#334155" stroke-width="3"/>` +
+      `<path d="M110 260A50 50 0 0 0 104.7 237.6" fill="none" stroke="#334155" stroke-width="2"/>` +
+      `<rect x="-35" y="-25" width="70" height="50" fill="#fde68a" stroke="#92400e" stroke-width="3" transform="translate(229 148) rotate(-26.57)"/>` +
+      `<circle cx="229" cy="148" r="3" fill="#1e293b"/>` +
+      `<path d="M229 148L229 235" stroke="#1e293b" stroke-width="3" marker-end="url(#arrow)"/>` +
+      `<path d="M229 148L189 68" stroke="#1e293b" stroke-width="3" marker-end="url(#arrow)"/>` +
+      `<path d="M229 148L309 108" stroke="#1e293b" stroke-width="3" marker-end="url(#arrow)"/>`,
+    ),
+    markers: [
+      at('normal', 172, 50),
+      at('friction', 330, 95),
+      at('weight', 252, 238),
+      at('angle', 132, 246),
+    ],
+  },
+};
@@ -48,7 +48,12 @@ export const SUBJECTS: SubjectsData = {
           ],
           [Difficulty.Medium]: [
             { id: 'B-LW-M1', prompt: 'Explain the concept of a taxonomic hierarchy with an example.', canonicalAnswer: 'Taxonomic hierarchy is the arrangement of various taxonomic categories in a descending order, starting from kingdom. For example, the classification of humans is Kingdom: Animalia, Phylum: Chordata, Class: Mammalia, Order: Primates, Family: Hominidae, Genus: Homo, Species: sapiens.', maxMarks: 4 },
-            { id: 'B-LW-M2', prompt: 'Differentiate between a museum and a zoological park.', canonicalAnswer: 'A museum houses preserved plant and animal specimens for study and reference, which are dead. A zoological park is a place where wild animals are kept in protected environments under human care to learn about their food habits and behaviour, and they are alive.', maxMarks: 4 },
+            { id: 'B-LW-M2', prompt: 'Differentiate between a museum and a zoological park.', canonicalAnswer: 'A museum houses preserved plant and animal specimens for study and reference, which are dead. A zoological park is a place where wild animals are kept in protected environments under human care to learn about their food habits and behaviour, and they are alive.', maxMarks: 4,
+              markingScheme: [
+                { id: 'B-LW-M2-P1', description: 'A museum houses preserved (dead) plant and animal specimens', marks: 2, synonyms: ['preserved specimens', 'dead specimens', 'stuffed animals'], mandatory: true },
+                { id: 'B-LW-M2-P2', description: 'A zoological park keeps living wild animals in protected environments under human care', marks: 2, synonyms: ['zoo', 'live animals', 'living animals'], mandatory: true },
+              ],
+            },
             { id: 'B-LW-M3', prompt: 'What are taxonomic keys? How are they useful?', canonicalAnswer: 'Taxonomic keys are analytical tools used for identifying unknown organisms based on contrasting characteristics. They are generally dichotomous, meaning they consist of a series of choices between two statements that lead to the correct identification.', maxMarks: 4 },
             { id: 'B-LW-M4', prompt: 'List four important defining features of living organisms.', canonicalAnswer: 'Four defining features of living organisms are metabolism, cellular organization, consciousness, and growth from within (intrinsic growth). Reproduction is a characteristic, but not defining as some living organisms cannot reproduce.', maxMarks: 4 },
             { id: 'B-LW-M5', prompt: 'Why is the scientific naming of organisms important?', canonicalAnswer: 'Scientific naming is important because it provides a unique, standardized name for each organism that is recognized globally. This avoids confusion caused by common names, which vary by language and region.', maxMarks: 4 },
@@ -84,7 +89,14 @@ export const SUBJECTS: SubjectsData = {
             { id: 'B-LW-M35', prompt: '"The properties of tissues are not present in the constituent cells." Explain this statement.', canonicalAnswer: 'This is the principle of emergent properties. A single cell cannot perform the function of a tissue. For example, the contractility of muscle tissue arises from the coordinated action of many muscle cells, a property not found in an isolated cell.', maxMarks: 4 },
           ],
           [Difficulty.Difficult]: [
-            { id: 'B-LW-D1', prompt: 'Describe the universal rules of nomenclature as proposed by Linnaeus.', canonicalAnswer: 'The rules are: 1. Biological names are generally in Latin and written in italics. 2. The first word represents the genus while the second word denotes the specific epithet. 3. When handwritten, both words are separately underlined. 4. The first word (genus) starts with a capital letter while the specific epithet starts with a small letter.', maxMarks: 6 },
+            { id: 'B-LW-D1', prompt: 'Describe the universal rules of nomenclature as proposed by Linnaeus.', canonicalAnswer: 'The rules are: 1. Biological names are generally in Latin and written in italics. 2. The first word represents the genus while the second word denotes the specific epithet. 3. When handwritten, both words are separately underlined. 4. The first word (genus) starts with a capital letter while the specific epithet starts with a small letter.', maxMarks: 6,
+              markingScheme: [
+                { id: 'B-LW-D1-P1', description: 'Biological names are in Latin and written in italics', marks: 1.5, synonyms: ['latinised', 'latinized', 'italicised', 'italicized'], mandatory: false },
+                { id: 'B-LW-D1-P2', description: 'The first word is the genus and the second word is the specific epithet', marks: 1.5, synonyms: ['generic name', 'species name'], mandatory: true },
+                { id: 'B-LW-D1-P3', description: 'When handwritten, both words are separately underlined', marks: 1.5, synonyms: ['underlined separately'], mandatory: false },
+                { id: 'B-LW-D1-P4', description: 'The genus starts with a capital letter and the specific epithet with a small letter', marks: 1.5, synonyms: ['capitalised', 'capitalized', 'lowercase', 'small letter'], mandatory: false },
+              ],
+            },
             { id: 'B-LW-D2', prompt: 'Why are classification systems dynamic and subject to change?', canonicalAnswer: 'Classification systems change over time due to advancements in our understanding of evolutionary relationships (phylogeny), new evidence from fields like molecular genetics (DNA sequencing), and the discovery of new species. Early systems were based on morphology, while modern systems are more comprehensive and aim to reflect evolutionary history.', maxMarks: 6 },
             { id: 'B-LW-D3', prompt: '"Reproduction cannot be an all-inclusive defining characteristic of living organisms." Justify this statement with examples.', canonicalAnswer: 'This is true because there are living organisms that do not reproduce. For example, sterile worker bees, mules, and infertile human couples are all living but cannot produce offspring. Therefore, while reproduction is a key characteristic of life, it is not a universally defining feature.', maxMarks: 6 },
             { id: 'B-LW-D4', prompt: 'What is a monograph versus a flora? How do these taxonomic aids differ in their scope?', canonicalAnswer: 'A monograph provides a comprehensive account of a single taxon (like a genus or family) from all over the world. A flora, on the other hand, contains the account of all plant species found in a particular geographical area, including keys for their identification.', maxMarks: 6 },
@@ -156,6 +168,8 @@ export const SUBJECTS: SubjectsData = {
             { id: 'B-CUL-B28', prompt: 'Name the protein that makes up microtubules.', canonicalAnswer: 'Microtubules are composed of polymers of the protein tubulin.', maxMarks: 2 },
             { id: 'B-CUL-B29', prompt: 'Why is the mitochondrion called the "powerhouse of the cell"?', canonicalAnswer: 'It is called the powerhouse of the cell because it generates most of the cell\'s supply of adenosine triphosphate (ATP), used as a source of chemical energy.', maxMarks: 2 },
             { id: 'B-CUL-B30', prompt: 'Which cell organelle is known as the "protein factory" and why?', canonicalAnswer: 'The ribosome is known as the protein factory because it is the site of biological protein synthesis.', maxMarks: 2 },
+            { id: 'B-CUL-B31', prompt: 'Which of the following organelles is not bound by a membrane?', canonicalAnswer: 'Ribosomes are made of RNA and protein and have no membrane around them, which is why they are found in prokaryotic cells too. Lysosomes and vacuoles have a single membrane, and mitochondria a double membrane.', maxMarks: 1, objective: { type: 'mcq', options: ['Lysosome', 'Ribosome', 'Mitochondrion', 'Vacuole'], answer: 1 } },
+            { id: 'B-CUL-B32', prompt: 'Read the assertion and reason, and choose the correct option.', canonicalAnswer: 'Both statements are true, but the reason does not explain the assertion. Mitochondria are called the powerhouse of the cell because aerobic respiration happens in them and produces most of the cell\'s ATP, not because they have their own DNA.', maxMarks: 1, objective: { type: 'assertion-reason', assertion: 'Mitochondria are called the powerhouse of the cell.', reason: 'Mitochondria have their own circular DNA and 70S ribosomes.', answer: 1 } },
           ],
           [Difficulty.Medium]: [
             { id: 'B-CUL-M1', prompt: 'Differentiate between a plant cell and an animal cell.', canonicalAnswer: 'A plant cell has a rigid cell wall, a large central vacuole, and chloroplasts for photosynthesis. An animal cell lacks these features but has lysosomes and centrioles.', maxMarks: 4 },
@@ -188,6 +202,15 @@ export const SUBJECTS: SubjectsData = {
             { id: 'B-CUL-M28', prompt: 'Describe the composition and function of the middle lamella in plant tissues.', canonicalAnswer: 'The middle lamella is a layer rich in calcium pectate that is found between the primary walls of adjacent plant cells. Its primary function is to act as a cementing agent, holding the cells together to form a tissue.', maxMarks: 4 },
             { id: 'B-CUL-M29', prompt: 'How is the structure of a ribosome adapted for its function in protein synthesis?', canonicalAnswer: 'A ribosome consists of a large and a small subunit. It has binding sites for mRNA and tRNAs. This structure allows it to hold the mRNA template and tRNA molecules in the correct position to catalyze the formation of peptide bonds between amino acids.', maxMarks: 4 },
             { id: 'B-CUL-M30', prompt: 'What would happen to a plant cell if it is placed in a hypertonic solution, and what is this phenomenon called?', canonicalAnswer: 'If a plant cell is placed in a hypertonic solution, water will move out of the cell by osmosis. This causes the protoplast to shrink and pull away from the cell wall. This phenomenon is called plasmolysis.', maxMarks: 4 },
+            { id: 'B-CUL-M31', prompt: 'Label the parts of the animal cell marked 1 to 6.', canonicalAnswer: '1. Nucleus 2. Nucleolus 3. Mitochondrion 4. Golgi apparatus 5. Rough endoplasmic reticulum 6. Plasma membrane', maxMarks: 3, labelling: { diagramId: 'animal-cell', labels: [
+              { markerId: 'nucleus', answer: 'Nucleus', marks: 0.5 },
+              { markerId: 'nucleolus', answer: 'Nucleolus', marks: 0.5 },
+              { markerId: 'mitochondrion', answer: 'Mitochondrion', accepted: ['Mitochondria'], marks: 0.5 },
+              { markerId: 'golgi', answer: 'Golgi apparatus', accepted: ['Golgi body', 'Golgi complex', 'Dictyosome', 'Golgi'], marks: 0.5 },
+              { markerId: 'rough-er', answer: 'Rough endoplasmic reticulum', accepted: ['RER', 'Rough ER', 'Endoplasmic reticulum', 'ER'], marks: 0.5 },
+              { markerId: 'membrane', answer: 'Plasma membrane', accepted: ['Cell membrane', 'Plasmalemma'], marks: 0.5 },
+            ] } },
+            { id: 'B-CUL-M32', prompt: 'Match each organelle in column A with its function in column B.', canonicalAnswer: 'Ribosomes synthesise proteins, lysosomes digest cellular waste with hydrolytic enzymes, the Golgi apparatus packages and secretes proteins, and chloroplasts carry out photosynthesis.', maxMarks: 2, objective: { type: 'match', columnA: ['Ribosome', 'Lysosome', 'Golgi apparatus', 'Chloroplast'], columnB: ['Photosynthesis', 'Protein synthesis', 'Packaging and secretion', 'Intracellular digestion'], answer: [1, 3, 2, 0] } },
           ],
           [Difficulty.Difficult]: [
             { id: 'B-CUL-D1', prompt: 'Describe the structure of a chloroplast with a well-labeled diagram in mind.', canonicalAnswer: 'A chloroplast is a double-membraned organelle. Inside the inner membrane is a fluid-filled space called the stroma. Within the stroma is a system of interconnected membranous sacs called thylakoids, which are stacked into grana. Chlorophyll is located in the thylakoid membranes. Chloroplasts also contain their own circular DNA and ribosomes.', maxMarks: 6 },
@@ -289,9 +312,21 @@ export const SUBJECTS: SubjectsData = {
             { id: 'B-BEG-M28', prompt: 'Why is transporting CO₂ as bicarbonate ions more efficient than as carbaminohemoglobin?', canonicalAnswer: 'The bicarbonate system is more efficient because it allows a significantly larger quantity of CO₂ to be transported in the blood compared to binding with hemoglobin. Additionally, the formation of bicarbonate ions plays a critical role in buffering the blood and maintaining its pH.', maxMarks: 4 },
             { id: 'B-BEG-M29', prompt: 'Describe the main symptoms and the underlying cause of asthma.', canonicalAnswer: 'Asthma is characterized by difficulty in breathing, wheezing, and coughing. It is caused by inflammation and hypersensitivity of the bronchi and bronchioles, which leads to bronchospasm (constriction of the airways), often triggered by allergens or irritants.', maxMarks: 4 },
             { id: 'B-BEG-M30', prompt: 'Explain why a person breathing through a very long snorkel would have difficulty getting enough fresh air.', canonicalAnswer: 'A long snorkel significantly increases the anatomical dead space. With each breath, the person first inhales the CO₂-rich air left in the snorkel from the previous exhalation. This reduces the volume of fresh, oxygenated air reaching the alveoli, leading to inefficient gas exchange.', maxMarks: 4 },
+            { id: 'B-BEG-M31', prompt: 'The diagram shows an alveolus and its blood supply. Label the parts marked 1 to 4.', canonicalAnswer: '1. Alveolar cavity 2. Alveolar wall 3. Blood capillary 4. Red blood cell', maxMarks: 2, labelling: { diagramId: 'alveolus', wordBank: ['Alveolar cavity', 'Alveolar wall', 'Blood capillary', 'Bronchiole', 'Red blood cell', 'Trachea', 'Pleura'], labels: [
+              { markerId: 'cavity', answer: 'Alveolar cavity', accepted: ['Alveolar air', 'Air space', 'Alveolar space', 'Lumen of alveolus'], marks: 0.5 },
+              { markerId: 'wall', answer: 'Alveolar wall', accepted: ['Squamous epithelium', 'Alveolar epithelium', 'Wall of alveolus'], marks: 0.5 },
+              { markerId: 'capillary', answer: 'Blood capillary', accepted: ['Capillary', 'Pulmonary capillary'], marks: 0.5 },
+              { markerId: 'rbc', answer: 'Red blood cell', accepted: ['RBC', 'Erythrocyte', 'Red blood corpuscle'], marks: 0.5 },
+            ] } },
           ],
           [Difficulty.Difficult]: [
-            { id: 'B-BEG-D1', prompt: 'Explain the oxygen-hemoglobin dissociation curve. What factors can cause it to shift to the right?', canonicalAnswer: 'The oxygen-hemoglobin dissociation curve is a sigmoid (S-shaped) curve that shows the relationship between the partial pressure of oxygen (PO₂) and the percentage saturation of hemoglobin. A shift to the right, known as the Bohr effect, indicates decreased affinity of hemoglobin for oxygen, facilitating oxygen release to tissues. Factors causing a right shift include increased PCO₂, decreased pH (increased H⁺), increased temperature, and increased levels of 2,3-BPG.', maxMarks: 6 },
+            { id: 'B-BEG-D1', prompt: 'Explain the oxygen-hemoglobin dissociation curve. What factors can cause it to shift to the right?', canonicalAnswer: 'The oxygen-hemoglobin dissociation curve is a sigmoid (S-shaped) curve that shows the relationship between the partial pressure of oxygen (PO₂) and the percentage saturation of hemoglobin. A shift to the right, known as the Bohr effect, indicates decreased affinity of hemoglobin for oxygen, facilitating oxygen release to tissues. Factors causing a right shift include increased PCO₂, decreased pH (increased H⁺), increased temperature, and increased levels of 2,3-BPG.', maxMarks: 6,
+              markingScheme: [
+                { id: 'B-BEG-D1-P1', description: 'The curve is sigmoid and relates partial pressure of oxygen to percentage saturation of hemoglobin', marks: 2, synonyms: ['s-shaped', 'sigmoid', 'pO2', 'percentage saturation'], mandatory: true },
+                { id: 'B-BEG-D1-P2', description: 'A right shift (Bohr effect) means lower affinity of hemoglobin for oxygen, releasing oxygen to tissues', marks: 2, synonyms: ['Bohr effect', 'lower affinity', 'decreased affinity'], mandatory: false },
+                { id: 'B-BEG-D1-P3', description: 'Right shift is caused by higher pCO2, lower pH (more H+), higher temperature and more 2,3-BPG', marks: 2, synonyms: ['high pCO2', 'low pH', 'high temperature', '2,3-BPG', '2,3-DPG'], mandatory: true },
+              ],
+            },
             { id: 'B-BEG-D2', prompt: 'Describe the chloride shift (Hamburger\'s phenomenon) and its significance.', canonicalAnswer: 'The chloride shift is a process where bicarbonate ions (HCO₃⁻) formed in red blood cells from the dissociation of carbonic acid move out into the blood plasma. To maintain electrical neutrality, chloride ions (Cl⁻) move from the plasma into the red blood cells. This process is significant as it allows for the continued transport of large amounts of CO₂ from tissues to the lungs.', maxMarks: 6 },
             { id: 'B-BEG-D3', prompt: 'Discuss two respiratory disorders caused by smoking.', canonicalAnswer: 'Two major respiratory disorders caused by smoking are emphysema and chronic bronchitis. Emphysema is a chronic condition where the alveolar walls are damaged, reducing the surface area for gas exchange and causing shortness of breath. Chronic bronchitis involves inflammation and narrowing of the bronchial tubes, leading to a persistent cough with mucus.', maxMarks: 6 },
             { id: 'B-BEG-D4', prompt: 'Explain the role of partial pressure gradients in the exchange of gases at the alveolar and tissue levels.', canonicalAnswer: 'Gas exchange occurs by simple diffusion along a partial pressure gradient. At the alveoli, the partial pressure of O₂ (PO₂) is high (~104 mmHg) and PCO₂ is low (~40 mmHg), while in deoxygenated blood, PO₂ is low (~40 mmHg) and PCO₂ is high (~45 mmHg). This gradient drives O₂ into the blood and CO₂ out. At the tissues, the gradients are reversed, driving O₂ out of the blood and CO₂ in.', maxMarks: 6 },
@@ -383,7 +418,7 @@ export const SUBJECTS: SubjectsData = {
             { id: 'P-UM-M21', prompt: 'A physical quantity Q is given by Q = A²B¹/² / (C³D). The percentage errors in A, B, C, and D are 1%, 2%, 4%, and 2% respectively. Find the percentage error in Q.', canonicalAnswer: 'The percentage error in Q is given by %Q = 2(%A) + (1/2)(%B) + 3(%C) + %D = 2(1%) + (1/2)(2%) + 3(4%) + 1(2%) = 2% + 1% + 12% + 2% = 17%.', maxMarks: 4 },
             { id: 'P-UM-M22', prompt: 'Explain the working principle of a vernier calliper.', canonicalAnswer: 'A vernier calliper works on the principle of using the difference between two scales, the main scale and the vernier scale. The vernier scale is constructed such that its divisions are slightly smaller than the main scale divisions, allowing for measurements with greater precision than the main scale alone.', maxMarks: 4 },
             { id: 'P-UM-M23', prompt: 'Find the dimensions of Planck\'s constant (h) from the equation E = hν.', canonicalAnswer: 'From E = hν, the dimensions of h are [E]/[ν]. Since [E] = [ML²T⁻²] and [ν] = [T⁻¹], the dimensions of h are [ML²T⁻²] / [T⁻¹] = [ML²T⁻¹].', maxMarks: 4 },
-            { id: 'P-UM-M24', prompt: 'The Moon is observed from two diametrically opposite points on Earth. The angle subtended is 1° 54\'. Given Earth\'s diameter as 1.276 × 10⁷ m, compute the distance to the Moon.', canonicalAnswer: 'First, convert θ = 1° 54\' to radians: θ ≈ 0.03316 rad. The distance D = basis/θ = (1.276 × 10⁷ m) / 0.03316 rad ≈ 3.84 × 10⁸ m.', maxMarks: 4 },
+            { id: 'P-UM-M24', prompt: 'The Moon is observed from two diametrically opposite points on Earth. The angle subtended is 1° 54\'. Given Earth\'s diameter as 1.276 × 10⁷ m, compute the distance to the Moon.', canonicalAnswer: 'First, convert θ = 1° 54\' to radians: θ ≈ 0.03316 rad. The distance D = basis/θ = (1.276 × 10⁷ m) / 0.03316 rad ≈ 3.84 × 10⁸ m.', maxMarks: 4, numericAnswer: { value: 3.84e8, unit: 'm', significantFigures: 3, relativeTolerance: 0.02, marks: 1 } },
             { id: 'P-UM-M25', prompt: 'Differentiate between random error and systematic error with examples.', canonicalAnswer: 'Systematic errors are consistent, repeatable errors in one direction, such as a zero error on a scale. Random errors are unpredictable fluctuations in measurements, such as variations in reaction time when using a stopwatch. Systematic errors affect accuracy, while random errors affect precision.', maxMarks: 4 },
           ],
           [Difficulty.Difficult]: [
@@ -439,6 +474,8 @@ export const SUBJECTS: SubjectsData = {
             { id: 'P-LM-B18', prompt: 'What provides the centripetal force to a car taking a turn on a level road?', canonicalAnswer: 'The force of static friction between the tires and the road provides the necessary centripetal force.', maxMarks: 2 },
             { id: 'P-LM-B19', prompt: 'Can a single isolated force exist in nature? Why?', canonicalAnswer: 'No, a single isolated force cannot exist because forces always occur in equal and opposite action-reaction pairs according to Newton\'s third law.', maxMarks: 2 },
             { id: 'P-LM-B20', prompt: 'What happens to the coefficient of friction when the normal force is doubled?', canonicalAnswer: 'The coefficient of friction is a property of the surfaces in contact and is nearly independent of the normal force. So, it remains the same.', maxMarks: 2 },
+            { id: 'P-LM-B21', prompt: 'A body of mass $2\\,\\text{kg}$ moves with a constant velocity of $5\\,\\text{m/s}$. What is the net force acting on it?', canonicalAnswer: 'A constant velocity means zero acceleration, so by Newton\'s second law the net force $F = ma$ is zero.', maxMarks: 1, objective: { type: 'mcq', options: ['$10\\,\\text{N}$', '$2.5\\,\\text{N}$', '$0\\,\\text{N}$', '$7\\,\\text{N}$'], answer: 2 } },
+            { id: 'P-LM-B22', prompt: 'Read the assertion and reason, and choose the correct option.', canonicalAnswer: 'Both statements are true and the reason explains the assertion: when the bus stops suddenly, the lower body stops with it while the upper body continues to move forward because of inertia.', maxMarks: 1, objective: { type: 'assertion-reason', assertion: 'A passenger in a moving bus falls forward when the bus stops suddenly.', reason: 'A body in motion tends to remain in motion because of inertia.', answer: 0 } },
           ],
           [Difficulty.Medium]: [
             { id: 'P-LM-M1', prompt: 'State and explain the law of conservation of linear momentum.', canonicalAnswer: 'The law of conservation of linear momentum states that if the net external force acting on a system of bodies is zero, then the total linear momentum of the system remains constant.', maxMarks: 4 },
@@ -452,15 +489,21 @@ export const SUBJECTS: SubjectsData = {
             { id: 'P-LM-M9', prompt: 'What is the angle of repose? Show that the angle of repose is equal to the angle of friction.', canonicalAnswer: 'The angle of repose is the minimum angle that an inclined plane makes with the horizontal when a body placed on it just begins to slide down. By resolving forces, we find that at this angle, mg sinθ = f_lim = μ_s N = μ_s mg cosθ. This simplifies to tanθ = μ_s. Since the angle of friction is also defined by tanλ = μ_s, the angle of repose equals the angle of friction.', maxMarks: 4 },
             { id: 'P-LM-M10', prompt: 'A force of 50 N acts on a body of mass 10 kg for 3 seconds. Calculate the impulse and the change in velocity of the body.', canonicalAnswer: 'Impulse (J) = Force × Time = 50 N × 3 s = 150 Ns. Since impulse is also the change in momentum (Δp), we have J = mΔv. So, 150 Ns = 10 kg × Δv. The change in velocity Δv = 150 / 10 = 15 m/s.', maxMarks: 4 },
             { id: 'P-LM-M11', prompt: 'Explain why it is easier to pull a lawn roller than to push it.', canonicalAnswer: 'When pulling at an angle, the vertical component of the applied force acts upwards, reducing the normal reaction. This reduces the force of friction (f=μN). When pushing, the vertical component acts downwards, increasing the normal reaction and friction, making it harder to move.', maxMarks: 4 },
-            { id: 'P-LM-M12', prompt: 'A bomb at rest explodes into two pieces of masses 2 kg and 4 kg. If the 2 kg mass moves with a velocity of 10 m/s, find the kinetic energy of the 4 kg mass.', canonicalAnswer: 'By conservation of momentum, m₁v₁ + m₂v₂ = 0. So, (2)(10) + (4)v₂ = 0, which gives v₂ = -5 m/s. The kinetic energy of the 4 kg mass is K.E. = ½m₂v₂² = ½(4)(-5)² = 50 J.', maxMarks: 4 },
+            { id: 'P-LM-M12', prompt: 'A bomb at rest explodes into two pieces of masses 2 kg and 4 kg. If the 2 kg mass moves with a velocity of 10 m/s, find the kinetic energy of the 4 kg mass.', canonicalAnswer: 'By conservation of momentum, m₁v₁ + m₂v₂ = 0. So, (2)(10) + (4)v₂ = 0, which gives v₂ = -5 m/s. The kinetic energy of the 4 kg mass is K.E. = ½m₂v₂² = ½(4)(-5)² = 50 J.', maxMarks: 4, numericAnswer: { value: 50, unit: 'J', relativeTolerance: 0.01, marks: 1 } },
             { id: 'P-LM-M13', prompt: 'Define the angle of friction. How is it related to the coefficient of static friction?', canonicalAnswer: 'The angle of friction is the angle which the resultant of the limiting friction and the normal reaction makes with the normal reaction. The tangent of the angle of friction is equal to the coefficient of static friction (tan λ = μ_s).', maxMarks: 4 },
             { id: 'P-LM-M14', prompt: 'What are concurrent forces? State the condition for the equilibrium of three concurrent forces.', canonicalAnswer: 'Concurrent forces are forces whose lines of action intersect at a common point. For equilibrium, the vector sum of these forces must be zero. This means they can be represented by the three sides of a triangle taken in order.', maxMarks: 4 },
             { id: 'P-LM-M15', prompt: 'A hammer of mass 500 g, moving at 50 m/s, strikes a nail. The nail stops the hammer in a very short time of 0.01 s. What is the average force of the nail on the hammer?', canonicalAnswer: 'The change in momentum Δp = m(v_f - v_i) = 0.5(0 - 50) = -25 Ns. The force F = Δp/Δt = -25 Ns / 0.01 s = -2500 N. The force of the nail on the hammer is 2500 N, opposing the motion.', maxMarks: 4 },
-            { id: 'P-LM-M16', prompt: 'A body of mass 5 kg is acted upon by two perpendicular forces of 8 N and 6 N. Find the magnitude of the acceleration.', canonicalAnswer: 'The resultant force F = √(8² + 6²) = √(64 + 36) = √100 = 10 N. The acceleration a = F/m = 10 N / 5 kg = 2 m/s².', maxMarks: 4 },
+            { id: 'P-LM-M16', prompt: 'A body of mass 5 kg is acted upon by two perpendicular forces of 8 N and 6 N. Find the magnitude of the acceleration.', canonicalAnswer: 'The resultant force F = √(8² + 6²) = √(64 + 36) = √100 = 10 N. The acceleration a = F/m = 10 N / 5 kg = 2 m/s².', maxMarks: 4, numericAnswer: { value: 2, unit: 'm/s^2', relativeTolerance: 0.01, marks: 1 } },
             { id: 'P-LM-M17', prompt: 'What are the different methods to reduce friction?', canonicalAnswer: 'Friction can be reduced by: 1) Polishing the surfaces. 2) Using lubricants like oil or grease. 3) Using ball bearings to convert sliding friction to rolling friction. 4) Streamlining the shape of objects moving through fluids.', maxMarks: 4 },
             { id: 'P-LM-M18', prompt: 'Explain the concept of apparent weight of a person in a lift when it is accelerating upwards.', canonicalAnswer: 'When the lift accelerates upwards with acceleration \'a\', the net force is F = N - mg = ma. The apparent weight is the normal reaction N = mg + ma = m(g+a). Thus, the person feels heavier.', maxMarks: 4 },
             { id: 'P-LM-M19', prompt: 'A block of wood of mass 1 kg is placed on a horizontal table. The coefficient of static friction is 0.2. Find the force of friction if a horizontal force of 1 N is applied. (g = 9.8 m/s²)', canonicalAnswer: 'The normal reaction N = mg = 1 * 9.8 = 9.8 N. The limiting friction f_lim = μ_s * N = 0.2 * 9.8 = 1.96 N. Since the applied force (1 N) is less than the limiting friction, the block will not move, and the static friction will be equal to the applied force, i.e., 1 N.', maxMarks: 4 },
             { id: 'P-LM-M20', prompt: 'A man of mass 70 kg stands on a weighing scale in a lift. What is the reading if the lift moves downwards with an acceleration of 5 m/s²? (g=10 m/s²)', canonicalAnswer: 'The net force is F = mg - N = ma. The reading on the scale is the normal reaction N = mg - ma = m(g-a) = 70(10-5) = 350 N. The reading would be 35 kg.', maxMarks: 4 },
+            { id: 'P-LM-M21', prompt: 'A block rests on a rough inclined plane. Label the forces and the angle marked 1 to 4 in its free-body diagram.', canonicalAnswer: '1. Normal reaction (N), perpendicular to the incline 2. Static friction (f), up the incline 3. Weight (mg), vertically downwards 4. Angle of inclination (θ)', maxMarks: 2, labelling: { diagramId: 'incline-fbd', labels: [
+              { markerId: 'normal', answer: 'Normal reaction', accepted: ['Normal force', 'Normal', 'N', 'Normal reaction force', 'Reaction'], marks: 0.5 },
+              { markerId: 'friction', answer: 'Friction', accepted: ['Static friction', 'Frictional force', 'Force of friction', 'f', 'fs'], marks: 0.5 },
+              { markerId: 'weight', answer: 'Weight', accepted: ['mg', 'Gravitational force', 'Force of gravity', 'Gravity', 'W'], marks: 0.5 },
+              { markerId: 'angle', answer: 'Angle of inclination', accepted: ['θ', 'Theta', 'Angle of incline', 'Inclination', 'Angle of the incline'], marks: 0.5 },
+            ] } },
           ],
           [Difficulty.Difficult]: [
             { id: 'P-LM-D1', prompt: 'What is impulse? Show that impulse is equal to the change in momentum.', canonicalAnswer: 'Impulse is the product of the force and the time duration for which the force acts. From Newton\'s second law, F = dp/dt, so F dt = dp. Integrating both sides, ∫F dt = ∫dp. The integral of F dt over a time interval is the impulse (J), and the integral of dp is the change in momentum (Δp). Thus, J = Δp.', maxMarks: 6 },
@@ -470,7 +513,7 @@ export const SUBJECTS: SubjectsData = {
             { id: 'P-LM-D5', prompt: 'A body is moving in a circular path of radius r with a constant speed v. Derive the expression for the centripetal acceleration.', canonicalAnswer: 'Consider the change in velocity vector Δv over a small time interval Δt. The vectors v₁, v₂, and Δv form an isosceles triangle. The arc length covered is Δs = vΔt. By similar triangles (formed by radii and velocity vectors), |Δv|/v ≈ Δs/r. So, |Δv| ≈ v(Δs)/r = v(vΔt)/r. The acceleration a = |Δv|/Δt = v²/r. This acceleration is directed towards the center of the circle.', maxMarks: 6 },
             { id: 'P-LM-D6', prompt: 'A block of mass 5 kg is resting on a rough horizontal surface. A force of 20 N is applied to it. If the coefficient of static friction is 0.5 and kinetic friction is 0.3, find the frictional force and acceleration. (g=10 m/s²)', canonicalAnswer: 'Normal reaction N = mg = 5*10 = 50 N. The maximum static friction (limiting friction) f_lim = μ_s N = 0.5 * 50 = 25 N. Since the applied force (20 N) is less than the limiting friction (25 N), the block will not move. Therefore, the static frictional force will be equal to the applied force, which is 20 N, and the acceleration will be zero.', maxMarks: 6 },
             { id: 'P-LM-D7', prompt: 'Derive an expression for the maximum safe speed of a car on a banked road, considering the force of friction.', canonicalAnswer: 'On a banked road, the horizontal components of the normal force (Nsinθ) and friction (fcosθ) provide the centripetal force. mv²/r = Nsinθ + fcosθ. The vertical components balance the weight: Ncosθ - fsinθ = mg. Using f = μN and solving these two equations for v gives the maximum safe speed: v_max = √[rg(μ + tanθ) / (1 - μtanθ)].', maxMarks: 6 },
-            { id: 'P-LM-D8', prompt: 'A rocket with a lift-off mass of 20,000 kg is blasting upwards with an initial acceleration of 5.0 m/s². Calculate the initial thrust (force) of the blast.', canonicalAnswer: 'The net upward force on the rocket is F_net = F_thrust - F_gravity. According to Newton\'s second law, F_net = ma. So, F_thrust - mg = ma. This gives F_thrust = m(g + a). Assuming g ≈ 9.8 m/s², F_thrust = 20000 kg * (9.8 + 5.0) m/s² = 20000 * 14.8 = 296,000 N or 2.96 x 10⁵ N.', maxMarks: 6 },
+            { id: 'P-LM-D8', prompt: 'A rocket with a lift-off mass of 20,000 kg is blasting upwards with an initial acceleration of 5.0 m/s². Calculate the initial thrust (force) of the blast.', canonicalAnswer: 'The net upward force on the rocket is F_net = F_thrust - F_gravity. According to Newton\'s second law, F_net = ma. So, F_thrust - mg = ma. This gives F_thrust = m(g + a). Assuming g ≈ 9.8 m/s², F_thrust = 20000 kg * (9.8 + 5.0) m/s² = 20000 * 14.8 = 296,000 N or 2.96 x 10⁵ N.', maxMarks: 6, numericAnswer: { value: 2.96e5, unit: 'N', significantFigures: 3, relativeTolerance: 0.01, marks: 2 } },
             { id: 'P-LM-D9', prompt: 'Explain the working of a centrifuge and the principle behind it.', canonicalAnswer: 'A centrifuge works on the principle of sedimentation. When a suspension is rotated at high speed, denser particles experience a greater centripetal force requirement to stay in a circular path. If the force provided by the liquid is insufficient, they move outwards to a larger radius, effectively separating from the lighter particles. This is an application of Newton\'s first law (inertia) in a rotating frame.', maxMarks: 6 },
             { id: 'P-LM-D10', prompt: 'A block is pushed momentarily on a horizontal surface with an initial velocity v. If μ is the coefficient of kinetic friction, find the time it takes for the block to come to rest.', canonicalAnswer: 'The only horizontal force acting on the block is the force of kinetic friction, f_k = μN = μmg. This causes a retardation (negative acceleration), so F_net = -μmg = ma. The acceleration is a = -μg. Using the first equation of motion, v_final = v_initial + at, we have 0 = v + (-μg)t. Solving for time, t = v / (μg).', maxMarks: 6 },
             { id: 'P-LM-D11', prompt: 'A monkey of mass 40 kg climbs a rope that can stand a maximum tension of 600 N. Will the rope break if the monkey climbs up with an acceleration of 6 m/s²? (g=10 m/s²)', canonicalAnswer: 'The tension in the rope when climbing up with acceleration \'a\' is T = m(g + a). T = 40(10 + 6) = 40 * 16 = 640 N. Since the calculated tension (640 N) is greater than the maximum tension the rope can stand (600 N), the rope will break.', maxMarks: 6 },
@@ -573,16 +616,22 @@ export const SUBJECTS: SubjectsData = {
             { id: 'P-G-B8', prompt: 'How does the value of \'g\' change with altitude?', canonicalAnswer: 'The value of acceleration due to gravity \'g\' decreases as the altitude (height above the Earth\'s surface) increases.', maxMarks: 2 },
           ],
           [Difficulty.Medium]: [
-            { id: 'P-G-M1', prompt: 'Derive the relation between \'g\' (acceleration due to gravity) and \'G\' (universal gravitational constant).', canonicalAnswer: 'The gravitational force on an object of mass m on the Earth\'s surface is F = GMe*m / Re², where Me and Re are the mass and radius of the Earth. Also, F = mg. Equating these, mg = GMe*m / Re², which gives g = GMe / Re².', maxMarks: 4 },
-            { id: 'P-G-M2', prompt: 'What is orbital velocity? Derive an expression for it.', canonicalAnswer: 'Orbital velocity is the velocity required to put a satellite into a stable orbit around a celestial body. The gravitational force provides the centripetal force: GMe*m / r² = mv²/r. Solving for v gives the orbital velocity v = √(GMe/r).', maxMarks: 4 },
+            { id: 'P-G-M1', prompt: 'Derive the relation between \'g\' (acceleration due to gravity) and \'G\' (universal gravitational constant).', canonicalAnswer: 'The gravitational force on an object of mass $m$ on the Earth\'s surface is $F = \\frac{G M_e m}{R_e^2}$, where $M_e$ and $R_e$ are the mass and radius of the Earth. Also, $F = mg$. Equating these, $mg = \\frac{G M_e m}{R_e^2}$, which gives $$g = \\frac{G M_e}{R_e^2}$$', maxMarks: 4 },
+            { id: 'P-G-M2', prompt: 'What is orbital velocity? Derive an expression for it.', canonicalAnswer: 'Orbital velocity is the velocity required to put a satellite into a stable orbit around a celestial body. The gravitational force provides the centripetal force: $\\frac{G M_e m}{r^2} = \\frac{m v^2}{r}$. Solving for $v$ gives the orbital velocity $$v = \\sqrt{\\frac{G M_e}{r}}$$', maxMarks: 4 },
             { id: 'P-G-M3', prompt: 'Explain how the acceleration due to gravity \'g\' varies with depth below the Earth\'s surface.', canonicalAnswer: 'As we go down into the Earth, the mass of the Earth attracting the body decreases. The acceleration at a depth d is g_d = g(1 - d/R), where R is the radius of the Earth. Thus, \'g\' decreases with depth.', maxMarks: 4 },
             { id: 'P-G-M4', prompt: 'What is gravitational potential energy? Derive an expression for it.', canonicalAnswer: 'Gravitational potential energy is the energy an object possesses due to its position in a gravitational field. The potential energy of a mass m at a distance r from a mass M is given by U = -GMm/r. It is defined as the work done in bringing the mass from infinity to that point.', maxMarks: 4 },
-            { id: 'P-G-M5', prompt: 'Derive an expression for the escape velocity of an object from the surface of the Earth.', canonicalAnswer: 'For an object to escape Earth\'s gravity, its initial kinetic energy (½mvₑ²) must be equal to the work done against the gravitational field, which is GMₑm/Rₑ. So, ½mvₑ² = GMₑm/Rₑ. This gives the escape velocity vₑ = √(2GMₑ/Rₑ).', maxMarks: 4 },
+            { id: 'P-G-M5', prompt: 'Derive an expression for the escape velocity of an object from the surface of the Earth.', canonicalAnswer: 'For an object to escape Earth\'s gravity, its initial kinetic energy $\\frac{1}{2} m v_e^2$ must be equal to the work done against the gravitational field, which is $\\frac{G M_e m}{R_e}$. So, $\\frac{1}{2} m v_e^2 = \\frac{G M_e m}{R_e}$. This gives the escape velocity $$v_e = \\sqrt{\\frac{2 G M_e}{R_e}}$$', maxMarks: 4 },
           ],
           [Difficulty.Difficult]: [
-            { id: 'P-G-D1', prompt: 'State and explain Kepler\'s laws of planetary motion.', canonicalAnswer: '1. Law of Orbits: Every planet revolves around the Sun in an elliptical orbit with the Sun at one of the foci. 2. Law of Areas: The line joining the planet to the Sun sweeps out equal areas in equal intervals of time (constant areal velocity). 3. Law of Periods: The square of the time period of revolution of a planet is proportional to the cube of the semi-major axis of its elliptical orbit (T² ∝ a³).', maxMarks: 6 },
-            { id: 'P-G-D2', prompt: 'Derive an expression for the total energy of a satellite orbiting the Earth.', canonicalAnswer: 'The total energy (E) is the sum of kinetic energy (K.E.) and potential energy (P.E.). K.E. = ½mv² = ½m(GM/r) = GMm/2r. P.E. = -GMm/r. Therefore, E = K.E. + P.E. = (GMm/2r) + (-GMm/r) = -GMm/2r. The negative sign indicates that the satellite is bound to the Earth.', maxMarks: 6 },
-            { id: 'P-G-D3', prompt: 'Show how the acceleration due to gravity \'g\' varies with the rotation of the Earth.', canonicalAnswer: 'Due to the Earth\'s rotation, a body on the surface experiences a centrifugal force. The effective gravity g\' at a latitude λ is given by g\' = g - Rω²cos²λ, where ω is the angular velocity of the Earth. This means gravity is slightly weaker at the equator (λ=0) and strongest at the poles (λ=90°).', maxMarks: 6 },
+            { id: 'P-G-D1', prompt: 'State and explain Kepler\'s laws of planetary motion.', canonicalAnswer: '1. Law of Orbits: Every planet revolves around the Sun in an elliptical orbit with the Sun at one of the foci. 2. Law of Areas: The line joining the planet to the Sun sweeps out equal areas in equal intervals of time (constant areal velocity). 3. Law of Periods: The square of the time period of revolution of a planet is proportional to the cube of the semi-major axis of its elliptical orbit (T² ∝ a³).', maxMarks: 6,
+              markingScheme: [
+                { id: 'P-G-D1-P1', description: 'Law of orbits: planets move in elliptical orbits with the Sun at one focus', marks: 2, synonyms: ['elliptical orbit', 'ellipse'], mandatory: true },
+                { id: 'P-G-D1-P2', description: 'Law of areas: the line joining planet and Sun sweeps equal areas in equal times', marks: 2, synonyms: ['equal areas', 'constant areal velocity'], mandatory: true },
+                { id: 'P-G-D1-P3', description: 'Law of periods: the square of the time period is proportional to the cube of the semi-major axis', marks: 2, synonyms: ['T² ∝ a³', 'T^2 proportional to a^3', 'square of the period'], mandatory: true },
+              ],
+            },
+            { id: 'P-G-D2', prompt: 'Derive an expression for the total energy of a satellite orbiting the Earth.', canonicalAnswer: 'The total energy ($E$) is the sum of kinetic energy (K.E.) and potential energy (P.E.). $K = \\frac{1}{2} m v^2 = \\frac{1}{2} m \\frac{GM}{r} = \\frac{GMm}{2r}$. $U = -\\frac{GMm}{r}$. Therefore, $$E = K + U = \\frac{GMm}{2r} - \\frac{GMm}{r} = -\\frac{GMm}{2r}$$ The negative sign indicates that the satellite is bound to the Earth.', maxMarks: 6 },
+            { id: 'P-G-D3', prompt: 'Show how the acceleration due to gravity \'g\' varies with the rotation of the Earth.', canonicalAnswer: 'Due to the Earth\'s rotation, a body on the surface experiences a centrifugal force. The effective gravity $g\'$ at a latitude $\\lambda$ is given by $$g\' = g - R \\omega^2 \\cos^2 \\lambda$$ where $\\omega$ is the angular velocity of the Earth. This means gravity is slightly weaker at the equator ($\\lambda = 0$) and strongest at the poles ($\\lambda = 90^\\circ$).', maxMarks: 6 },
           ],
         },
       },
@@ -633,6 +682,8 @@ export const SUBJECTS: SubjectsData = {
             { id: 'C-SA-B8', prompt: 'What is the photoelectric effect?', canonicalAnswer: 'The photoelectric effect is the emission of electrons from a material when light of a suitable frequency shines on it.', maxMarks: 2 },
             { id: 'C-SA-B9', prompt: 'What are the shapes of s and p orbitals?', canonicalAnswer: 'An s orbital is spherically symmetrical, while a p orbital is dumbbell-shaped.', maxMarks: 2 },
             { id: 'C-SA-B10', prompt: 'Write the electronic configuration of sodium (Na, Z=11).', canonicalAnswer: 'The electronic configuration of sodium is 1s²2s²2p⁶3s¹.', maxMarks: 2 },
+            { id: 'C-SA-B11', prompt: 'Which set of quantum numbers is not possible for an electron?', canonicalAnswer: 'The azimuthal quantum number $l$ can only take values from $0$ to $n - 1$, so $n = 2$, $l = 2$ is not allowed. The other sets obey $0 \\le l \\le n - 1$ and $-l \\le m_l \\le +l$.', maxMarks: 1, objective: { type: 'mcq', options: ['$n = 3, l = 2, m_l = -1, m_s = +\\tfrac{1}{2}$', '$n = 2, l = 2, m_l = 0, m_s = -\\tfrac{1}{2}$', '$n = 1, l = 0, m_l = 0, m_s = +\\tfrac{1}{2}$', '$n = 4, l = 3, m_l = +3, m_s = -\\tfrac{1}{2}$'], answer: 1 } },
+            { id: 'C-SA-B12', prompt: 'Read the assertion and reason, and choose the correct option.', canonicalAnswer: 'The assertion is false: according to the Aufbau principle the 4s orbital, with the lower $(n + l)$ value of 4, is filled before 3d, whose $(n + l)$ is 5. The reason is a true statement of the $(n + l)$ rule.', maxMarks: 1, objective: { type: 'assertion-reason', assertion: 'The 3d orbital is filled before the 4s orbital.', reason: 'Orbitals are filled in increasing order of their $(n + l)$ value.', answer: 3 } },
           ],
           [Difficulty.Medium]: [
             { id: 'C-SA-M1', prompt: 'Explain the dual nature of matter as proposed by de Broglie.', canonicalAnswer: 'Louis de Broglie proposed that all matter, including particles like electrons, exhibits both wave-like and particle-like properties. The wavelength associated with a particle is given by the equation λ = h/mv, where h is Planck\'s constant, m is mass, and v is velocity.', maxMarks: 4 },
@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+// Bundled so math renders offline, fonts included.
+import 'katex/dist/katex.min.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
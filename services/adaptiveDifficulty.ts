@@ -0,0 +1,53 @@
+import { Chapter, Difficulty, Question, SessionAnswer } from '../types';
+import { ADAPTIVE_STEP_UP_STREAK, ADAPTIVE_STEP_DOWN_BELOW } from '../constants';
+
+// Adaptive sessions: each question's difficulty follows the student's running performance, drawing
+// on all three of a chapter's pools instead of the single level picked on the setup screen.
+
+const LEVELS = Object.values(Difficulty);
+
+export const ADAPTIVE_STARTING_DIFFICULTY = Difficulty.Basic;
+
+const stepFrom = (difficulty: Difficulty, step: number): Difficulty =>
+  LEVELS[Math.min(LEVELS.length - 1, Math.max(0, LEVELS.indexOf(difficulty) + step))];
+
+/**
+ * The level for the next question, given the answers so far (each tagged with the level it was asked at).
+ * Only graded answers at the current level count: a failed evaluation neither raises nor lowers it.
+ */
+export const nextDifficulty = (answers: SessionAnswer[]): Difficulty => {
+  const current = answers[answers.length - 1]?.difficulty ?? ADAPTIVE_STARTING_DIFFICULTY;
+  const atLevel: SessionAnswer[] = [];
+  for (let i = answers.length - 1; i >= 0 && answers[i].difficulty === current; i--) {
+    if (answers[i].result) atLevel.unshift(answers[i]);
+  }
+  const latest = atLevel[atLevel.length - 1];
+  if (!latest?.result) return current;
+
+  if (latest.result.score < latest.question.maxMarks * ADAPTIVE_STEP_DOWN_BELOW) return stepFrom(current, -1);
+  const recent = atLevel.slice(-ADAPTIVE_STEP_UP_STREAK);
+  if (recent.length === ADAPTIVE_STEP_UP_STREAK && recent.every(a => a.result?.isCorrect)) return stepFrom(current, 1);
+  return current;
+};
+
+/**
+ * A random question from the chapter that hasn't been asked yet, at `difficulty` if that pool has any
+ * left, otherwise at the nearest level that does. Returns null once every pool is used up.
+ */
+export const pickAdaptiveQuestion = (chapter: Chapter, difficulty: Difficulty, askedIds: Set<string>): { question: Question; difficulty: Difficulty } | null => {
+  const byDistance = [...LEVELS].sort((a, b) =>
+    Math.abs(LEVELS.indexOf(a) - LEVELS.indexOf(difficulty)) - Math.abs(LEVELS.indexOf(b) - LEVELS.indexOf(difficulty)));
+  for (const level of byDistance) {
+    const remaining = chapter.questions[level].filter(q => !askedIds.has(q.id));
+    if (remaining.length > 0) {
+      return { question: remaining[Math.floor(Math.random() * remaining.length)], difficulty: level };
+    }
+  }
+  return null;
+};
+
+/** Average marks of every question in the chapter, used to time an adaptive paper before its questions are known. */
+export const averageChapterMarks = (chapter: Chapter): number => {
+  const questions = LEVELS.flatMap(level => chapter.questions[level]);
+  return questions.length > 0 ? questions.reduce((acc, q) => acc + q.maxMarks, 0) / questions.length : 0;
+};
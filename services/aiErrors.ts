@@ -0,0 +1,70 @@
+// Errors from the AI service layer. Each kind carries a message that is safe to show to a student,
+// and whether trying again could help.
+
+export class AiServiceError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean, options?: { cause?: unknown }) {
+    super(message, options?.cause !== undefined ? options : undefined);
+    this.name = 'AiServiceError';
+    this.retryable = retryable;
+  }
+}
+
+export class NetworkError extends AiServiceError {
+  constructor(cause?: unknown) {
+    super("Couldn't reach the AI service. Check your internet connection and try again.", true, { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class QuotaExceededError extends AiServiceError {
+  // How long the service asked us to wait, when it said so.
+  readonly retryAfterMs: number | null;
+
+  constructor(retryAfterMs: number | null, cause?: unknown) {
+    super("The AI service is handling too many requests right now. Please wait a moment and try again.", true, { cause });
+    this.name = 'QuotaExceededError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class InvalidResponseError extends AiServiceError {
+  constructor(detail: string, cause?: unknown) {
+    super(`The AI service sent back a response we couldn't read (${detail}).`, true, { cause });
+    this.name = 'InvalidResponseError';
+  }
+}
+
+export class TimeoutError extends AiServiceError {
+  constructor(timeoutMs: number) {
+    super(`The AI service didn't respond within ${Math.round(timeoutMs / 1000)} seconds.`, true);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Reads "retry in 12s" style hints from a 429 response.
+const parseRetryAfterMs = (message: string): number | null => {
+  const match = /retry(?:Delay"?:?\s*"?| in |-after:?\s*)(\d+(?:\.\d+)?)\s*s/i.exec(message);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : null;
+};
+
+/** Turns whatever the SDK or `fetch` threw into one of the typed errors above. */
+export const classifyError = (error: unknown): AiServiceError => {
+  if (error instanceof AiServiceError) return error;
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : null;
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new QuotaExceededError(parseRetryAfterMs(message), error);
+  }
+  if (error instanceof SyntaxError) {
+    return new InvalidResponseError('malformed JSON', error);
+  }
+  if (status !== null && status >= 500) {
+    return new AiServiceError("The AI service had a temporary problem. Please try again.", true, { cause: error });
+  }
+  if (status === null && (error instanceof TypeError || /network|failed to fetch|ECONNRESET|ENOTFOUND/i.test(message))) {
+    return new NetworkError(error);
+  }
+  return new AiServiceError("The AI service couldn't complete this request.", false, { cause: error });
+};
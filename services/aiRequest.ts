@@ -0,0 +1,87 @@
+import { GEMINI_MAX_RETRIES, GEMINI_RATE_LIMIT_BURST, GEMINI_RATE_LIMIT_PER_MINUTE, GEMINI_REQUEST_TIMEOUT_MS, GEMINI_RETRY_BASE_DELAY_MS } from '../constants';
+import { AiServiceError, QuotaExceededError, TimeoutError, classifyError } from './aiErrors';
+
+// How every Gemini call is made: through a client-side rate limiter, with a per-attempt timeout,
+// and retried with exponential backoff when the failure is one that could go away on its own.
+
+export interface RequestOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * A token bucket: `capacity` requests can go out back to back, after which callers wait for tokens
+ * to refill at `refillPerMinute`. Waiters are served in the order they arrived.
+ */
+export const createTokenBucket = (capacity: number, refillPerMinute: number) => {
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) / 60_000) * refillPerMinute);
+    lastRefill = now;
+  };
+
+  const take = (): Promise<void> => {
+    const turn = queue.then(async () => {
+      refill();
+      if (tokens < 1) {
+        await sleep(((1 - tokens) / refillPerMinute) * 60_000);
+        refill();
+      }
+      tokens -= 1;
+    });
+    queue = turn;
+    return turn;
+  };
+
+  return { take };
+};
+
+const geminiRateLimiter = createTokenBucket(GEMINI_RATE_LIMIT_BURST, GEMINI_RATE_LIMIT_PER_MINUTE);
+
+// Full jitter: a random wait between zero and the exponential delay, so retries from a batch spread out.
+const backoffDelay = (attempt: number, error: AiServiceError): number => {
+  const exponential = GEMINI_RETRY_BASE_DELAY_MS * 2 ** attempt;
+  const jittered = Math.random() * exponential;
+  return error instanceof QuotaExceededError && error.retryAfterMs !== null ? Math.max(jittered, error.retryAfterMs) : jittered;
+};
+
+const withTimeout = async <T>(send: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await Promise.race([
+      send(controller.signal),
+      new Promise<never>((_, reject) => controller.signal.addEventListener('abort', () => reject(new TimeoutError(timeoutMs)))),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Runs one Gemini request. `send` gets an AbortSignal to hand to the SDK and should throw
+ * (an `InvalidResponseError`, for instance) if the response doesn't have the expected shape.
+ * Whatever fails in the end is rethrown as a typed `AiServiceError`.
+ */
+export const requestWithRetry = async <T>(send: (signal: AbortSignal) => Promise<T>, options: RequestOptions = {}): Promise<T> => {
+  const timeoutMs = options.timeoutMs ?? GEMINI_REQUEST_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? GEMINI_MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    await geminiRateLimiter.take();
+    try {
+      return await withTimeout(send, timeoutMs);
+    } catch (e) {
+      const error = classifyError(e);
+      if (!error.retryable || attempt >= maxRetries) throw error;
+      console.warn(`Gemini request failed (${error.name}), retrying (attempt ${attempt + 2} of ${maxRetries + 1})`, e);
+      await sleep(backoffDelay(attempt, error));
+    }
+  }
+};
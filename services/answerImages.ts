@@ -0,0 +1,30 @@
+import { AnswerImage } from '../types';
+import { ANSWER_IMAGE_MAX_DIMENSION, ANSWER_IMAGE_QUALITY } from '../constants';
+
+/**
+ * Reads a photo of a handwritten answer, scaled down so its longest side is at most
+ * ANSWER_IMAGE_MAX_DIMENSION and re-encoded as JPEG. Phone photos are often several megabytes,
+ * far more than the grader needs to read the handwriting.
+ */
+export const readAnswerImage = async (file: File): Promise<AnswerImage> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, ANSWER_IMAGE_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas is not supported in this browser.');
+  }
+  // Transparent areas (a PNG of a drawing) would otherwise turn black in the JPEG.
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const dataUrl = canvas.toDataURL('image/jpeg', ANSWER_IMAGE_QUALITY);
+  return { mimeType: 'image/jpeg', data: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+};
+
+/** A URL an <img> can show the photo from. */
+export const answerImageSrc = (image: AnswerImage): string => `data:${image.mimeType};base64,${image.data}`;
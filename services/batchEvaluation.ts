@@ -0,0 +1,44 @@
+import { Question, EvaluationResult, Evaluator, AnswerImage } from '../types';
+
+export interface BatchItem {
+  question: Question;
+  studentAnswer: string;
+  images?: AnswerImage[];
+}
+
+export type BatchOutcome =
+  | { status: 'graded'; result: EvaluationResult }
+  | { status: 'failed'; error: string };
+
+/**
+ * Grades a whole paper with at most `concurrency` evaluations in flight at once.
+ * One failure doesn't stop the rest; each item reports its own outcome, in the original order.
+ */
+export const evaluateBatch = async (
+  items: BatchItem[],
+  evaluator: Evaluator,
+  concurrency: number,
+  onProgress?: (completed: number, total: number) => void,
+): Promise<BatchOutcome[]> => {
+  const outcomes: BatchOutcome[] = new Array(items.length);
+  let nextIndex = 0;
+  let completed = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      const { question, studentAnswer, images } = items[index];
+      try {
+        outcomes[index] = { status: 'graded', result: await evaluator.evaluate(question, studentAnswer, images) };
+      } catch (e: any) {
+        console.error(`Evaluation of ${question.id} failed:`, e);
+        outcomes[index] = { status: 'failed', error: e?.message || 'Evaluation failed.' };
+      }
+      completed++;
+      onProgress?.(completed, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  return outcomes;
+};
@@ -0,0 +1,346 @@
+import { AnswerImage, EquationCheck, EvaluationResult, Evaluator, PartialEvaluation, Question } from '../types';
+import { CHEMISTRY_UNBALANCED_PENALTY, CORRECT_SCORE_THRESHOLD } from '../constants';
+import { locateQuestion } from './questionBank';
+
+// Chemical formulas and equations in student answers: rendering with sub- and superscripts, turning
+// dictated formulas ("H two O") into symbols, and checking every equation for atom and charge balance.
+
+const ELEMENTS = new Set((
+  'H He Li Be B C N O F Ne Na Mg Al Si P S Cl Ar K Ca Sc Ti V Cr Mn Fe Co Ni Cu Zn Ga Ge As Se Br Kr Rb Sr Y Zr ' +
+  'Nb Mo Tc Ru Rh Pd Ag Cd In Sn Sb Te I Xe Cs Ba La Ce Pr Nd Pm Sm Eu Gd Tb Dy Ho Er Tm Yb Lu Hf Ta W Re Os Ir ' +
+  'Pt Au Hg Tl Pb Bi Po At Rn Fr Ra Ac Th Pa U Np Pu Am Cm Bk Cf Es Fm Md No Lr Rf Db Sg Bh Hs Mt Ds Rg Cn Nh Fl ' +
+  'Mc Lv Ts Og'
+).split(' '));
+
+export interface ParsedSpecies {
+  coefficient: number;
+  atoms: Record<string, number>;
+  charge: number;
+}
+
+const SUBSCRIPT_DIGITS = '₀₁₂₃₄₅₆₇₈₉';
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+// Reaction arrows, including the "=" many students write in place of one, with any heating sign after them.
+const ARROW = /\s*(?:-+>|→|⟶|⇌|⇄|<-+>|<=+>|=)(?:\s*(?:Δ|\(Δ\)|\(heat\)))?\s*/g;
+
+const STATE = /^\((?:s|l|g|aq)\)$/i;
+
+/** Rewrites sub- and superscript characters as plain text: "SO₄²⁻" becomes "SO4^2-". */
+const toPlain = (text: string): string =>
+  text
+    .replace(/[₀-₉]/g, ch => String(SUBSCRIPT_DIGITS.indexOf(ch)))
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁺⁻]+/g, run => '^' + [...run].map(ch => ch === '⁺' ? '+' : ch === '⁻' ? '-' : String(SUPERSCRIPT_DIGITS.indexOf(ch))).join(''));
+
+// --- Parsing ---
+
+const addAtoms = (into: Record<string, number>, atoms: Record<string, number>, times: number) => {
+  Object.entries(atoms).forEach(([element, count]) => { into[element] = (into[element] ?? 0) + count * times; });
+};
+
+// Elements and bracketed groups, each with an optional count: "Ca(OH)2", "K4[Fe(CN)6]". Returns null on anything else.
+const parseFormulaBody = (text: string): Record<string, number> | null => {
+  let pos = 0;
+  const readCount = () => {
+    const digits = /^\d*/.exec(text.slice(pos))![0];
+    pos += digits.length;
+    return digits ? Number(digits) : 1;
+  };
+  const readGroup = (close: string | null): Record<string, number> | null => {
+    const atoms: Record<string, number> = {};
+    while (pos < text.length && text[pos] !== close) {
+      const ch = text[pos];
+      if (ch === '(' || ch === '[') {
+        pos++;
+        const inner = readGroup(ch === '(' ? ')' : ']');
+        if (!inner || pos >= text.length) return null;
+        pos++;
+        addAtoms(atoms, inner, readCount());
+      } else if (/[A-Z]/.test(ch)) {
+        const pair = text.slice(pos, pos + 2);
+        const symbol = /^[A-Z][a-z]$/.test(pair) && ELEMENTS.has(pair) ? pair : ch;
+        if (!ELEMENTS.has(symbol)) return null;
+        pos += symbol.length;
+        addAtoms(atoms, { [symbol]: 1 }, readCount());
+      } else {
+        return null;
+      }
+    }
+    return Object.keys(atoms).length > 0 ? atoms : null;
+  };
+  const atoms = readGroup(null);
+  return atoms && pos === text.length ? atoms : null;
+};
+
+const readCoefficient = (text: string): number | null => {
+  if (text === '½') return 0.5;
+  const fraction = /^(\d+)\/(\d+)$/.exec(text);
+  if (fraction) return Number(fraction[1]) / Number(fraction[2]);
+  return /^(?:\d+|\d*\.\d+)$/.test(text) ? Number(text) : null;
+};
+
+/**
+ * Separates a trailing charge ("2-", "+") from a formula. Without a "^", digits before the sign are a charge
+ * only on a single element ("Fe3+"); in "NH4+" they are a count.
+ */
+const splitCharge = (text: string): { body: string; charge: string | null } => {
+  const caret = /\^(\d*[+-])$/.exec(text);
+  if (caret) return { body: text.slice(0, caret.index), charge: caret[1] };
+  const attached = /(\d*)([+-])$/.exec(text);
+  if (!attached) return { body: text, charge: null };
+  const element = text.slice(0, attached.index);
+  return attached[1] && /^[A-Z][a-z]?$/.test(element)
+    ? { body: element, charge: attached[0] }
+    : { body: text.slice(0, -1), charge: attached[2] };
+};
+
+const chargeValue = (charge: string | null): number =>
+  charge ? (Number(charge.slice(0, -1)) || 1) * (charge.endsWith('+') ? 1 : -1) : 0;
+
+/**
+ * Parses one species of an equation, such as "2H2O(l)", "CuSO4·5H2O", "SO4^2-" or "Na+".
+ * Returns null if it isn't a formula.
+ */
+export const parseSpecies = (raw: string): ParsedSpecies | null => {
+  let text = toPlain(raw).trim().replace(/\s*\((?:s|l|g|aq)\)$/i, '').replace(/[↑↓]$/, '');
+  const leading = /^(\d+\/\d+|\d*\.\d+|\d+|½)\s*(?=[A-Z([e])/.exec(text);
+  const coefficient = leading ? readCoefficient(leading[1])! : 1;
+  if (leading) text = text.slice(leading[0].length);
+
+  if (/^e\^?-$/.test(text)) return { coefficient, atoms: {}, charge: -1 };
+
+  const { body, charge } = splitCharge(text);
+
+  // Hydrates and adducts: "CuSO4·5H2O".
+  const atoms: Record<string, number> = {};
+  for (const part of body.split(/[·•*.](?=\d*[A-Z([])/)) {
+    const multiplier = /^\d+/.exec(part)?.[0];
+    const parsed = parseFormulaBody(multiplier ? part.slice(multiplier.length) : part);
+    if (!parsed) return null;
+    addAtoms(atoms, parsed, multiplier ? Number(multiplier) : 1);
+  }
+  return { coefficient, atoms, charge: chargeValue(charge) };
+};
+
+// --- Equations ---
+
+// Splits a side of an equation into words, with each "+" that joins two species as a word of its own.
+// Other punctuation becomes a "," word, which ends a run of species ("C=12, O=16" isn't an equation).
+const sideWords = (side: string): string[] =>
+  side
+    .replace(/\s+\+\s+|\s*\+(?=[\d½A-Z([])/g, ' + ')
+    .replace(/[,;:!?]/g, ' , ')
+    .split(/\s+/)
+    .map(word => word.replace(/^["'“(]+(?=[\d½A-Z[])|["'”]+$|\.$/g, ''))
+    .filter(Boolean);
+
+// Reads one species starting at `words[i]` (a coefficient word, the formula, a state word); null if there isn't one.
+const readSpecies = (words: string[], i: number): { text: string; next: number } | null => {
+  let start = i;
+  const coefficient = words[start] !== undefined && readCoefficient(words[start]) !== null ? words[start++] : null;
+  const formula = words[start];
+  if (formula === undefined || !parseSpecies(formula)) return null;
+  let next = start + 1;
+  const state = words[next] !== undefined && STATE.test(words[next]) ? words[next++] : null;
+  return { text: [coefficient, formula, state].filter(Boolean).join(' '), next };
+};
+
+// The species written on either side of an arrow: the run of "A + B" at the end of the text before it
+// and at the start of the text after it, so the surrounding prose is left out.
+const readSide = (words: string[], fromEnd: boolean): string[] => {
+  const ordered = fromEnd ? [...words].reverse() : words;
+  const species: string[] = [];
+  let i = 0;
+  while (i < ordered.length) {
+    // Read backwards, a species is its state, formula and coefficient in reverse; try the longest first.
+    let read: { text: string; next: number } | null = null;
+    if (fromEnd) {
+      for (let length = Math.min(3, ordered.length - i); length > 0 && !read; length--) {
+        const candidate = ordered.slice(i, i + length).reverse();
+        const parsed = readSpecies(candidate, 0);
+        if (parsed && parsed.next === length) read = { text: parsed.text, next: i + length };
+      }
+    } else {
+      read = readSpecies(ordered, i);
+    }
+    if (!read) break;
+    species.push(read.text);
+    i = read.next;
+    if (ordered[i] !== '+') break;
+    i++;
+  }
+  return fromEnd ? species.reverse() : species;
+};
+
+const speciesTotals = (species: string[]) => {
+  const atoms: Record<string, number> = {};
+  let charge = 0;
+  species.forEach(text => {
+    const parsed = parseSpecies(text)!;
+    addAtoms(atoms, parsed.atoms, parsed.coefficient);
+    charge += parsed.charge * parsed.coefficient;
+  });
+  return { atoms, charge };
+};
+
+// Counts compared after rounding, so fractional coefficients like "½ O2" add up exactly.
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+const checkEquation = (reactants: string[], products: string[]): EquationCheck => {
+  const left = speciesTotals(reactants);
+  const right = speciesTotals(products);
+  const elements = [...new Set([...Object.keys(left.atoms), ...Object.keys(right.atoms)])];
+  const imbalances = elements
+    .map(element => ({ element, reactants: round(left.atoms[element] ?? 0), products: round(right.atoms[element] ?? 0) }))
+    .filter(i => i.reactants !== i.products);
+  return {
+    equation: `${reactants.join(' + ')} → ${products.join(' + ')}`,
+    balanced: imbalances.length === 0,
+    imbalances,
+    reactantCharge: round(left.charge),
+    productCharge: round(right.charge),
+    chargeBalanced: round(left.charge) === round(right.charge),
+  };
+};
+
+/** Finds every chemical equation in an answer and checks its atom and charge balance. */
+export const findEquations = (answer: string): EquationCheck[] => {
+  const checks: EquationCheck[] = [];
+  toPlain(answer).split(/\n|;|(?<=\.)\s+/).forEach(segment => {
+    const sides = segment.split(ARROW);
+    for (let i = 0; i + 1 < sides.length; i++) {
+      const reactants = readSide(sideWords(sides[i]), true);
+      const products = readSide(sideWords(sides[i + 1]), false);
+      if (reactants.length > 0 && products.length > 0) checks.push(checkEquation(reactants, products));
+    }
+  });
+  return checks;
+};
+
+/** Why an equation isn't balanced, e.g. "O: 2 on the left, 1 on the right". */
+export const describeImbalance = (check: EquationCheck): string => [
+  ...check.imbalances.map(i => `${i.element}: ${i.reactants} on the left, ${i.products} on the right`),
+  ...(check.chargeBalanced ? [] : [`charge: ${formatCharge(check.reactantCharge)} on the left, ${formatCharge(check.productCharge)} on the right`]),
+].join('; ');
+
+const formatCharge = (charge: number) => (charge > 0 ? `+${charge}` : String(charge));
+
+// --- Rendering ---
+
+const toSubscript = (digits: string) => [...digits].map(d => SUBSCRIPT_DIGITS[Number(d)]).join('');
+const toSuperscript = (text: string) => [...text].map(ch => ch === '+' ? '⁺' : ch === '-' ? '⁻' : SUPERSCRIPT_DIGITS[Number(ch)]).join('');
+
+/**
+ * Renders formulas in text with subscripts and superscript charges ("2H2O" → "2H₂O", "SO4^2-" → "SO₄²⁻")
+ * and typed arrows as "→" / "⇌". Words that aren't formulas are left alone.
+ */
+export const formatChemistry = (text: string): string =>
+  text
+    .replace(/<=+>|<-+>/g, '⇌')
+    .replace(/-+>/g, '→')
+    .replace(/(^|[\s(+→⇌])(\d*)([A-Z][A-Za-z0-9()[\]·]*(?:\^?\d*[+-])?)(?=$|[\s,.;:)+→⇌])/g, (match, before, coefficient, formula: string) => {
+      const { body, charge } = splitCharge(formula);
+      if ((!/\d/.test(body) && !charge) || !parseSpecies(formula)) return match;
+      const subscripted = body.replace(/([A-Za-z)\]])(\d+)/g, (_, symbol, digits) => symbol + toSubscript(digits));
+      return `${before}${coefficient}${subscripted}${charge ? toSuperscript(charge) : ''}`;
+    });
+
+// --- Dictation ---
+
+const NUMBER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'];
+
+// Longer phrases first, so "reversible arrow" isn't read as "reversible →".
+const SPOKEN_SYMBOLS: [RegExp, string][] = [
+  [/\b(?:is in equilibrium with|reversible arrow)\b/gi, '⇌'],
+  [/\b(?:gives|yields|produces|forms|arrow)\b/gi, '→'],
+  [/\bplus\b/gi, '+'],
+];
+
+// Element symbols that are also everyday words; dictated on their own they are left as words.
+const COMMON_WORDS = new Set(['I', 'In', 'As', 'At', 'Be', 'He', 'No', 'Am']);
+
+// A dictated piece of a formula: element symbols as written ("Na", "O", "H2").
+const isFormulaPiece = (word: string | undefined) =>
+  word !== undefined && !COMMON_WORDS.has(word) && /^(?:[A-Z][a-z]?\d*)+$/.test(word) && parseFormulaBody(word) !== null;
+
+// A species in the dictated text, with its coefficient and state if it has them ("2H2O", "O2 (g)").
+const isSpokenSpecies = (words: string[], i: number, fromEnd: boolean): boolean => {
+  if (fromEnd) {
+    const formula = STATE.test(words[i] ?? '') ? words[i - 1] : words[i];
+    return isFormulaPiece(formula?.replace(/^\d+(?=[A-Z])/, ''));
+  }
+  return isFormulaPiece(/^\d+$/.test(words[i] ?? '') ? words[i + 1] : words[i]?.replace(/^\d+(?=[A-Z])/, ''));
+};
+
+/**
+ * Turns a dictated formula or equation into symbols: "2 H two plus O two gives 2 H two O" becomes
+ * "2 H2 + O2 → 2 H2O". Number words are only read as digits next to an element symbol, and "plus" or
+ * "gives" only as symbols between two species, so the prose around an equation is left as spoken.
+ */
+export const normalizeSpokenChemistry = (transcript: string): string => {
+  const words = transcript.split(/\s+/).filter(Boolean);
+  const digits = words.map((word, i) => {
+    const index = NUMBER_WORDS.indexOf(word.toLowerCase());
+    return index >= 0 && (isFormulaPiece(words[i - 1]) || isFormulaPiece(words[i + 1])) ? String(index) : word;
+  });
+  const out: string[] = [];
+  digits.forEach(word => {
+    const previous = out[out.length - 1];
+    const continuesFormula = isFormulaPiece(previous?.replace(/^\d+(?=[A-Z])/, ''))
+      && (/^\d+$/.test(word) ? !/\d$/.test(previous) : isFormulaPiece(word));
+    if (continuesFormula) out[out.length - 1] = previous + word;
+    else out.push(word);
+  });
+  let text = out.join(' ');
+  SPOKEN_SYMBOLS.forEach(([pattern, symbol]) => {
+    text = text.replace(pattern, (match: string, offset: number) => {
+      const before = text.slice(0, offset).split(/\s+/).filter(Boolean);
+      const after = text.slice(offset + match.length).split(/\s+/).filter(Boolean);
+      return isSpokenSpecies(before, before.length - 1, true) && isSpokenSpecies(after, 0, false) ? symbol : match;
+    });
+  });
+  return text;
+};
+
+// --- Grading ---
+
+/** Whether a question comes from a Chemistry chapter, where equations in the answer are checked. */
+export const isChemistryQuestion = (question: Question): boolean =>
+  locateQuestion(question.id)?.subject.toLowerCase().includes('chemistry') ?? false;
+
+const isBalanced = (check: EquationCheck) => check.balanced && check.chargeBalanced;
+
+const applyEquationChecks = (question: Question, result: EvaluationResult, checks: EquationCheck[]): EvaluationResult => {
+  const unbalanced = checks.filter(c => !isBalanced(c));
+  if (checks.length === 0) return result;
+  const score = Math.max(0, result.score - unbalanced.length * CHEMISTRY_UNBALANCED_PENALTY);
+  return {
+    ...result,
+    score,
+    isCorrect: result.isCorrect && score >= question.maxMarks * CORRECT_SCORE_THRESHOLD,
+    missingConcepts: [...result.missingConcepts, ...unbalanced.map(c => `Balanced equation: ${c.equation} (${describeImbalance(c)})`)],
+    equationChecks: checks,
+  };
+};
+
+/**
+ * Wraps an evaluator so equations in answers to Chemistry questions are checked for balance locally.
+ * Each unbalanced equation costs `CHEMISTRY_UNBALANCED_PENALTY`; the grader is told the result, not asked to find it.
+ */
+export const withEquationCheck = (evaluator: Evaluator): Evaluator => ({
+  ...evaluator,
+  evaluate: async (question, studentAnswer, images) => {
+    const result = await evaluator.evaluate(question, studentAnswer, images);
+    return isChemistryQuestion(question) ? applyEquationChecks(question, result, findEquations(studentAnswer)) : result;
+  },
+  ...(evaluator.evaluateStreaming ? {
+    evaluateStreaming: async (question: Question, studentAnswer: string, onPartial: (partial: PartialEvaluation) => void, images?: AnswerImage[]) => {
+      if (!isChemistryQuestion(question)) return evaluator.evaluateStreaming!(question, studentAnswer, onPartial, images);
+      const checks = findEquations(studentAnswer);
+      const penalty = checks.filter(c => !isBalanced(c)).length * CHEMISTRY_UNBALANCED_PENALTY;
+      const result = await evaluator.evaluateStreaming!(question, studentAnswer, partial =>
+        onPartial(partial.score === undefined ? partial : { ...partial, score: Math.max(0, partial.score - penalty) }), images);
+      return applyEquationChecks(question, result, checks);
+    },
+  } : {}),
+});
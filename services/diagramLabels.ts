@@ -0,0 +1,81 @@
+import { AnswerImage, EvaluationResult, Evaluator, LabelCheck, LabellingSpec, PartialEvaluation, Question } from '../types';
+import { CORRECT_SCORE_THRESHOLD } from '../constants';
+import { editDistance } from './offlineEvaluator';
+
+// Diagram labelling questions are marked entirely here, label by label against the answer key; no
+// evaluator is called. The labels travel as an ordinary answer string, one numbered line per blank
+// ("1. Nucleus"), so history, deferred grading and the summary handle them like any other answer.
+
+/** The answer string for the labels given on each blank, in order; empty when no blank is filled in. */
+export const formatLabelAnswer = (labels: string[]): string =>
+  labels.some(label => label.trim())
+    ? labels.map((label, index) => `${index + 1}. ${label.trim()}`).join('\n')
+    : '';
+
+/** The label given on each of `count` blanks, read back from an answer string; '' where a blank was left empty. */
+export const parseLabelAnswer = (answer: string, count: number): string[] => {
+  const labels = new Array<string>(count).fill('');
+  answer.split('\n').forEach(line => {
+    const match = line.match(/^\s*(\d+)\.\s*(.*)$/);
+    const index = match ? Number(match[1]) - 1 : -1;
+    if (index >= 0 && index < count) labels[index] = match![2].trim();
+  });
+  return labels;
+};
+
+const normalizeLabel = (label: string): string =>
+  label.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').replace(/^(?:the|a|an) /, '').trim();
+
+// A slip of a letter or two is forgiven in longer names ("mitochondrian"), never in short ones, where
+// one letter can make a different word.
+const allowedSlips = (expected: string): number => expected.length >= 10 ? 2 : expected.length >= 5 ? 1 : 0;
+
+const matchLabel = (given: string, key: LabellingSpec['labels'][number]): 'exact' | 'spelling' | null => {
+  const answer = normalizeLabel(given);
+  if (!answer) return null;
+  const names = [key.answer, ...(key.accepted ?? [])].map(normalizeLabel);
+  if (names.includes(answer)) return 'exact';
+  return names.some(name => editDistance(answer, name) <= allowedSlips(name)) ? 'spelling' : null;
+};
+
+/** Marks each blank of a labelling question. */
+export const checkLabels = (spec: LabellingSpec, studentAnswer: string): LabelCheck[] => {
+  const given = parseLabelAnswer(studentAnswer, spec.labels.length);
+  return spec.labels.map((key, index) => {
+    const correct = matchLabel(given[index], key) !== null;
+    return { answer: given[index], expected: key.answer, correct, marksAwarded: correct ? key.marks : 0, marks: key.marks };
+  });
+};
+
+const labellingResult = (question: Question, spec: LabellingSpec, studentAnswer: string): EvaluationResult => {
+  const checks = checkLabels(spec, studentAnswer);
+  const score = checks.reduce((acc, c) => acc + c.marksAwarded, 0);
+  const wrong = checks.map((c, index) => ({ ...c, number: index + 1 })).filter(c => !c.correct);
+  const given = parseLabelAnswer(studentAnswer, spec.labels.length);
+  return {
+    score,
+    feedback: wrong.length === 0
+      ? `All ${checks.length} labels are correct.`
+      : `${checks.length - wrong.length} of ${checks.length} labels are correct. ${wrong.map(c => `Blank ${c.number} is the ${c.expected.toLowerCase()}`).join('; ')}.`,
+    isCorrect: score >= question.maxMarks * CORRECT_SCORE_THRESHOLD,
+    missingConcepts: wrong.map(c => `Label: ${c.expected}`),
+    // Accepted misspellings still earn the mark, but are pointed out.
+    terminologyCorrections: spec.labels.flatMap((key, index) =>
+      matchLabel(given[index], key) === 'spelling' ? [`Instead of "${given[index]}", try using "${key.answer}".`] : []),
+    modelAnswerImprovement: '',
+    labelChecks: checks,
+  };
+};
+
+/** Wraps an evaluator so labelling questions are marked against their answer key instead. */
+export const withLabelCheck = (evaluator: Evaluator): Evaluator => ({
+  ...evaluator,
+  evaluate: async (question, studentAnswer, images) => question.labelling
+    ? labellingResult(question, question.labelling, studentAnswer)
+    : evaluator.evaluate(question, studentAnswer, images),
+  ...(evaluator.evaluateStreaming ? {
+    evaluateStreaming: async (question: Question, studentAnswer: string, onPartial: (partial: PartialEvaluation) => void, images?: AnswerImage[]) => question.labelling
+      ? labellingResult(question, question.labelling, studentAnswer)
+      : evaluator.evaluateStreaming!(question, studentAnswer, onPartial, images),
+  } : {}),
+});
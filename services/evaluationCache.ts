@@ -0,0 +1,113 @@
+import { Question, EvaluationResult, Evaluator, AnswerImage } from '../types';
+import { EVALUATION_CACHE_TTL_MS, EVALUATION_CACHE_MAX_ENTRIES } from '../constants';
+import { sha256 } from './hash';
+
+// A content-addressed cache of evaluations, kept in localStorage so it survives reloads and helps on
+// flaky connections. Identical requests that are still in flight share one call instead of making another.
+
+const EVALUATION_CACHE_KEY = 'evaluationCache';
+
+interface CacheEntry {
+  result: EvaluationResult;
+  storedAt: number;
+  lastUsedAt: number;
+}
+
+let entries: Record<string, CacheEntry> | null = null;
+const inFlight = new Map<string, Promise<EvaluationResult>>();
+
+const loadEntries = (): Record<string, CacheEntry> => {
+  if (entries) return entries;
+  try {
+    entries = JSON.parse(localStorage.getItem(EVALUATION_CACHE_KEY) ?? '{}');
+  } catch (e) {
+    console.error("Failed to read the evaluation cache:", e);
+    entries = {};
+  }
+  return entries!;
+};
+
+// Drops expired results, then the least recently used ones until the cache is within its size limit.
+const prune = (cache: Record<string, CacheEntry>, now: number) => {
+  Object.keys(cache).forEach(key => {
+    if (now - cache[key].storedAt > EVALUATION_CACHE_TTL_MS) delete cache[key];
+  });
+  const keys = Object.keys(cache);
+  if (keys.length <= EVALUATION_CACHE_MAX_ENTRIES) return;
+  keys
+    .sort((a, b) => cache[a].lastUsedAt - cache[b].lastUsedAt)
+    .slice(0, keys.length - EVALUATION_CACHE_MAX_ENTRIES)
+    .forEach(key => delete cache[key]);
+};
+
+const storeEntries = () => {
+  try {
+    localStorage.setItem(EVALUATION_CACHE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    // Most likely the storage quota; the cache still works for this page load.
+    console.error("Failed to save the evaluation cache:", e);
+  }
+};
+
+/**
+ * Whitespace differences don't change an answer's meaning, so they are collapsed before hashing.
+ * Case is kept: in chemistry and physics answers it can (Co vs CO, m vs M).
+ */
+const normalizeAnswer = (answer: string): string => answer.normalize('NFKC').replace(/\s+/g, ' ').trim();
+
+/**
+ * The cache key covers the question id, the normalised answer and any photos of it, the prompt version
+ * and the model. The question's own content is hashed in as well, so editing a question on the authoring
+ * screen doesn't reuse grades made against its old canonical answer.
+ */
+const cacheKey = async (question: Question, studentAnswer: string, images: AnswerImage[] | undefined, model: string, promptVersion: number): Promise<string> => {
+  const content = JSON.stringify([question.prompt, question.canonicalAnswer, question.maxMarks, question.markingScheme ?? null, question.numericAnswer ?? null, normalizeAnswer(studentAnswer), images ?? []]);
+  return `${model}:v${promptVersion}:${question.id}:${await sha256(content)}`;
+};
+
+/**
+ * Wraps an evaluator so repeated gradings of the same answer are served from the cache. A cached or
+ * already in-flight result is returned without partial updates, even from `evaluateStreaming`.
+ */
+export const withEvaluationCache = (evaluator: Evaluator, model: string, promptVersion: number): Evaluator => {
+  const cached = async (question: Question, studentAnswer: string, images: AnswerImage[] | undefined, run: () => Promise<EvaluationResult>): Promise<EvaluationResult> => {
+    let key: string;
+    try {
+      key = await cacheKey(question, studentAnswer, images, model, promptVersion);
+    } catch (e) {
+      // A broken cache must never stop grading.
+      console.error("Failed to build the evaluation cache key:", e);
+      return run();
+    }
+    const cache = loadEntries();
+    const now = Date.now();
+    const hit = cache[key];
+    if (hit && now - hit.storedAt <= EVALUATION_CACHE_TTL_MS) {
+      hit.lastUsedAt = now;
+      storeEntries();
+      return { ...hit.result, cached: true };
+    }
+
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const request = run()
+      .then(result => {
+        const storedAt = Date.now();
+        cache[key] = { result, storedAt, lastUsedAt: storedAt };
+        prune(cache, storedAt);
+        storeEntries();
+        return result;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, request);
+    return request;
+  };
+
+  return {
+    ...evaluator,
+    evaluate: (question, studentAnswer, images) => cached(question, studentAnswer, images, () => evaluator.evaluate(question, studentAnswer, images)),
+    evaluateStreaming: evaluator.evaluateStreaming && ((question, studentAnswer, onPartial, images) =>
+      cached(question, studentAnswer, images, () => evaluator.evaluateStreaming!(question, studentAnswer, onPartial, images))),
+  };
+};
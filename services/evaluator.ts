@@ -0,0 +1,31 @@
+import { Evaluator, EvaluatorId } from '../types';
+import { EVALUATION_PROMPT_VERSION, GEMINI_MODEL, geminiEvaluator, isGeminiConfigured } from './geminiService';
+import { offlineEvaluator } from './offlineEvaluator';
+import { withEvaluationCache } from './evaluationCache';
+import { withNumericCheck } from './numericAnswer';
+import { withEquationCheck } from './chemistry';
+import { withLabelCheck } from './diagramLabels';
+import { withObjectiveCheck } from './objectiveQuestions';
+
+// Only Gemini calls are cached: they cost quota and need the network, while the offline grader is instant.
+// Both backends have the final answer of numerical questions and the balance of chemical equations
+// marked locally, outside the cache, and leave labelling and objective questions to their answer key.
+const cachedGeminiEvaluator = withObjectiveCheck(withLabelCheck(withEquationCheck(withNumericCheck(withEvaluationCache(geminiEvaluator, GEMINI_MODEL, EVALUATION_PROMPT_VERSION)))));
+const checkedOfflineEvaluator = withObjectiveCheck(withLabelCheck(withEquationCheck(withNumericCheck(offlineEvaluator))));
+
+const EVALUATORS: Record<EvaluatorId, Evaluator> = {
+  gemini: cachedGeminiEvaluator,
+  offline: checkedOfflineEvaluator,
+};
+
+/**
+ * Picks the grading backend. `EVALUATOR` in the environment forces one explicitly (CI uses `offline`);
+ * otherwise Gemini is used when an API key is configured and the offline grader when it isn't.
+ */
+export const getEvaluator = (): Evaluator => {
+  const requested = process.env.EVALUATOR as EvaluatorId | undefined;
+  if (requested && EVALUATORS[requested]) {
+    return EVALUATORS[requested];
+  }
+  return isGeminiConfigured() ? cachedGeminiEvaluator : checkedOfflineEvaluator;
+};
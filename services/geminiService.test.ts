@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnswerImage, Question } from '../types';
+import { evaluateAnswer, evaluateAnswerStreaming } from './geminiService';
+
+// The Gemini client is replaced by a fake whose responses each test sets up, so nothing leaves the machine.
+const { generateContent, generateContentStream } = vi.hoisted(() => ({
+  generateContent: vi.fn(),
+  generateContentStream: vi.fn(),
+}));
+
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@google/genai')>(),
+  GoogleGenAI: class {
+    models = { generateContent, generateContentStream };
+  },
+}));
+
+const question: Question = {
+  id: 'TEST-1',
+  prompt: 'Draw a labelled diagram of an animal cell.',
+  canonicalAnswer: 'The diagram shows the nucleus, mitochondria, Golgi apparatus, endoplasmic reticulum and plasma membrane.',
+  maxMarks: 4,
+};
+
+const images: AnswerImage[] = [
+  { mimeType: 'image/jpeg', data: 'cGhvdG8tb25l' },
+  { mimeType: 'image/jpeg', data: 'cGhvdG8tdHdv' },
+];
+
+const evaluation = (fields: Record<string, unknown> = {}) => JSON.stringify({
+  score: 3,
+  feedback: 'A neat diagram.',
+  isCorrect: true,
+  missingConcepts: [],
+  terminologyCorrections: [],
+  modelAnswerImprovement: '',
+  awardedPoints: [],
+  ...fields,
+});
+
+const requestParts = (mock: typeof generateContent) => mock.mock.calls[0][0].contents[0].parts;
+
+beforeEach(() => {
+  vi.stubEnv('API_KEY', 'test-key');
+  // The prompt looks the question up in the catalogue, which reads imported banks from localStorage.
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+  generateContent.mockReset();
+  generateContentStream.mockReset();
+});
+
+describe('evaluateAnswer', () => {
+  it('sends each photo as an image part after the prompt', async () => {
+    generateContent.mockResolvedValue({ text: evaluation() });
+    await evaluateAnswer(question, 'See the photos.', images);
+
+    const parts = requestParts(generateContent);
+    expect(parts[0].text).toContain('2 attached photos');
+    expect(parts.slice(1)).toEqual([
+      { inlineData: { mimeType: 'image/jpeg', data: 'cGhvdG8tb25l' } },
+      { inlineData: { mimeType: 'image/jpeg', data: 'cGhvdG8tdHdv' } },
+    ]);
+  });
+
+  it('sends only the prompt for a typed answer', async () => {
+    generateContent.mockResolvedValue({ text: evaluation() });
+    await evaluateAnswer(question, 'The nucleus controls the cell.');
+
+    const parts = requestParts(generateContent);
+    expect(parts).toHaveLength(1);
+    expect(parts[0].text).not.toContain('Handwritten Answer');
+  });
+
+  it('maps the diagram feedback into the result', async () => {
+    generateContent.mockResolvedValue({ text: evaluation({ diagramFeedback: '  The nucleolus is not labelled.  ' }) });
+    const result = await evaluateAnswer(question, '', images);
+
+    expect(result.diagramFeedback).toBe('The nucleolus is not labelled.');
+    expect(result.score).toBe(3);
+  });
+
+  it('leaves out empty diagram feedback', async () => {
+    generateContent.mockResolvedValue({ text: evaluation({ diagramFeedback: '' }) });
+    const result = await evaluateAnswer(question, '', images);
+
+    expect(result).not.toHaveProperty('diagramFeedback');
+  });
+});
+
+describe('evaluateAnswerStreaming', () => {
+  it('streams a photographed answer and keeps its diagram feedback', async () => {
+    const text = evaluation({ diagramFeedback: 'Mitochondria are drawn well.' });
+    generateContentStream.mockResolvedValue((async function* () {
+      yield { text: text.slice(0, 40) };
+      yield { text: text.slice(40) };
+    })());
+    const onPartial = vi.fn();
+    const result = await evaluateAnswerStreaming(question, '', onPartial, images);
+
+    expect(requestParts(generateContentStream)).toHaveLength(3);
+    expect(generateContent).not.toHaveBeenCalled();
+    expect(onPartial).toHaveBeenCalled();
+    expect(result.diagramFeedback).toBe('Mitochondria are drawn well.');
+  });
+});
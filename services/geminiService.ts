@@ -1,11 +1,40 @@
 import { GoogleGenAI, Type } from '@google/genai';
-import { Question, EvaluationResult } from '../types';
+import { Question, EvaluationResult, Evaluator, AwardedPoint, Difficulty, PartialEvaluation, TutorMessage, AnswerImage } from '../types';
+import { applyMarkingScheme, describeMarkingScheme } from './markingScheme';
+import { InvalidResponseError, classifyError } from './aiErrors';
+import { requestWithRetry } from './aiRequest';
+import { parsePartialJson } from './partialJson';
+import { describeImbalance, findEquations, isChemistryQuestion } from './chemistry';
+import { choiceOptions, columnBLabel, optionLabel } from './objectiveQuestions';
 
-if (!process.env.API_KEY) {
+let ai: GoogleGenAI | null = null;
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+// Bump whenever the evaluation prompt or schema changes, so cached evaluations from the old prompt are not reused.
+export const EVALUATION_PROMPT_VERSION = 6;
+
+// The app renders LaTeX between these delimiters (see mathText.ts), so every prompt asks for math in them.
+const MATH_FORMAT = 'Write any formulas or mathematics in LaTeX: $...$ inline and $$...$$ for an equation on its own line. Never use $ for anything else.';
+
+export const isGeminiConfigured = (): boolean => !!process.env.API_KEY;
+
+// The client is created on first use so the app can boot without a key and fall back to the offline grader.
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
     throw new Error("API_KEY environment variable not set");
-}
+  }
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return ai;
+};
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const readJson = (text: string | undefined): unknown => {
+  if (!text?.trim()) {
+    throw new InvalidResponseError('empty response');
+  }
+  return JSON.parse(text.trim());
+};
 
 const evaluationSchema = {
   type: Type.OBJECT,
@@ -36,12 +65,53 @@ const evaluationSchema = {
       type: Type.BOOLEAN,
       description: 'True if the score is at least 75% of the maximum possible score.'
     },
+    awardedPoints: {
+        type: Type.ARRAY,
+        description: "Only when a marking scheme is given: one entry per value point with the marks awarded for it.",
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                pointId: { type: Type.STRING, description: "The id of the value point from the marking scheme." },
+                marksAwarded: { type: Type.NUMBER, description: "Marks awarded for this point, from 0 to the marks it carries." },
+            },
+            required: ['pointId', 'marksAwarded'],
+        }
+    },
+    diagramFeedback: {
+        type: Type.STRING,
+        description: "Only when the answer is given as photos: how any diagram was drawn and labelled, naming missing or wrong labels. Otherwise an empty string."
+    },
   },
   required: ['score', 'feedback', 'isCorrect', 'missingConcepts', 'terminologyCorrections', 'modelAnswerImprovement'],
+  // Score first, so a streamed response can show the marks before the feedback is written.
+  propertyOrdering: ['score', 'isCorrect', 'feedback', 'missingConcepts', 'terminologyCorrections', 'modelAnswerImprovement', 'awardedPoints', 'diagramFeedback'],
 };
 
-export const evaluateAnswer = async (question: Question, studentAnswer: string): Promise<EvaluationResult> => {
-  const prompt = `
+const buildEvaluationPrompt = (question: Question, studentAnswer: string, imageCount: number): string => {
+  const markingScheme = describeMarkingScheme(question);
+  const markingSchemeSection = markingScheme ? `
+    **Marking Scheme (CBSE step marking):**
+    Award marks point by point using this scheme. A point is earned if the student states it or an accepted synonym; partial marks within a point are allowed. The score must equal the sum of the marks awarded. An answer that misses a MANDATORY point cannot be marked correct.
+${markingScheme}
+` : '';
+  const equations = isChemistryQuestion(question) ? findEquations(studentAnswer) : [];
+  const equationSection = equations.length > 0 ? `
+    **Chemical Equations (checked separately):**
+    The student's equations were parsed and checked for atom and charge balance. Balancing is deducted separately, so do NOT deduct for it; judge whether the right reaction, species and conditions were given.
+${equations.map(e => `    - ${e.equation}: ${e.balanced && e.chargeBalanced ? 'balanced' : `NOT balanced (${describeImbalance(e)})`}`).join('\n')}
+` : '';
+  const numericSection = question.numericAnswer ? `
+    **Final Answer (checked separately):**
+    The student's final numerical value, unit and significant figures are marked by a separate check and are NOT part of this score. Grade only the method: the relevant formula or principle, correct substitution and the steps of working. The maximum of ${question.maxMarks} is for the working alone.
+` : '';
+  const diagramCriterion = imageCount > 0 ? `
+    5.  **Diagrams & Labelling (part of Completeness):** If the answer has a diagram, or the question asks for one, is it correct and neatly drawn, and are all the parts a CBSE examiner expects labelled, with correct labels and pointers? Deduct for each missing or wrong label, as a board examiner would; a question that asks for a diagram loses those marks if none is drawn.` : '';
+  const imageSection = imageCount > 0 ? `
+    **Handwritten Answer:**
+    The student's answer is handwritten in the ${imageCount === 1 ? 'attached photo' : `${imageCount} attached photos, in order`}, together with any typed text below. Read the handwriting and diagrams carefully. If part of a photo is unreadable, say so in the feedback and grade only what you can read; don't guess.${equations.length > 0 ? ' Only the typed equations above were checked for balance; judge the balancing of any handwritten equation yourself.' : ''}
+` : '';
+
+  return `
     You are an expert CBSE Class 11 academic coach. Your task is to evaluate a student's answer to a question based on CBSE standards.
     Provide a score and specific, constructive feedback designed to help the student learn and improve. The maximum possible score is ${question.maxMarks}.
 
@@ -49,7 +119,7 @@ export const evaluateAnswer = async (question: Question, studentAnswer: string):
     1.  **Conceptual Accuracy (50% weight):** Is the answer factually correct and aligned with the core concepts in the canonical answer? Minor inaccuracies should be penalized.
     2.  **Completeness & Key Points (25% weight):** Does the answer cover all the essential parts, definitions, and examples required for the given marks?
     3.  **Scientific Terminology & Precision (15% weight):** Does the student use precise, appropriate scientific terms expected at the CBSE Class 11 level? Avoids vague or colloquial language.
-    4.  **Clarity & Structure (10% weight):** Is the explanation clear, concise, and logically structured? For questions worth more than 2 marks, look for a well-organized answer.
+    4.  **Clarity & Structure (10% weight):** Is the explanation clear, concise, and logically structured? For questions worth more than 2 marks, look for a well-organized answer.${diagramCriterion}
 
     **Question:**
     "${question.prompt}"
@@ -57,6 +127,10 @@ export const evaluateAnswer = async (question: Question, studentAnswer: string):
     **Canonical Answer (for your reference, do not just repeat this):**
     "${question.canonicalAnswer}"
 
+    ${markingSchemeSection}
+    ${numericSection}
+    ${equationSection}
+    ${imageSection}
     **Student's Answer:**
     "${studentAnswer}"
 
@@ -69,40 +143,323 @@ export const evaluateAnswer = async (question: Question, studentAnswer: string):
     - "terminologyCorrections": A list of specific terminology corrections. Each string should be in the format 'Instead of "[student's term]", try using "[correct term]".' If no corrections are needed, return an empty array.
     - "modelAnswerImprovement": A concrete suggestion for how the student could improve their answer next time. This could be an improved sentence, a hint to focus on a particular detail, or a suggestion to structure the answer differently. For example: "A great way to improve this would be to start with the definition of...". If the answer is excellent, this can be an empty string.
     - "isCorrect": A boolean, which should be true if the calculated score is 75% or more of the maxMarks.
+    - "awardedPoints": If a marking scheme is given, one entry per value point: { "pointId": the point's id, "marksAwarded": marks given for it }. Otherwise return an empty array.
+    - "diagramFeedback": If the answer is given as photos, a sentence or two on the diagram: what is drawn well and which labels are missing or wrong. If there is no diagram and none was needed, or no photos, an empty string.
 
     If the student's answer is empty or nonsensical, give a score of 0, provide appropriate feedback explaining why, and return empty arrays for the other lists.
+    ${MATH_FORMAT}
   `;
-  
+};
+
+// Photos of a handwritten answer go in as image parts after the prompt that refers to them.
+const evaluationRequest = (prompt: string, images: AnswerImage[], abortSignal: AbortSignal) => ({
+  model: GEMINI_MODEL,
+  contents: [{ parts: [{ text: prompt }, ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }))] }],
+  config: {
+    responseMimeType: "application/json",
+    responseSchema: evaluationSchema,
+    temperature: 0.3,
+    abortSignal,
+  },
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const strings = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+
+// An evaluation response whose required fields have been checked; the optional ones are still as received.
+interface EvaluationResponse {
+  score: number;
+  feedback: string;
+  isCorrect: boolean;
+  missingConcepts: string[];
+  terminologyCorrections: string[];
+  modelAnswerImprovement: string;
+  awardedPoints: unknown;
+  diagramFeedback: unknown;
+}
+
+const parseEvaluation = (text: string | undefined): EvaluationResponse => {
+  const parsed = readJson(text);
+  if (!isObject(parsed) || typeof parsed.score !== 'number' || typeof parsed.feedback !== 'string' || typeof parsed.isCorrect !== 'boolean' || !Array.isArray(parsed.missingConcepts) || !Array.isArray(parsed.terminologyCorrections) || typeof parsed.modelAnswerImprovement !== 'string') {
+    throw new InvalidResponseError('missing evaluation fields');
+  }
+  return {
+    score: parsed.score,
+    feedback: parsed.feedback,
+    isCorrect: parsed.isCorrect,
+    missingConcepts: strings(parsed.missingConcepts)!,
+    terminologyCorrections: strings(parsed.terminologyCorrections)!,
+    modelAnswerImprovement: parsed.modelAnswerImprovement,
+    awardedPoints: parsed.awardedPoints,
+    diagramFeedback: parsed.diagramFeedback,
+  };
+};
+
+const toEvaluationResult = (question: Question, result: EvaluationResponse): EvaluationResult => {
+  const evaluation: EvaluationResult = {
+    score: Math.max(0, Math.min(question.maxMarks, Math.round(result.score))),
+    feedback: result.feedback,
+    isCorrect: result.isCorrect,
+    missingConcepts: result.missingConcepts,
+    terminologyCorrections: result.terminologyCorrections,
+    modelAnswerImprovement: result.modelAnswerImprovement,
+    ...(typeof result.diagramFeedback === 'string' && result.diagramFeedback.trim() ? { diagramFeedback: result.diagramFeedback.trim() } : {}),
+  };
+  const awardedPoints: AwardedPoint[] = Array.isArray(result.awardedPoints)
+    ? result.awardedPoints.filter((p): p is AwardedPoint => isObject(p) && typeof p.pointId === 'string' && typeof p.marksAwarded === 'number')
+    : [];
+  return applyMarkingScheme(question, evaluation, awardedPoints);
+};
+
+// Picks out the fields of a half-received evaluation that are already safe to show.
+const toPartialEvaluation = (question: Question, partial: Record<string, unknown>): PartialEvaluation => ({
+  score: typeof partial.score === 'number' ? Math.max(0, Math.min(question.maxMarks, Math.round(partial.score))) : undefined,
+  isCorrect: typeof partial.isCorrect === 'boolean' ? partial.isCorrect : undefined,
+  feedback: typeof partial.feedback === 'string' ? partial.feedback : undefined,
+  missingConcepts: strings(partial.missingConcepts),
+  terminologyCorrections: strings(partial.terminologyCorrections),
+});
+
+export const evaluateAnswer = async (question: Question, studentAnswer: string, images: AnswerImage[] = []): Promise<EvaluationResult> => {
+  const prompt = buildEvaluationPrompt(question, studentAnswer, images.length);
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [{ parts: [{ text: prompt }] }],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: evaluationSchema,
-        temperature: 0.3,
-      },
+    const client = getClient();
+    // Validation happens inside the request so a malformed response is retried like any other failure.
+    const result = await requestWithRetry(async (abortSignal) => {
+      const response = await client.models.generateContent(evaluationRequest(prompt, images, abortSignal));
+      return parseEvaluation(response.text);
     });
-    
-    const jsonString = response.text.trim();
-    const result = JSON.parse(jsonString);
-
-    // Basic validation
-    if (typeof result.score !== 'number' || typeof result.feedback !== 'string' || typeof result.isCorrect !== 'boolean' || !Array.isArray(result.missingConcepts) || !Array.isArray(result.terminologyCorrections) || typeof result.modelAnswerImprovement !== 'string') {
-        throw new Error('Invalid JSON response structure from API.');
-    }
-
-    return {
-      score: Math.max(0, Math.min(question.maxMarks, Math.round(result.score))),
-      feedback: result.feedback,
-      isCorrect: result.isCorrect,
-      missingConcepts: result.missingConcepts,
-      terminologyCorrections: result.terminologyCorrections,
-      modelAnswerImprovement: result.modelAnswerImprovement,
-    };
+    return toEvaluationResult(question, result);
 
   } catch (error) {
     console.error("Error calling Gemini API:", error);
-    throw new Error("Failed to get evaluation from AI service.");
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Like `evaluateAnswer`, but streams the response and reports each field as it arrives: the score
+ * first, then the feedback and lists as they are written. If streaming fails for any reason the
+ * answer is graded again with the ordinary request, which has its own retries.
+ */
+export const evaluateAnswerStreaming = async (question: Question, studentAnswer: string, onPartial: (partial: PartialEvaluation) => void, images: AnswerImage[] = []): Promise<EvaluationResult> => {
+  const prompt = buildEvaluationPrompt(question, studentAnswer, images.length);
+  try {
+    const client = getClient();
+    const result = await requestWithRetry(async (abortSignal) => {
+      const stream = await client.models.generateContentStream(evaluationRequest(prompt, images, abortSignal));
+      let text = '';
+      for await (const chunk of stream) {
+        text += chunk.text ?? '';
+        const partial = parsePartialJson(text);
+        if (isObject(partial)) onPartial(toPartialEvaluation(question, partial));
+      }
+      return parseEvaluation(text);
+    }, { maxRetries: 0 });
+    return toEvaluationResult(question, result);
+
+  } catch (error) {
+    console.warn("Streaming evaluation failed, falling back to a single request:", error);
+    return evaluateAnswer(question, studentAnswer, images);
   }
-};
\ No newline at end of file
+};
+
+export const geminiEvaluator: Evaluator = {
+  id: 'gemini',
+  label: 'Gemini AI',
+  evaluate: evaluateAnswer,
+  evaluateStreaming: evaluateAnswerStreaming,
+  acceptsImages: true,
+};
+
+/**
+ * Answers a student's follow-up question about a graded answer. The tutor is grounded in the question,
+ * the canonical answer, the student's answer and the evaluation, and `history` carries the conversation so far.
+ */
+export const askTutor = async (question: Question, studentAnswer: string, result: EvaluationResult, history: TutorMessage[], message: string): Promise<string> => {
+  const systemInstruction = `
+    You are a patient, encouraging CBSE Class 11 tutor. A student has just had an answer graded and wants to understand the feedback.
+    Ground every reply in the material below. If the student asks about something unrelated to this question, gently steer them back.
+    Explain why, not just what: point to the exact words in the student's answer that were right, wrong or missing.
+    Do not simply hand over the canonical answer; guide the student towards it.
+    Keep replies under 120 words, in plain text without markdown, because they may be read aloud.
+    ${MATH_FORMAT}
+
+    **Question (${question.maxMarks} marks):**
+    "${question.prompt}"
+
+    **Canonical Answer:**
+    "${question.canonicalAnswer}"
+
+    **Student's Answer:**
+    "${studentAnswer}"
+
+    **Evaluation:**
+    Marks awarded: ${result.score} / ${question.maxMarks}
+    Feedback: ${result.feedback}
+    Missing concepts: ${result.missingConcepts.join('; ') || 'none'}
+    Terminology corrections: ${result.terminologyCorrections.join('; ') || 'none'}
+    ${result.diagramFeedback ? `Diagram and labels (the answer was handwritten and photographed): ${result.diagramFeedback}` : ''}
+  `;
+  const contents = [
+    ...history.map(m => ({ role: m.role === 'student' ? 'user' : 'model', parts: [{ text: m.text }] })),
+    { role: 'user', parts: [{ text: message }] },
+  ];
+
+  try {
+    const client = getClient();
+    return await requestWithRetry(async (abortSignal) => {
+      const response = await client.models.generateContent({
+        model: GEMINI_MODEL,
+        contents,
+        config: {
+          systemInstruction,
+          temperature: 0.5,
+          abortSignal,
+        },
+      });
+      const reply = response.text?.trim();
+      if (!reply) {
+        throw new InvalidResponseError('empty reply');
+      }
+      return reply;
+    });
+
+  } catch (error) {
+    console.error("Error asking the tutor via Gemini API:", error);
+    throw classifyError(error);
+  }
+};
+
+// An objective question as it appears in the paper, with its key, for the explanation prompt.
+const describeObjective = (question: Question): string => {
+  const spec = question.objective!;
+  if (spec.type === 'match') {
+    return `Column A:\n${spec.columnA.map((item, i) => `${optionLabel(i)} ${item}`).join('\n')}
+    Column B:\n${spec.columnB.map((item, i) => `${columnBLabel(i)} ${item}`).join('\n')}
+    Correct matches: ${spec.answer.map((b, a) => `${optionLabel(a)} → ${columnBLabel(b)}`).join(', ')}`;
+  }
+  const statements = spec.type === 'assertion-reason' ? `Assertion (A): ${spec.assertion}\n    Reason (R): ${spec.reason}\n    ` : '';
+  return `${statements}Options:\n${choiceOptions(spec).map((option, i) => `${optionLabel(i)} ${option}`).join('\n')}
+    Correct option: ${optionLabel(spec.answer)}`;
+};
+
+/**
+ * Explains, on request, why the wrong choices of an objective question are wrong, starting with the
+ * student's own. Objective questions are graded locally, so this is the only AI call they make.
+ */
+export const explainObjectiveAnswer = async (question: Question, studentAnswer: string): Promise<string> => {
+  const prompt = `
+    You are a patient CBSE Class 11 tutor. A student answered this objective question and wants to understand the options.
+
+    **Question:**
+    "${question.prompt}"
+    ${describeObjective(question)}
+
+    **Explanation of the correct answer:**
+    "${question.canonicalAnswer}"
+
+    **Student's Answer:**
+    "${studentAnswer || 'no answer'}"
+
+    Explain in under 150 words why each wrong ${question.objective!.type === 'match' ? 'match the student made' : 'option'} is wrong, starting with the student's choice if it was wrong, and what misconception would lead someone to it. Refer to options by their labels. Plain text without markdown.
+    ${MATH_FORMAT}
+  `;
+  try {
+    const client = getClient();
+    return await requestWithRetry(async (abortSignal) => {
+      const response = await client.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: [{ parts: [{ text: prompt }] }],
+        config: {
+          temperature: 0.4,
+          abortSignal,
+        },
+      });
+      const explanation = response.text?.trim();
+      if (!explanation) {
+        throw new InvalidResponseError('empty explanation');
+      }
+      return explanation;
+    });
+
+  } catch (error) {
+    console.error("Error explaining the options via Gemini API:", error);
+    throw classifyError(error);
+  }
+};
+
+const variantsSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      prompt: { type: Type.STRING, description: 'The question, worded originally rather than copied from the examples.' },
+      canonicalAnswer: { type: Type.STRING, description: 'A complete model answer at CBSE Class 11 level, covering every point needed for full marks.' },
+      maxMarks: { type: Type.INTEGER, description: 'The marks the question carries.' },
+    },
+    required: ['prompt', 'canonicalAnswer', 'maxMarks'],
+  },
+};
+
+export type GeneratedQuestion = Pick<Question, 'prompt' | 'canonicalAnswer' | 'maxMarks'>;
+
+/**
+ * Asks Gemini for new questions on a chapter at one difficulty, using the chapter's existing
+ * questions as examples of scope and style. The results are unreviewed and have no ids yet.
+ */
+export const generateQuestionVariants = async (subject: string, chapter: string, difficulty: Difficulty, existing: Question[], count: number, maxMarks: number): Promise<GeneratedQuestion[]> => {
+  const examples = existing.map(q => `    - (${q.maxMarks} marks) ${q.prompt}\n      Answer: ${q.canonicalAnswer}`).join('\n');
+
+  const prompt = `
+    You are an experienced CBSE Class 11 ${subject} teacher setting questions for the chapter "${chapter}".
+    Write ${count} new ${difficulty.toLowerCase()}-level questions, each worth ${maxMarks} marks, with a canonical answer for each.
+
+    **Existing questions for this chapter and difficulty (match their scope and style, but do not repeat or rephrase them):**
+${examples || '    (none yet)'}
+
+    **Requirements:**
+    - Every question must be originally worded and test a different idea from the existing questions and from each other.
+    - Stay within the CBSE Class 11 syllabus for this chapter.
+    - The canonical answer must be factually correct and contain exactly the points a CBSE examiner would expect for ${maxMarks} marks.
+    - ${MATH_FORMAT}
+    - Return a JSON array of objects with "prompt", "canonicalAnswer" and "maxMarks".
+  `;
+
+  try {
+    const client = getClient();
+    const result: unknown[] = await requestWithRetry(async (abortSignal) => {
+      const response = await client.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: [{ parts: [{ text: prompt }] }],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: variantsSchema,
+          temperature: 0.9,
+          abortSignal,
+        },
+      });
+      const parsed = readJson(response.text);
+      if (!Array.isArray(parsed)) {
+        throw new InvalidResponseError('expected a list of questions');
+      }
+      return parsed;
+    // Writing several questions takes longer than grading one answer.
+    }, { timeoutMs: 60_000 });
+    return result
+      .filter((item): item is Record<string, unknown> & { prompt: string; canonicalAnswer: string } =>
+        isObject(item) && typeof item.prompt === 'string' && typeof item.canonicalAnswer === 'string' && !!item.prompt.trim() && !!item.canonicalAnswer.trim())
+      .map(item => ({
+        prompt: item.prompt.trim(),
+        canonicalAnswer: item.canonicalAnswer.trim(),
+        maxMarks: typeof item.maxMarks === 'number' && item.maxMarks > 0 ? Math.round(item.maxMarks) : maxMarks,
+      }));
+
+  } catch (error) {
+    console.error("Error generating questions with Gemini API:", error);
+    throw classifyError(error);
+  }
+};
@@ -0,0 +1,22 @@
+// FNV-1a over UTF-16 code units, run twice with different offsets for a 64-bit result. Not a
+// cryptographic hash, only a stand-in where Web Crypto is missing.
+const fnv1a64 = (text: string): string => {
+  let a = 0x811c9dc5;
+  let b = 0x9e3779b9;
+  for (let i = 0; i < text.length; i++) {
+    a = Math.imul(a ^ text.charCodeAt(i), 0x01000193);
+    b = Math.imul(b ^ text.charCodeAt(i), 0x01000193);
+  }
+  return [a, b].map(h => (h >>> 0).toString(16).padStart(8, '0')).join('');
+};
+
+/**
+ * Hex-encoded SHA-256 digest of a string. `crypto.subtle` only exists in secure contexts, so when the
+ * app is served over plain HTTP (e.g. to other machines on a lab network) this falls back to FNV-1a.
+ * Each origin has its own storage, so hashes from the two never meet.
+ */
+export const sha256 = async (text: string): Promise<string> => {
+  if (!globalThis.crypto?.subtle) return fnv1a64(text);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
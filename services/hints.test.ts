@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { EvaluationResult, Question } from '../types';
+import { applyHintDeduction, buildHints, totalHintDeduction } from './hints';
+
+const question = (maxMarks: number): Question => ({
+  id: 'TEST-1',
+  prompt: 'What does the mitochondrion do?',
+  canonicalAnswer: 'Mitochondria release energy from food. They are the site of aerobic respiration.',
+  maxMarks,
+});
+
+const result = (score: number): EvaluationResult => ({
+  score,
+  feedback: '',
+  isCorrect: true,
+  missingConcepts: [],
+  terminologyCorrections: [],
+  modelAnswerImprovement: '',
+});
+
+describe('totalHintDeduction', () => {
+  it('rounds the deduction for all the hints once, to the nearest half mark', () => {
+    expect(totalHintDeduction(question(2), 3)).toBe(1);
+    expect(totalHintDeduction(question(5), 2)).toBe(1.5);
+    expect(totalHintDeduction(question(5), 3)).toBe(2.5);
+  });
+
+  it('labels each hint with what it adds to the total', () => {
+    const hints = buildHints(question(5));
+
+    expect(hints.map(h => h.deduction)).toEqual([0.5, 1, 1]);
+    expect(hints.reduce((acc, h) => acc + h.deduction, 0)).toBe(totalHintDeduction(question(5), 3));
+  });
+});
+
+describe('applyHintDeduction', () => {
+  it('never takes off more than the answer scored', () => {
+    expect(applyHintDeduction(question(5), result(1), 3)).toMatchObject({ result: { score: 0 }, deduction: 1 });
+  });
+});
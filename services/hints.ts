@@ -0,0 +1,71 @@
+import { Question, EvaluationResult } from '../types';
+import { CORRECT_SCORE_THRESHOLD, HINT_DEDUCTIONS } from '../constants';
+import { keyTerms } from './offlineEvaluator';
+
+// Tiered hints built from a question's canonical answer, each one giving away more than the last:
+// a nudge towards the key terms, an outline of how the answer is structured, then part of the answer itself.
+
+export interface Hint {
+  text: string;
+  // Marks this hint costs if it's opened.
+  deduction: number;
+}
+
+const KEYWORD_NUDGE_TERMS = 3;
+const OUTLINE_WORDS = 4;
+
+// CBSE awards marks in halves, so the deduction for all the hints opened is rounded once, to the nearest half mark.
+export const totalHintDeduction = (question: Question, hintsUsed: number): number =>
+  Math.round(question.maxMarks * HINT_DEDUCTIONS.slice(0, hintsUsed).reduce((a, b) => a + b, 0) * 2) / 2;
+
+// What opening the hint at `tier` adds to the deduction for the ones before it.
+export const hintDeduction = (question: Question, tier: number): number =>
+  totalHintDeduction(question, tier + 1) - totalHintDeduction(question, tier);
+
+const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+/).map(s => s.trim().replace(/[.!?]$/, '')).filter(Boolean);
+
+const occurrences = (text: string, word: string): number => text.toLowerCase().split(word).length - 1;
+
+/**
+ * The hints for a question, in the order they are revealed. Objective questions get none: part of the
+ * answer would give the key away, and the deductions would outweigh a one-mark question.
+ */
+export const buildHints = (question: Question): Hint[] => {
+  if (question.objective) return [];
+  const concepts = splitSentences(question.canonicalAnswer);
+  const promptStems = new Set(keyTerms(question.prompt).keys());
+
+  // Terms the prompt doesn't already mention say the most. Of those, the ones the answer keeps coming back
+  // to come first, and longer words, which tend to be the technical ones, break ties.
+  const nudgeTerms = Array.from(keyTerms(question.canonicalAnswer))
+    .filter(([stemmed]) => !promptStems.has(stemmed))
+    .map(([, word]) => word)
+    .sort((a, b) => occurrences(question.canonicalAnswer, b) - occurrences(question.canonicalAnswer, a) || b.length - a.length)
+    .slice(0, KEYWORD_NUDGE_TERMS);
+  const nudge = nudgeTerms.length > 0
+    ? `Think about these terms: ${nudgeTerms.join(', ')}.`
+    : 'Re-read the question and pick out the key term it asks you to explain.';
+
+  const outline = question.markingScheme && question.markingScheme.length > 0
+    ? `A full answer covers ${question.markingScheme.length} points: ${question.markingScheme.map((p, i) => `(${i + 1}) ${p.description}`).join(' ')}`
+    : `A full answer makes ${concepts.length} point${concepts.length === 1 ? '' : 's'}, beginning: ${concepts.map(c => `"${c.split(/\s+/).slice(0, OUTLINE_WORDS).join(' ')}…"`).join(', ')}.`;
+
+  // Half the points, or half the words when the answer is a single point, so the hint never gives it all away.
+  const words = question.canonicalAnswer.split(/\s+/);
+  const partial = concepts.length > 1
+    ? `The answer starts like this: ${concepts.slice(0, Math.ceil(concepts.length / 2)).join('. ')}. Complete the rest yourself.`
+    : `The answer starts like this: ${words.slice(0, Math.ceil(words.length / 2)).join(' ')}…`;
+
+  return [nudge, outline, partial].map((text, tier) => ({ text, deduction: hintDeduction(question, tier) }));
+};
+
+/** Takes the marks for `hintsUsed` hints off an evaluation. An answer that drops below the pass mark is no longer correct. */
+export const applyHintDeduction = (question: Question, result: EvaluationResult, hintsUsed: number): { result: EvaluationResult; deduction: number } => {
+  if (hintsUsed <= 0) return { result, deduction: 0 };
+  const score = Math.max(0, result.score - totalHintDeduction(question, hintsUsed));
+  return {
+    result: { ...result, score, isCorrect: result.isCorrect && score >= question.maxMarks * CORRECT_SCORE_THRESHOLD },
+    deduction: result.score - score,
+  };
+};
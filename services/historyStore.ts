@@ -0,0 +1,166 @@
+import { SessionRecord, ProgressRecord } from '../types';
+
+// Local, versioned persistence for completed sessions and cross-session progress (streaks).
+// Backed by IndexedDB so history survives restarts and isn't limited by localStorage quotas.
+// Sessions carry the id of the profile they belong to, and progress is stored under that id.
+
+const DB_NAME = 'cbse-tutor';
+const SESSIONS_STORE = 'sessions';
+const PROGRESS_STORE = 'progress';
+// Where progress was kept before profiles existed; it now belongs to whichever profile adopts it.
+const LEGACY_PROGRESS_KEY = 'progress';
+const LEGACY_STREAK_KEY = 'streak';
+
+// Shape version of the records themselves; bump together with a record upgrade in `upgradeSessionRecord`.
+export const SESSION_SCHEMA_VERSION = 3;
+
+const DEFAULT_PROGRESS: ProgressRecord = { streak: 0, longestStreak: 0 };
+
+/**
+ * Database migrations, keyed by the version they upgrade to. Each one runs inside the
+ * `versionchange` transaction, in order, for every version between the stored one and `DB_VERSION`.
+ * Never edit a released migration; add a new one and bump `DB_VERSION`.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db, tx) => {
+    const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+    sessions.createIndex('completedAt', 'completedAt');
+    sessions.createIndex('subject', 'subject');
+    db.createObjectStore(PROGRESS_STORE);
+
+    // Carry over the streak that earlier versions kept in localStorage.
+    const legacyStreak = parseInt(localStorage.getItem(LEGACY_STREAK_KEY) ?? '', 10);
+    if (!Number.isNaN(legacyStreak)) {
+      tx.objectStore(PROGRESS_STORE).put({ streak: legacyStreak, longestStreak: legacyStreak }, LEGACY_PROGRESS_KEY);
+      localStorage.removeItem(LEGACY_STREAK_KEY);
+    }
+  },
+  2: (_db, tx) => {
+    // Sessions recorded before profiles have no profileId, so they stay out of this index until adopted.
+    tx.objectStore(SESSIONS_STORE).createIndex('profileId', 'profileId');
+  },
+};
+
+const DB_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction;
+      if (!tx) return;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version]?.(db, tx);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('The history database is open in another tab with an older version.'));
+  });
+  // Allow a later call to try again if opening failed.
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completeTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const withStore = async <T,>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const result = requestToPromise(fn(tx.objectStore(storeName)));
+  await completeTransaction(tx);
+  return result;
+};
+
+// Upgrades a record written by an older version of the app to the current shape.
+const upgradeSessionRecord = (record: SessionRecord): SessionRecord => {
+  let upgraded = record;
+  if (upgraded.schemaVersion < 2) {
+    // Version 1 predates review mode; every session then was a single-chapter practice.
+    upgraded = { ...upgraded, mode: 'practice' };
+  }
+  // Version 3 adds profileId, which `adoptLegacyHistory` fills in; there is nothing to derive it from here.
+  return { ...upgraded, schemaVersion: SESSION_SCHEMA_VERSION };
+};
+
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const saveSession = async (session: Omit<SessionRecord, 'id' | 'schemaVersion'>): Promise<SessionRecord> => {
+  const record: SessionRecord = { ...session, id: createId(), schemaVersion: SESSION_SCHEMA_VERSION };
+  await withStore(SESSIONS_STORE, 'readwrite', store => store.put(record));
+  return record;
+};
+
+// Replaces a saved session, e.g. after a failed evaluation has been retried from the summary.
+export const updateSession = async (record: SessionRecord): Promise<void> => {
+  await withStore(SESSIONS_STORE, 'readwrite', store => store.put(record));
+};
+
+/** A profile's recorded sessions, most recent first. */
+export const listSessions = async (profileId: string): Promise<SessionRecord[]> => {
+  const records = await withStore<SessionRecord[]>(SESSIONS_STORE, 'readonly', store => store.index('profileId').getAll(profileId));
+  return records.map(upgradeSessionRecord).sort((a, b) => b.completedAt - a.completedAt);
+};
+
+export const getProgress = async (profileId: string): Promise<ProgressRecord> => {
+  const progress = await withStore<ProgressRecord | undefined>(PROGRESS_STORE, 'readonly', store => store.get(profileId));
+  return { ...DEFAULT_PROGRESS, ...progress };
+};
+
+export const saveProgress = async (profileId: string, progress: ProgressRecord): Promise<void> => {
+  await withStore(PROGRESS_STORE, 'readwrite', store => store.put(progress, profileId));
+};
+
+/**
+ * Hands the history recorded before profiles existed (sessions without a profileId and the old
+ * global streak) to the given profile. Called once, when the first profile is created.
+ */
+export const adoptLegacyHistory = async (profileId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, PROGRESS_STORE], 'readwrite');
+  const sessions = tx.objectStore(SESSIONS_STORE);
+  const progress = tx.objectStore(PROGRESS_STORE);
+  const done = completeTransaction(tx);
+
+  const records = await requestToPromise<SessionRecord[]>(sessions.getAll());
+  records.filter(record => !record.profileId).forEach(record => sessions.put({ ...record, profileId }));
+  const legacyProgress = await requestToPromise<ProgressRecord | undefined>(progress.get(LEGACY_PROGRESS_KEY));
+  if (legacyProgress) {
+    progress.put(legacyProgress, profileId);
+    progress.delete(LEGACY_PROGRESS_KEY);
+  }
+  await done;
+};
+
+/** Removes every session and the progress record belonging to a profile. */
+export const deleteProfileHistory = async (profileId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, PROGRESS_STORE], 'readwrite');
+  const done = completeTransaction(tx);
+  const keys = await requestToPromise(tx.objectStore(SESSIONS_STORE).index('profileId').getAllKeys(profileId));
+  keys.forEach(key => tx.objectStore(SESSIONS_STORE).delete(key));
+  tx.objectStore(PROGRESS_STORE).delete(profileId);
+  await done;
+};
@@ -0,0 +1,44 @@
+import { Question, EvaluationResult, AwardedPoint } from '../types';
+import { CORRECT_SCORE_THRESHOLD } from '../constants';
+
+/**
+ * Reconciles the points an evaluator says it awarded with the question's marking scheme:
+ * one entry per value point, marks clamped to what the point is worth, and the total score
+ * recomputed from the points so it can be audited against the scheme.
+ * An answer that misses a mandatory point is never marked correct.
+ */
+export const applyMarkingScheme = (question: Question, result: EvaluationResult, awarded: AwardedPoint[]): EvaluationResult => {
+  const scheme = question.markingScheme;
+  if (!scheme || scheme.length === 0) {
+    return result;
+  }
+
+  const awardedPoints = scheme.map(point => {
+    const match = awarded.find(a => a.pointId === point.id);
+    const marksAwarded = match ? Math.max(0, Math.min(point.marks, match.marksAwarded)) : 0;
+    return { pointId: point.id, marksAwarded };
+  });
+
+  const score = Math.min(question.maxMarks, awardedPoints.reduce((acc, p) => acc + p.marksAwarded, 0));
+  const missedMandatory = scheme.some((point, i) => point.mandatory && awardedPoints[i].marksAwarded === 0);
+
+  return {
+    ...result,
+    score,
+    isCorrect: !missedMandatory && score >= question.maxMarks * CORRECT_SCORE_THRESHOLD,
+    awardedPoints,
+  };
+};
+
+export const describeMarkingScheme = (question: Question): string => {
+  if (!question.markingScheme || question.markingScheme.length === 0) {
+    return '';
+  }
+  return question.markingScheme
+    .map(point => {
+      const synonyms = point.synonyms.length > 0 ? ` (also accept: ${point.synonyms.join(', ')})` : '';
+      const mandatory = point.mandatory ? ' [MANDATORY]' : '';
+      return `- ${point.id}: ${point.description} — ${point.marks} mark(s)${mandatory}${synonyms}`;
+    })
+    .join('\n');
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { splitMath } from './mathText';
+
+describe('splitMath', () => {
+  it('splits inline and display math from the text around it', () => {
+    expect(splitMath('Use $F = ma$, then $$a = \\frac{F}{m}$$')).toEqual([
+      { kind: 'text', text: 'Use ' },
+      { kind: 'math', tex: 'F = ma', display: false },
+      { kind: 'text', text: ', then ' },
+      { kind: 'math', tex: 'a = \\frac{F}{m}', display: true },
+    ]);
+  });
+
+  it('leaves prices and escaped dollars as text', () => {
+    expect(splitMath('costs $5 and $10, or \\$3')).toEqual([{ kind: 'text', text: 'costs $5 and $10, or $3' }]);
+  });
+
+  // A streamed evaluation has no feedback until the model starts writing it.
+  it('has no segments for a missing or empty text', () => {
+    expect(splitMath(undefined)).toEqual([]);
+    expect(splitMath('')).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+// Math in question text, answers and feedback, written in LaTeX between the usual delimiters:
+// $...$ or \(...\) inline, $$...$$ or \[...\] on a line of its own. A literal dollar sign is written \$.
+
+export type MathSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'math'; tex: string; display: boolean };
+
+const DELIMITERS: { open: string; close: string; display: boolean }[] = [
+  { open: '$$', close: '$$', display: true },
+  { open: '\\[', close: '\\]', display: true },
+  { open: '\\(', close: '\\)', display: false },
+];
+
+// Index of the "$" closing inline math that opens at `from`, or -1. Like Pandoc, "$" only opens before a
+// non-space and closes after one, and not before a digit, so "costs $5 and $10" stays text.
+const closingDollar = (text: string, from: number): number => {
+  if (/\s/.test(text[from + 1] ?? ' ')) return -1;
+  for (let i = from + 2; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '$') return /\s/.test(text[i - 1]) || /\d/.test(text[i + 1] ?? '') ? -1 : i;
+  }
+  return -1;
+};
+
+/** Splits text into plain and math segments. Unclosed delimiters are left as text; a missing text has no segments. */
+export const splitMath = (text: string | undefined): MathSegment[] => {
+  if (!text) return [];
+  const segments: MathSegment[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) segments.push({ kind: 'text', text: plain });
+    plain = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    if (text.startsWith('\\$', i)) {
+      plain += '$';
+      i += 2;
+      continue;
+    }
+    const delimiter = DELIMITERS.find(d => text.startsWith(d.open, i));
+    const end = delimiter ? text.indexOf(delimiter.close, i + delimiter.open.length) : -1;
+    if (delimiter && end > i + delimiter.open.length) {
+      flush();
+      segments.push({ kind: 'math', tex: text.slice(i + delimiter.open.length, end).trim(), display: delimiter.display });
+      i = end + delimiter.close.length;
+      continue;
+    }
+    const close = text[i] === '$' && !delimiter ? closingDollar(text, i) : -1;
+    if (close > 0) {
+      flush();
+      segments.push({ kind: 'math', tex: text.slice(i + 1, close), display: false });
+      i = close + 1;
+      continue;
+    }
+    plain += text[i];
+    i++;
+  }
+  flush();
+  return segments;
+};
+
+export const hasMath = (text: string): boolean => splitMath(text).some(s => s.kind === 'math');
+
+const TEX_SYMBOLS: Record<string, string> = {
+  times: '×', cdot: '·', div: '÷', pm: '±', approx: '≈', propto: '∝', neq: '≠', leq: '≤', geq: '≥',
+  rightarrow: '→', to: '→', infty: '∞', Delta: 'Δ', theta: 'θ', omega: 'ω', pi: 'π', alpha: 'α',
+  beta: 'β', gamma: 'γ', lambda: 'λ', mu: 'μ', rho: 'ρ', tau: 'τ', phi: 'φ', epsilon: 'ε', sigma: 'σ',
+};
+
+/**
+ * Math as readable plain text, for speech and keyword matching: "$g = \frac{GM}{R^2}$" becomes
+ * "g = (GM)/(R^2)". Commands it doesn't know are dropped, keeping their arguments.
+ */
+export const mathToPlain = (text: string): string =>
+  splitMath(text).map(segment => segment.kind === 'text' ? segment.text : segment.tex
+    .replace(/\\d?frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g, '($1)/($2)')
+    .replace(/\\sqrt\s*\{([^{}]*)\}/g, '√($1)')
+    .replace(/\\(?:left|right|quad)(?![A-Za-z])|\\[,;!]/g, ' ')
+    .replace(/\\([A-Za-z]+)/g, (_, name: string) => TEX_SYMBOLS[name] ?? '')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim(),
+  ).join('');
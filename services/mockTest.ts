@@ -0,0 +1,78 @@
+import { Difficulty, MockTestBlueprint, Question } from '../types';
+import { getSubjects } from './questionBank';
+
+export const blueprintTotalMarks = (questionsByMarks: Record<number, number>): number =>
+  Object.entries(questionsByMarks).reduce((acc, [marks, count]) => acc + Number(marks) * count, 0);
+
+const shuffle = <T,>(array: T[]): T[] => {
+  const result = [...array];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Splits `count` questions across chapters in proportion to their weights (largest remainder method).
+const allocate = (count: number, weights: Array<{ chapter: string; weight: number }>): Map<string, number> => {
+  const totalWeight = weights.reduce((acc, w) => acc + w.weight, 0);
+  const shares = weights.map(w => ({ chapter: w.chapter, exact: totalWeight > 0 ? (count * w.weight) / totalWeight : 0 }));
+  const allocation = new Map(shares.map(s => [s.chapter, Math.floor(s.exact)]));
+  let remaining = count - Array.from(allocation.values()).reduce((acc, n) => acc + n, 0);
+  const byRemainder = [...shares].sort((a, b) => (b.exact - Math.floor(b.exact)) - (a.exact - Math.floor(a.exact)));
+  for (let i = 0; remaining > 0 && byRemainder.length > 0; i = (i + 1) % byRemainder.length, remaining--) {
+    const chapter = byRemainder[i].chapter;
+    allocation.set(chapter, (allocation.get(chapter) ?? 0) + 1);
+  }
+  return allocation;
+};
+
+/**
+ * Builds a single paper from a blueprint: for each mark value, questions are spread across the
+ * chosen chapters by weightage and drawn from every difficulty. A chapter that runs short is topped up
+ * from the others. Throws if the blueprint is inconsistent or the bank can't fill it.
+ */
+export const buildMockTest = (blueprint: MockTestBlueprint): Question[] => {
+  const subject = getSubjects()[blueprint.subject];
+  if (!subject) throw new Error("Subject not found");
+
+  const chapters = blueprint.chapters.length > 0
+    ? subject.chapters.filter(c => blueprint.chapters.includes(c.name))
+    : subject.chapters;
+  if (chapters.length === 0) throw new Error("Select at least one chapter for the mock test.");
+
+  const computedTotal = blueprintTotalMarks(blueprint.questionsByMarks);
+  if (computedTotal === 0) throw new Error("The blueprint doesn't ask for any questions.");
+  if (computedTotal !== blueprint.totalMarks) {
+    throw new Error(`The blueprint adds up to ${computedTotal} marks, but the paper should total ${blueprint.totalMarks}.`);
+  }
+
+  const weights = chapters.map(c => ({ chapter: c.name, weight: Math.max(0, blueprint.chapterWeightage[c.name] ?? 1) }));
+  const paper: Question[] = [];
+
+  Object.entries(blueprint.questionsByMarks)
+    .map(([marks, count]) => [Number(marks), count] as const)
+    .filter(([, count]) => count > 0)
+    .sort(([a], [b]) => a - b)
+    .forEach(([marks, count]) => {
+      const pools = new Map(chapters.map(c => [
+        c.name,
+        shuffle(Object.values(Difficulty).flatMap(d => c.questions[d]).filter(q => q.maxMarks === marks)),
+      ]));
+
+      const picked: Question[] = [];
+      allocate(count, weights).forEach((wanted, chapter) => {
+        picked.push(...(pools.get(chapter) ?? []).splice(0, wanted));
+      });
+
+      const leftovers = shuffle(Array.from(pools.values()).flat());
+      picked.push(...leftovers.slice(0, count - picked.length));
+
+      if (picked.length < count) {
+        throw new Error(`Only ${picked.length} of the ${count} ${marks}-mark questions needed are available in the selected chapters.`);
+      }
+      paper.push(...picked);
+    });
+
+  return paper;
+};
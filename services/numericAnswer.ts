@@ -0,0 +1,205 @@
+import { AnswerImage, EvaluationResult, Evaluator, NumericAnswerSpec, NumericCheck, PartialEvaluation, Question } from '../types';
+import { CORRECT_SCORE_THRESHOLD, NUMERIC_SIG_FIG_PENALTY, NUMERIC_UNIT_PENALTY } from '../constants';
+import { normalizeSuperscripts, ParsedUnit, parseUnit, sameDimensions } from './units';
+
+// Deterministic marking of the final numerical answer of computational questions. The student's last
+// number is read together with its unit, converted to SI and compared within the question's tolerance,
+// so arithmetic and units are never left to the evaluator's judgement.
+
+interface NumberCandidate {
+  text: string;
+  mantissa: string;
+  value: number;
+  // Null when no unit follows the number.
+  unit: ParsedUnit | null;
+}
+
+// A number with optional thousands separators, decimals and a power of ten ("2.96 × 10^5", "1.2e-3").
+const NUMBER = /(?<![\w.^])([-−]?(?:\d{1,3}(?:,\d{2,3})+|\d+)(?:\.\d+)?|[-−]?\.\d+)(?:\s*(?:[x×*]|times)\s*10\s*(?:\^|\*\*)\s*([-−+]?\d+)|[eE]([-+]?\d+))?/g;
+
+// Where the text that may hold a number's unit ends.
+const UNIT_END = /[,;:=≈\n]|\.(?:\s|$)|\s(?:and|to|in|towards|which|so|because|is|are)\b/;
+
+const POWER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'];
+
+// Spoken powers of ten: "2.96 times ten to the power five".
+const SPOKEN_POWER = new RegExp(`\\s*(?:times|into|x|×)\\s*(?:10|ten)\\s*(?:to the power(?: of)?|raised to(?: the power(?: of)?)?)\\s*(minus|negative|-)?\\s*(\\d+|${POWER_WORDS.join('|')})\\b`, 'gi');
+
+const formatNumber = (value: number): string =>
+  Math.abs(value) >= 1e5 || (value !== 0 && Math.abs(value) < 1e-3)
+    ? value.toExponential(2).replace(/e\+?(-?\d+)$/, ' × 10^$1')
+    : String(Number(value.toPrecision(6)));
+
+/**
+ * The longest run of words after a number that reads as a unit, or null if none does. Spoken unit names
+ * are only rewritten inside `parseUnit`, so the rest of the answer is read as written.
+ */
+const readUnit = (rest: string): { text: string; unit: ParsedUnit } | null => {
+  const end = rest.search(UNIT_END);
+  const words = (end >= 0 ? rest.slice(0, end) : rest).trim().split(/\s+/).filter(Boolean);
+  for (let n = words.length; n > 0; n--) {
+    const text = words.slice(0, n).join(' ');
+    const unit = parseUnit(text);
+    if (unit) return { text, unit };
+  }
+  return null;
+};
+
+const findNumbers = (answer: string): NumberCandidate[] => {
+  // Only powers of ten are rewritten here, spoken or in superscript ("10⁵"); they are part of the value.
+  const text = answer
+    .replace(SPOKEN_POWER, (_, minus, power: string) => {
+      const digits = /\d/.test(power) ? power : String(POWER_WORDS.indexOf(power.toLowerCase()));
+      return ` × 10^${minus ? '-' : ''}${digits}`;
+    })
+    .replace(/\b10[⁻⁰¹²³⁴⁵⁶⁷⁸⁹]+/g, normalizeSuperscripts);
+  const candidates: NumberCandidate[] = [];
+  for (const match of text.matchAll(NUMBER)) {
+    const mantissa = match[1].replace(/−/g, '-').replace(/,/g, '');
+    const exponent = (match[2] ?? match[3])?.replace(/−/g, '-');
+    const unit = readUnit(text.slice(match.index! + match[0].length));
+    candidates.push({
+      text: unit ? `${match[0]} ${unit.text}` : match[0],
+      mantissa,
+      value: Number(mantissa) * 10 ** Number(exponent ?? 0),
+      unit: unit?.unit ?? null,
+    });
+  }
+  return candidates;
+};
+
+/**
+ * Significant figures written in a number, as a range: trailing zeros in a whole number ("1200") may or
+ * may not be significant, so they widen the range instead of being counted either way.
+ */
+export const significantFigures = (mantissa: string): [number, number] => {
+  const digits = mantissa.replace(/^[-+]/, '');
+  if (digits.includes('.')) {
+    const significant = digits.replace('.', '').replace(/^0+/, '');
+    return [significant.length, significant.length];
+  }
+  const whole = digits.replace(/^0+/, '');
+  return [whole.replace(/0+$/, '').length, whole.length];
+};
+
+const deduct = (marks: number, penalty: number) => Math.max(0, marks - penalty);
+
+/** Marks the final numerical answer in `studentAnswer` against the spec. */
+export const checkNumericAnswer = (spec: NumericAnswerSpec, studentAnswer: string): NumericCheck => {
+  const expectedUnit = parseUnit(spec.unit) ?? { factor: 1, dimensions: [0, 0, 0, 0, 0, 0] };
+  const expected = `${formatNumber(spec.value)}${spec.unit ? ` ${spec.unit}` : ''}`;
+  const base = { marks: spec.marks, valueCorrect: false, unitCorrect: false, significantFiguresCorrect: false, marksAwarded: 0 };
+
+  const candidates = findNumbers(studentAnswer);
+  // The final answer is the last number given in a unit of the right kind, or failing that the last number.
+  const final = [...candidates].reverse().find(c => c.unit && sameDimensions(c.unit, expectedUnit)) ?? candidates[candidates.length - 1];
+  if (!final) {
+    return {
+      ...base,
+      answer: null,
+      feedback: `No final numerical answer was found. End with the value${spec.unit ? ' and its unit' : ''}.`,
+    };
+  }
+
+  if (final.unit && !sameDimensions(final.unit, expectedUnit)) {
+    return {
+      ...base,
+      answer: final.text,
+      feedback: `Your final answer, ${final.text}, is in a unit that doesn't measure the same quantity as ${spec.unit || 'a pure number'}. The expected answer is ${expected}.`,
+    };
+  }
+
+  // Without a unit the number is read as being in the expected unit.
+  const unitOmitted = !final.unit && !!spec.unit;
+  const value = final.value * (final.unit ?? expectedUnit).factor;
+  const target = spec.value * expectedUnit.factor;
+  const valueCorrect = Math.abs(value - target) <= Math.abs(target) * spec.relativeTolerance + Number.EPSILON;
+  if (!valueCorrect) {
+    return {
+      ...base,
+      answer: final.text,
+      unitCorrect: !unitOmitted,
+      feedback: `Your final answer, ${final.text}, doesn't match the expected ${expected}. Recheck the substitution and arithmetic.`,
+    };
+  }
+
+  const [minFigures, maxFigures] = significantFigures(final.mantissa);
+  const significantFiguresCorrect = spec.significantFigures === undefined || (minFigures <= spec.significantFigures && spec.significantFigures <= maxFigures);
+  let marksAwarded = spec.marks;
+  const notes: string[] = [];
+  if (unitOmitted) {
+    marksAwarded = deduct(marksAwarded, NUMERIC_UNIT_PENALTY);
+    notes.push(`the unit is missing (${spec.unit})`);
+  }
+  if (!significantFiguresCorrect) {
+    marksAwarded = deduct(marksAwarded, NUMERIC_SIG_FIG_PENALTY);
+    notes.push(`it should be given to ${spec.significantFigures} significant figures`);
+  }
+  return {
+    ...base,
+    answer: final.text,
+    valueCorrect: true,
+    unitCorrect: !unitOmitted,
+    significantFiguresCorrect,
+    marksAwarded,
+    feedback: notes.length === 0
+      ? `Your final answer, ${final.text}, is correct.`
+      : `Your final value is right, but ${notes.join(' and ')}.`,
+  };
+};
+
+// What the final answer check adds to the list of missing concepts, so weak-concept analytics can track it.
+const numericGaps = (spec: NumericAnswerSpec, check: NumericCheck): string[] => [
+  ...(check.valueCorrect && !check.unitCorrect ? [`Unit of the final answer (${spec.unit})`] : []),
+  ...(check.valueCorrect && !check.significantFiguresCorrect ? [`Final answer to ${spec.significantFigures} significant figures`] : []),
+];
+
+const combine = (question: Question, spec: NumericAnswerSpec, working: EvaluationResult | null, check: NumericCheck): EvaluationResult => {
+  const score = (working?.score ?? 0) + check.marksAwarded;
+  return {
+    score,
+    feedback: working ? working.feedback : check.feedback,
+    // A wrong final value can't be a correct answer, however good the working.
+    isCorrect: check.valueCorrect && score >= question.maxMarks * CORRECT_SCORE_THRESHOLD,
+    missingConcepts: [...(working?.missingConcepts ?? []), ...numericGaps(spec, check)],
+    terminologyCorrections: working?.terminologyCorrections ?? [],
+    modelAnswerImprovement: working?.modelAnswerImprovement ?? '',
+    ...(working?.awardedPoints ? { awardedPoints: working.awardedPoints } : {}),
+    ...(working?.cached ? { cached: true } : {}),
+    numericCheck: check,
+  };
+};
+
+// The question as the evaluator sees it: only the working is left to grade, out of the remaining marks.
+const workingQuestion = (question: Question, spec: NumericAnswerSpec): Question => ({ ...question, maxMarks: question.maxMarks - spec.marks });
+
+// A handwritten final answer can't be read locally, so a photographed answer is graded whole by the evaluator.
+const withoutNumericAnswer = (question: Question): Question => ({ ...question, numericAnswer: undefined });
+
+/**
+ * Wraps an evaluator so questions with a numeric answer spec have their final answer marked locally.
+ * When the final answer carries all the marks, the evaluator isn't called at all.
+ */
+export const withNumericCheck = (evaluator: Evaluator): Evaluator => ({
+  ...evaluator,
+  evaluate: async (question, studentAnswer, images) => {
+    const spec = question.numericAnswer;
+    if (!spec) return evaluator.evaluate(question, studentAnswer, images);
+    if (images?.length && evaluator.acceptsImages) return evaluator.evaluate(withoutNumericAnswer(question), studentAnswer, images);
+    const check = checkNumericAnswer(spec, studentAnswer);
+    const working = spec.marks < question.maxMarks ? await evaluator.evaluate(workingQuestion(question, spec), studentAnswer, images) : null;
+    return combine(question, spec, working, check);
+  },
+  ...(evaluator.evaluateStreaming ? {
+    evaluateStreaming: async (question: Question, studentAnswer: string, onPartial: (partial: PartialEvaluation) => void, images?: AnswerImage[]) => {
+      const spec = question.numericAnswer;
+      if (!spec) return evaluator.evaluateStreaming!(question, studentAnswer, onPartial, images);
+      if (images?.length && evaluator.acceptsImages) return evaluator.evaluateStreaming!(withoutNumericAnswer(question), studentAnswer, onPartial, images);
+      const check = checkNumericAnswer(spec, studentAnswer);
+      if (spec.marks >= question.maxMarks) return combine(question, spec, null, check);
+      const working = await evaluator.evaluateStreaming!(workingQuestion(question, spec), studentAnswer, partial =>
+        onPartial(partial.score === undefined ? partial : { ...partial, score: partial.score + check.marksAwarded }), images);
+      return combine(question, spec, working, check);
+    },
+  } : {}),
+});
@@ -0,0 +1,98 @@
+import { AnswerImage, AssertionReasonSpec, EvaluationResult, Evaluator, MatchColumnsSpec, MultipleChoiceSpec, ObjectiveSpec, PartialEvaluation, Question } from '../types';
+import { ASSERTION_REASON_OPTIONS, CORRECT_SCORE_THRESHOLD } from '../constants';
+
+// Multiple choice, assertion-reason and match-the-columns questions are graded here, instantly and
+// without an evaluator call. Like labels, the choice travels as an ordinary answer string that reads the
+// way it would be written in the paper: "(b) Mitochondria", or one "(a) → (iii)" line per matched item.
+
+const ROMAN = ['i', 'ii', 'iii', 'iv', 'v', 'vi', 'vii', 'viii', 'ix', 'x', 'xi', 'xii'];
+
+/** "(a)", "(b)", ... for options and column A items. */
+export const optionLabel = (index: number): string => `(${String.fromCharCode(97 + index)})`;
+
+/** "(i)", "(ii)", ... for column B items. */
+export const columnBLabel = (index: number): string => `(${ROMAN[index] ?? index + 1})`;
+
+/** The options to choose from in a multiple choice or assertion-reason question. */
+export const choiceOptions = (spec: ObjectiveSpec): string[] =>
+  spec.type === 'mcq' ? spec.options : spec.type === 'assertion-reason' ? ASSERTION_REASON_OPTIONS : [];
+
+export const formatChoiceAnswer = (spec: ObjectiveSpec, index: number): string => `${optionLabel(index)} ${choiceOptions(spec)[index]}`;
+
+/** The chosen option's index, or null if none was chosen. */
+export const parseChoiceAnswer = (answer: string): number | null => {
+  const match = answer.trim().match(/^\(([a-z])\)/);
+  return match ? match[1].charCodeAt(0) - 97 : null;
+};
+
+/** The answer string for the column B item chosen for each column A item; empty when none is matched. */
+export const formatMatchAnswer = (matches: (number | null)[]): string =>
+  matches.flatMap((b, a) => b === null ? [] : [`${optionLabel(a)} → ${columnBLabel(b)}`]).join('\n');
+
+/** For each column A item, the index of the column B item matched to it, or null. */
+export const parseMatchAnswer = (answer: string, spec: MatchColumnsSpec): (number | null)[] => {
+  const matches: (number | null)[] = spec.columnA.map(() => null);
+  answer.split('\n').forEach(line => {
+    const match = line.match(/^\s*\(([a-z])\)\s*→\s*\(([ivx]+|\d+)\)/);
+    if (!match) return;
+    const a = match[1].charCodeAt(0) - 97;
+    const b = /\d/.test(match[2]) ? Number(match[2]) - 1 : ROMAN.indexOf(match[2]);
+    if (a < spec.columnA.length && b >= 0 && b < spec.columnB.length) matches[a] = b;
+  });
+  return matches;
+};
+
+// Ends a sentence with the option quoted in it, which may already end in a full stop.
+const sentence = (text: string): string => /[.!?]$/.test(text) ? text : `${text}.`;
+
+const gradeChoice = (question: Question, spec: MultipleChoiceSpec | AssertionReasonSpec, studentAnswer: string): EvaluationResult => {
+  const chosen = parseChoiceAnswer(studentAnswer);
+  const correct = chosen === spec.answer;
+  const expected = formatChoiceAnswer(spec, spec.answer);
+  return {
+    score: correct ? question.maxMarks : 0,
+    feedback: correct
+      ? `Correct: ${sentence(expected)} ${question.canonicalAnswer}`
+      : `${chosen === null ? 'No option was chosen.' : `You chose ${optionLabel(chosen)}.`} The answer is ${sentence(expected)} ${question.canonicalAnswer}`,
+    isCorrect: correct,
+    // A choice names no concept of its own, so weak-spot analytics are left to written answers.
+    missingConcepts: [],
+    terminologyCorrections: [],
+    modelAnswerImprovement: '',
+  };
+};
+
+// Each correct pair earns its share of the marks, rounded down to a half mark.
+const gradeMatch = (question: Question, spec: MatchColumnsSpec, studentAnswer: string): EvaluationResult => {
+  const matches = parseMatchAnswer(studentAnswer, spec);
+  const wrong = spec.answer.map((b, a) => ({ a, b })).filter(({ a, b }) => matches[a] !== b);
+  const score = Math.floor(2 * question.maxMarks * (spec.answer.length - wrong.length) / spec.answer.length) / 2;
+  // A missed pair is a concept in its own right ("Lysosome: Intracellular digestion"), without the option labels.
+  const pair = ({ a, b }: { a: number; b: number }) => `${spec.columnA[a]}: ${spec.columnB[b]}`;
+  return {
+    score,
+    feedback: wrong.length === 0
+      ? `All ${spec.answer.length} pairs are matched correctly. ${question.canonicalAnswer}`
+      : `${spec.answer.length - wrong.length} of ${spec.answer.length} pairs are matched correctly. ${question.canonicalAnswer}`,
+    isCorrect: score >= question.maxMarks * CORRECT_SCORE_THRESHOLD,
+    missingConcepts: wrong.map(pair),
+    terminologyCorrections: [],
+    modelAnswerImprovement: '',
+  };
+};
+
+const gradeObjective = (question: Question, spec: ObjectiveSpec, studentAnswer: string): EvaluationResult =>
+  spec.type === 'match' ? gradeMatch(question, spec, studentAnswer) : gradeChoice(question, spec, studentAnswer);
+
+/** Wraps an evaluator so objective questions are graded against their key instead. */
+export const withObjectiveCheck = (evaluator: Evaluator): Evaluator => ({
+  ...evaluator,
+  evaluate: async (question, studentAnswer, images) => question.objective
+    ? gradeObjective(question, question.objective, studentAnswer)
+    : evaluator.evaluate(question, studentAnswer, images),
+  ...(evaluator.evaluateStreaming ? {
+    evaluateStreaming: async (question: Question, studentAnswer: string, onPartial: (partial: PartialEvaluation) => void, images?: AnswerImage[]) => question.objective
+      ? gradeObjective(question, question.objective, studentAnswer)
+      : evaluator.evaluateStreaming!(question, studentAnswer, onPartial, images),
+  } : {}),
+});
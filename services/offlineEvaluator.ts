@@ -0,0 +1,174 @@
+import { Question, EvaluationResult, Evaluator, ValuePoint, AwardedPoint } from '../types';
+import { CORRECT_SCORE_THRESHOLD } from '../constants';
+import { applyMarkingScheme } from './markingScheme';
+import { mathToPlain } from './mathText';
+
+// A deterministic rubric grader that needs no network. It scores an answer by how many of the
+// key terms and concepts from the canonical answer it covers, so the same answer always gets the same marks.
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'from', 'with', 'into', 'onto',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'am', 'it', 'its', 'this', 'that', 'these', 'those', 'which',
+  'who', 'whom', 'whose', 'what', 'when', 'where', 'while', 'as', 'so', 'such', 'than', 'then', 'there', 'their',
+  'they', 'them', 'we', 'our', 'you', 'your', 'he', 'she', 'his', 'her', 'i', 'me', 'my', 'can', 'could', 'may',
+  'might', 'will', 'would', 'shall', 'should', 'must', 'do', 'does', 'did', 'has', 'have', 'had', 'not', 'no',
+  'also', 'both', 'each', 'other', 'any', 'all', 'some', 'more', 'most', 'very', 'called', 'known', 'refers',
+  'example', 'examples', 'eg', 'ie', 'etc', 'one', 'two', 'used', 'using', 'like', 'if', 'because', 'thus', 'hence',
+]);
+
+// Fraction of the canonical key terms an answer must cover to earn full marks.
+const FULL_MARKS_COVERAGE = 0.8;
+// A concept (clause of the canonical answer) counts as covered at this level of term overlap.
+const CONCEPT_COVERAGE = 0.5;
+
+const stem = (word: string): string => {
+  if (word.length <= 4) return word;
+  return word
+    .replace(/(ies)$/, 'y')
+    .replace(/(sses)$/, 'ss')
+    .replace(/([^s])s$/, '$1')
+    .replace(/(ing|ed|ly|tion|ment|ness)$/, '');
+};
+
+const tokenize = (text: string): string[] =>
+  mathToPlain(text)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, ' ')
+    .split(/[\s-]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+
+// Shared with the hint builder, which picks its keyword nudges and answer outline the same way.
+export const keyTerms = (text: string): Map<string, string> => {
+  const terms = new Map<string, string>();
+  for (const token of tokenize(text)) {
+    const stemmed = stem(token);
+    if (!terms.has(stemmed)) terms.set(stemmed, token);
+  }
+  return terms;
+};
+
+export const splitConcepts = (canonicalAnswer: string): string[] =>
+  canonicalAnswer
+    .split(/(?<=[.;:])\s+/)
+    .map(part => part.trim().replace(/[.;:]$/, ''))
+    .filter(part => keyTerms(part).size > 0);
+
+// Shared with labelling questions, which accept labels with a small spelling slip.
+export const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+};
+
+const coverageOf = (terms: Map<string, string>, answerStems: Set<string>): number => {
+  if (terms.size === 0) return 0;
+  let matched = 0;
+  terms.forEach((_, stemmed) => {
+    if (answerStems.has(stemmed)) matched++;
+  });
+  return matched / terms.size;
+};
+
+const normalizePhrase = (text: string): string => tokenize(text).map(stem).join(' ');
+
+// A value point is earned when the answer mentions one of its accepted synonyms or covers enough of its description.
+const isPointCovered = (point: ValuePoint, answerStems: Set<string>, normalizedAnswer: string): boolean => {
+  const synonymFound = point.synonyms.some(synonym => {
+    const phrase = normalizePhrase(synonym);
+    return phrase.length > 0 && ` ${normalizedAnswer} `.includes(` ${phrase} `);
+  });
+  return synonymFound || coverageOf(keyTerms(point.description), answerStems) >= CONCEPT_COVERAGE;
+};
+
+export const evaluateOffline = async (question: Question, studentAnswer: string): Promise<EvaluationResult> => {
+  const answerTerms = keyTerms(studentAnswer);
+
+  if (answerTerms.size === 0) {
+    return {
+      score: 0,
+      feedback: "Your answer doesn't contain any of the key terms we were looking for. Read the question again and try to explain the concept in your own words.",
+      isCorrect: false,
+      missingConcepts: [],
+      terminologyCorrections: [],
+      modelAnswerImprovement: '',
+    };
+  }
+
+  const answerStems = new Set(answerTerms.keys());
+  const canonicalTerms = keyTerms(question.canonicalAnswer);
+  const coverage = coverageOf(canonicalTerms, answerStems);
+  const score = Math.max(0, Math.min(question.maxMarks, Math.round((Math.min(1, coverage / FULL_MARKS_COVERAGE)) * question.maxMarks)));
+  const isCorrect = score >= question.maxMarks * CORRECT_SCORE_THRESHOLD;
+
+  let missingConcepts = splitConcepts(question.canonicalAnswer)
+    .filter(concept => coverageOf(keyTerms(concept), answerStems) < CONCEPT_COVERAGE);
+
+  const awardedPoints: AwardedPoint[] = [];
+  if (question.markingScheme && question.markingScheme.length > 0) {
+    const normalizedAnswer = normalizePhrase(studentAnswer);
+    const missedPoints: ValuePoint[] = [];
+    for (const point of question.markingScheme) {
+      const covered = isPointCovered(point, answerStems, normalizedAnswer);
+      awardedPoints.push({ pointId: point.id, marksAwarded: covered ? point.marks : 0 });
+      if (!covered) missedPoints.push(point);
+    }
+    missingConcepts = missedPoints.map(point => point.description);
+  }
+
+  // Likely misspellings of key terms: student words that are close to, but not the same as, a canonical term.
+  const terminologyCorrections: string[] = [];
+  answerTerms.forEach((studentWord, studentStem) => {
+    if (canonicalTerms.has(studentStem) || studentWord.length < 5) return;
+    for (const [canonicalStem, canonicalWord] of canonicalTerms) {
+      if (answerStems.has(canonicalStem) || canonicalWord.length < 5) continue;
+      if (editDistance(studentWord, canonicalWord) <= Math.max(1, Math.floor(canonicalWord.length / 5))) {
+        terminologyCorrections.push(`Instead of "${studentWord}", try using "${canonicalWord}".`);
+        break;
+      }
+    }
+  });
+
+  const graded = applyMarkingScheme(question, {
+    score,
+    feedback: '',
+    isCorrect,
+    missingConcepts,
+    terminologyCorrections: [],
+    modelAnswerImprovement: '',
+  }, awardedPoints);
+
+  let feedback: string;
+  if (graded.isCorrect) {
+    feedback = 'Well done! Your answer covers the key points expected for this question.';
+  } else if (graded.score > 0) {
+    feedback = 'Good attempt. Your answer covers some of the key points, but a few important ideas are missing or unclear. Review the points listed below.';
+  } else {
+    feedback = "Your answer doesn't match the key ideas for this question yet. Compare it with the model answer and focus on the core concept being asked.";
+  }
+  feedback += ' (Graded offline by keyword matching.)';
+
+  const modelAnswerImprovement = missingConcepts.length > 0
+    ? `Try adding a sentence such as: "${missingConcepts[0]}."`
+    : '';
+
+  return {
+    ...graded,
+    feedback,
+    terminologyCorrections,
+    modelAnswerImprovement,
+  };
+};
+
+export const offlineEvaluator: Evaluator = {
+  id: 'offline',
+  label: 'Offline rubric grader',
+  evaluate: evaluateOffline,
+};
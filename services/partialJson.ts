@@ -0,0 +1,147 @@
+// Parses the prefix of a JSON document that is still arriving, e.g. from a streamed model response.
+// Strings that have started are returned as far as they go; numbers and literals are only returned
+// once something after them shows they are complete, so a score of "1" is never read from "10".
+
+interface Parsed {
+  // Undefined when nothing usable has arrived for this value yet.
+  value: unknown;
+  complete: boolean;
+}
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+const NUMBER = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+
+/**
+ * Returns the value described by `text` so far, or undefined if not even its start has arrived.
+ * Throws a SyntaxError if the text can't be the start of a JSON document.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const fail = (): never => {
+    throw new SyntaxError(`Unexpected "${text[pos]}" at position ${pos} in streamed JSON`);
+  };
+
+  const parseString = (): Parsed => {
+    pos++;
+    let out = '';
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === '"') {
+        pos++;
+        return { value: out, complete: true };
+      }
+      if (ch !== '\\') {
+        out += ch;
+        pos++;
+        continue;
+      }
+      // An escape sequence cut off by the end of the chunk is left out until the rest arrives.
+      const next = text[pos + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = text.slice(pos + 2, pos + 6);
+        if (hex.length < 4) break;
+        out += String.fromCharCode(parseInt(hex, 16));
+        pos += 6;
+        continue;
+      }
+      out += ESCAPES[next] ?? next;
+      pos += 2;
+    }
+    pos = text.length;
+    return { value: out, complete: false };
+  };
+
+  const parseNumber = (): Parsed => {
+    NUMBER.lastIndex = pos;
+    const match = NUMBER.exec(text);
+    if (!match) {
+      if (text.slice(pos) === '-') return { value: undefined, complete: false };
+      return fail();
+    }
+    pos += match[0].length;
+    return pos < text.length ? { value: Number(match[0]), complete: true } : { value: undefined, complete: false };
+  };
+
+  const parseLiteral = (): Parsed => {
+    for (const [word, value] of Object.entries(LITERALS)) {
+      if (text.startsWith(word, pos)) {
+        pos += word.length;
+        return { value, complete: true };
+      }
+      if (word.startsWith(text.slice(pos))) {
+        pos = text.length;
+        return { value: undefined, complete: false };
+      }
+    }
+    return fail();
+  };
+
+  const parseArray = (): Parsed => {
+    pos++;
+    const items: unknown[] = [];
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) return { value: items, complete: false };
+      if (text[pos] === ']') {
+        pos++;
+        return { value: items, complete: true };
+      }
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      const item = parseValue();
+      if (item.value !== undefined) items.push(item.value);
+      if (!item.complete) return { value: items, complete: false };
+    }
+  };
+
+  const parseObject = (): Parsed => {
+    pos++;
+    const obj: Record<string, unknown> = {};
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) return { value: obj, complete: false };
+      if (text[pos] === '}') {
+        pos++;
+        return { value: obj, complete: true };
+      }
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      if (text[pos] !== '"') fail();
+      const key = parseString();
+      if (!key.complete) return { value: obj, complete: false };
+      skipWhitespace();
+      if (pos >= text.length) return { value: obj, complete: false };
+      if (text[pos] !== ':') fail();
+      pos++;
+      skipWhitespace();
+      if (pos >= text.length) return { value: obj, complete: false };
+      const value = parseValue();
+      if (value.value !== undefined) obj[key.value as string] = value.value;
+      if (!value.complete) return { value: obj, complete: false };
+    }
+  };
+
+  const parseValue = (): Parsed => {
+    skipWhitespace();
+    const ch = text[pos];
+    if (ch === undefined) return { value: undefined, complete: false };
+    if (ch === '{') return parseObject();
+    if (ch === '[') return parseArray();
+    if (ch === '"') return parseString();
+    if (ch === '-' || (ch >= '0' && ch <= '9')) return parseNumber();
+    return parseLiteral();
+  };
+
+  return parseValue().value;
+};
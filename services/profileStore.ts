@@ -0,0 +1,74 @@
+import { Profile, ProfileSettings } from '../types';
+import { EXAM_SECONDS_PER_MARK } from '../constants';
+import { sha256 } from './hash';
+import { adoptLegacyHistory, createId, deleteProfileHistory, getProgress, listSessions } from './historyStore';
+
+// Local student profiles for shared devices, kept in localStorage. A PIN keeps siblings out of each
+// other's profile; it is not a security boundary, since everything stays readable on the device.
+
+const PROFILES_KEY = 'profiles';
+const PROFILE_EXPORT_VERSION = 1;
+
+export const DEFAULT_PROFILE_SETTINGS: ProfileSettings = {
+  examSettings: { enabled: false, secondsPerMark: EXAM_SECONDS_PER_MARK, perQuestionLimit: false },
+  gradingMode: 'instant',
+};
+
+export const listProfiles = (): Profile[] => {
+  try {
+    const profiles: Profile[] = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]');
+    return profiles.map(p => ({ ...p, settings: { ...DEFAULT_PROFILE_SETTINGS, ...p.settings } }));
+  } catch (e) {
+    console.error("Failed to read profiles:", e);
+    return [];
+  }
+};
+
+const storeProfiles = (profiles: Profile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+const hashPin = (profileId: string, pin: string) => sha256(`${profileId}:${pin}`);
+
+/**
+ * Creates a profile, locked with `pin` if one is given. The first profile on a device also takes
+ * over the history and streak recorded before profiles existed.
+ */
+export const createProfile = async (name: string, avatar: string, pin: string | null): Promise<Profile> => {
+  const existing = listProfiles();
+  const id = createId();
+  const profile: Profile = {
+    id,
+    name: name.trim(),
+    avatar,
+    ...(pin ? { pinHash: await hashPin(id, pin) } : {}),
+    createdAt: Date.now(),
+    settings: DEFAULT_PROFILE_SETTINGS,
+  };
+  if (existing.length === 0) {
+    // Without IndexedDB (private mode, blocked storage) there is no history to adopt; the profile still works.
+    await adoptLegacyHistory(id).catch(e => console.error("Failed to adopt history recorded before profiles:", e));
+  }
+  storeProfiles([...existing, profile]);
+  return profile;
+};
+
+export const checkPin = async (profile: Profile, pin: string): Promise<boolean> =>
+  !profile.pinHash || profile.pinHash === await hashPin(profile.id, pin);
+
+export const saveProfileSettings = (profileId: string, settings: ProfileSettings) => {
+  storeProfiles(listProfiles().map(p => p.id === profileId ? { ...p, settings } : p));
+};
+
+/** Deletes a profile together with its sessions and streak. */
+export const deleteProfile = async (profileId: string): Promise<void> => {
+  await deleteProfileHistory(profileId);
+  storeProfiles(listProfiles().filter(p => p.id !== profileId));
+};
+
+/** Everything recorded for a profile as a JSON document, without its PIN. */
+export const exportProfile = async (profile: Profile): Promise<string> => {
+  const [sessions, progress] = await Promise.all([listSessions(profile.id), getProgress(profile.id)]);
+  const { pinHash, ...details } = profile;
+  return JSON.stringify({ version: PROFILE_EXPORT_VERSION, exportedAt: new Date().toISOString(), profile: details, progress, sessions }, null, 2);
+};
@@ -0,0 +1,167 @@
+import { Difficulty, SessionRecord, SessionAnswer } from '../types';
+import { getSubjects, locateQuestion } from './questionBank';
+
+// Cross-session progress for the dashboard: score trends per chapter and difficulty, how much of each
+// question pool has been seen, streaks and time on task. Everything is derived from the session history.
+
+export interface TrendPoint {
+  completedAt: number;
+  percentage: number;
+  questionCount: number;
+}
+
+export interface ChapterProgress {
+  subject: string;
+  chapter: string;
+  // One point per session that included questions of that difficulty, oldest first.
+  trends: Record<Difficulty, TrendPoint[]>;
+  // Distinct questions answered at least once, and the size of each pool in the current catalogue.
+  seen: Record<Difficulty, number>;
+  poolSize: Record<Difficulty, number>;
+  timeSpentMs: number;
+  lastPractisedAt: number | null;
+}
+
+export interface ProgressOverview {
+  chapters: ChapterProgress[];
+  sessionCount: number;
+  answerCount: number;
+  // Longest run of correctly answered questions, and of consecutive calendar days with a completed session.
+  longestAnswerStreak: number;
+  longestDayStreak: number;
+  totalTimeSpentMs: number;
+}
+
+interface AnswerPlacement {
+  subject: string;
+  chapter: string;
+  difficulty: Difficulty;
+}
+
+const perDifficulty = <T,>(make: () => T): Record<Difficulty, T> =>
+  Object.fromEntries(Object.values(Difficulty).map(d => [d, make()])) as Record<Difficulty, T>;
+
+const chapterKey = (subject: string, chapter: string) => `${subject}/${chapter}`;
+
+// Review, mock and targeted sessions mix chapters, so each answer is placed by its question where possible.
+const placeAnswer = (session: SessionRecord, answer: SessionAnswer): AnswerPlacement | null => {
+  const location = locateQuestion(answer.question.id);
+  if (location) return { subject: location.subject, chapter: location.chapter, difficulty: location.difficulty };
+  const difficulty = answer.difficulty ?? (session.mode === 'practice' ? session.difficulty : null);
+  if (session.chapter && difficulty) return { subject: session.subject, chapter: session.chapter, difficulty };
+  return null;
+};
+
+const dayNumber = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  return Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86_400_000);
+};
+
+const longestRun = (days: number[]): number => {
+  const sorted = [...new Set(days)].sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  sorted.forEach((day, i) => {
+    run = i > 0 && day === sorted[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+};
+
+/** Summarises the given sessions (in any order) against the current catalogue. */
+export const analyzeProgress = (sessions: SessionRecord[]): ProgressOverview => {
+  const chronological = [...sessions].sort((a, b) => a.completedAt - b.completedAt);
+  const chapters = new Map<string, ChapterProgress>();
+  const seenIds = new Map<string, Record<Difficulty, Set<string>>>();
+
+  const chapterFor = (subject: string, chapter: string): ChapterProgress => {
+    const key = chapterKey(subject, chapter);
+    let entry = chapters.get(key);
+    if (!entry) {
+      const catalogueChapter = getSubjects()[subject]?.chapters.find(c => c.name === chapter);
+      entry = {
+        subject,
+        chapter,
+        trends: perDifficulty<TrendPoint[]>(() => []),
+        seen: perDifficulty(() => 0),
+        poolSize: perDifficulty(() => 0),
+        timeSpentMs: 0,
+        lastPractisedAt: null,
+      };
+      Object.values(Difficulty).forEach(d => { entry!.poolSize[d] = catalogueChapter?.questions[d].length ?? 0; });
+      chapters.set(key, entry);
+      seenIds.set(key, perDifficulty(() => new Set<string>()));
+    }
+    return entry;
+  };
+
+  // Every catalogue chapter is listed, so chapters that were never attempted show up in the coverage.
+  Object.entries(getSubjects()).forEach(([subject, subjectData]) => {
+    subjectData.chapters.forEach(chapter => chapterFor(subject, chapter.name));
+  });
+
+  let answerCount = 0;
+  let answerStreak = 0;
+  let longestAnswerStreak = 0;
+  let totalTimeSpentMs = 0;
+
+  chronological.forEach(session => {
+    // Marks scored and available in this session, per chapter and difficulty.
+    const totals = new Map<string, { placement: AnswerPlacement; score: number; max: number; count: number }>();
+
+    session.answers.forEach(answer => {
+      totalTimeSpentMs += answer.timeSpentMs ?? 0;
+      const placement = placeAnswer(session, answer);
+      if (placement) {
+        const entry = chapterFor(placement.subject, placement.chapter);
+        entry.timeSpentMs += answer.timeSpentMs ?? 0;
+        entry.lastPractisedAt = session.completedAt;
+        seenIds.get(chapterKey(placement.subject, placement.chapter))![placement.difficulty].add(answer.question.id);
+      }
+
+      // Ungraded answers (a failed evaluation) neither score nor break the streak.
+      if (!answer.result) return;
+      answerCount++;
+      answerStreak = answer.result.isCorrect ? answerStreak + 1 : 0;
+      longestAnswerStreak = Math.max(longestAnswerStreak, answerStreak);
+
+      if (!placement) return;
+      const key = `${chapterKey(placement.subject, placement.chapter)}/${placement.difficulty}`;
+      const total = totals.get(key) ?? { placement, score: 0, max: 0, count: 0 };
+      total.score += answer.result.score;
+      total.max += answer.question.maxMarks;
+      total.count++;
+      totals.set(key, total);
+    });
+
+    totals.forEach(({ placement, score, max, count }) => {
+      if (max === 0) return;
+      chapterFor(placement.subject, placement.chapter).trends[placement.difficulty].push({
+        completedAt: session.completedAt,
+        percentage: Math.round((score / max) * 100),
+        questionCount: count,
+      });
+    });
+  });
+
+  chapters.forEach((entry, key) => {
+    const ids = seenIds.get(key)!;
+    Object.values(Difficulty).forEach(d => { entry.seen[d] = ids[d].size; });
+  });
+
+  return {
+    chapters: [...chapters.values()],
+    sessionCount: sessions.length,
+    answerCount,
+    longestAnswerStreak,
+    longestDayStreak: longestRun(sessions.map(s => dayNumber(s.completedAt))),
+    totalTimeSpentMs,
+  };
+};
+
+/** Average of a chapter's trend points at one difficulty, weighted by questions answered; null if none. */
+export const averagePercentage = (points: TrendPoint[]): number | null => {
+  const questions = points.reduce((acc, p) => acc + p.questionCount, 0);
+  if (questions === 0) return null;
+  return Math.round(points.reduce((acc, p) => acc + p.percentage * p.questionCount, 0) / questions);
+};
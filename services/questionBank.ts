@@ -0,0 +1,169 @@
+import { SUBJECTS } from '../data/questions';
+import { DIAGRAMS } from '../data/diagrams';
+import { Diagram, Difficulty, Question, SubjectsData } from '../types';
+import { BankFileFormat, BankValidationError, parseQuestionBank, serializeQuestionBank } from './questionBankFormat';
+
+// The runtime question catalogue: the built-in `SUBJECTS` plus any banks a teacher has imported
+// and the questions written on the authoring screen.
+// Imported banks are kept in localStorage under their file name; importing the same name again replaces it.
+
+const IMPORTED_BANKS_KEY = 'importedQuestionBanks';
+const AUTHORED_BANK_KEY = 'authoredQuestionBank';
+
+export interface ImportedBank {
+  name: string;
+  importedAt: number;
+  questionCount: number;
+  subjects: SubjectsData;
+}
+
+// Where a question lives in the catalogue. Lets features that work across chapters
+// (review, analytics) get back from a question id to its subject, chapter and difficulty.
+export interface QuestionLocation {
+  subject: string;
+  chapter: string;
+  difficulty: Difficulty;
+  question: Question;
+}
+
+let importedBanks: ImportedBank[] | null = null;
+let authoredSubjects: SubjectsData | null = null;
+let catalogue: SubjectsData | null = null;
+let index: Map<string, QuestionLocation> | null = null;
+
+const loadImportedBanks = (): ImportedBank[] => {
+  if (importedBanks) return importedBanks;
+  try {
+    importedBanks = JSON.parse(localStorage.getItem(IMPORTED_BANKS_KEY) ?? '[]');
+  } catch (e) {
+    console.error("Failed to read imported question banks:", e);
+    importedBanks = [];
+  }
+  return importedBanks!;
+};
+
+const invalidateCatalogue = () => {
+  catalogue = null;
+  index = null;
+};
+
+const storeImportedBanks = (banks: ImportedBank[]) => {
+  localStorage.setItem(IMPORTED_BANKS_KEY, JSON.stringify(banks));
+  importedBanks = banks;
+  invalidateCatalogue();
+};
+
+const loadAuthoredSubjects = (): SubjectsData => {
+  if (authoredSubjects) return authoredSubjects;
+  try {
+    authoredSubjects = JSON.parse(localStorage.getItem(AUTHORED_BANK_KEY) ?? '{}');
+  } catch (e) {
+    console.error("Failed to read authored questions:", e);
+    authoredSubjects = {};
+  }
+  return authoredSubjects!;
+};
+
+// Adds `source` into `target`: new subjects and chapters are appended, and questions for an
+// existing chapter join the end of its difficulty buckets.
+const mergeSubjects = (target: SubjectsData, source: SubjectsData) => {
+  Object.values(source).forEach(subject => {
+    const targetSubject = target[subject.name] ?? (target[subject.name] = { name: subject.name, chapters: [] });
+    subject.chapters.forEach(chapter => {
+      const targetChapter = targetSubject.chapters.find(c => c.name === chapter.name);
+      if (!targetChapter) {
+        targetSubject.chapters.push({ name: chapter.name, questions: { ...chapter.questions } });
+        return;
+      }
+      Object.values(Difficulty).forEach(difficulty => {
+        targetChapter.questions[difficulty] = [...targetChapter.questions[difficulty], ...chapter.questions[difficulty]];
+      });
+    });
+  });
+};
+
+const cloneSubjects = (subjects: SubjectsData): SubjectsData =>
+  Object.fromEntries(Object.entries(subjects).map(([key, subject]) => [key, {
+    ...subject,
+    chapters: subject.chapters.map(chapter => ({ ...chapter, questions: { ...chapter.questions } })),
+  }]));
+
+/** The full catalogue: built-in questions with every imported bank merged in. */
+export const getSubjects = (): SubjectsData => {
+  if (catalogue) return catalogue;
+  const merged = cloneSubjects(SUBJECTS);
+  loadImportedBanks().forEach(bank => mergeSubjects(merged, bank.subjects));
+  mergeSubjects(merged, loadAuthoredSubjects());
+  catalogue = merged;
+  return catalogue;
+};
+
+const buildIndex = (): Map<string, QuestionLocation> => {
+  const locations = new Map<string, QuestionLocation>();
+  Object.entries(getSubjects()).forEach(([subject, subjectData]) => {
+    subjectData.chapters.forEach(chapter => {
+      Object.values(Difficulty).forEach(difficulty => {
+        chapter.questions[difficulty].forEach(question => {
+          locations.set(question.id, { subject, chapter: chapter.name, difficulty, question });
+        });
+      });
+    });
+  });
+  return locations;
+};
+
+export const locateQuestion = (questionId: string): QuestionLocation | undefined => {
+  if (!index) index = buildIndex();
+  return index.get(questionId);
+};
+
+export const getDiagram = (diagramId: string): Diagram | undefined => DIAGRAMS[diagramId];
+
+export const listImportedBanks = (): ImportedBank[] => loadImportedBanks();
+
+const collectIds = (takenIds: Set<string>, subjects: SubjectsData) => Object.values(subjects).forEach(s => s.chapters.forEach(c =>
+  Object.values(Difficulty).forEach(d => c.questions[d].forEach(q => takenIds.add(q.id)))));
+
+/**
+ * Validates and stores a question bank file. Its ids must not clash with the built-in bank, with
+ * authored questions or with other imported banks (a bank being re-imported under the same name doesn't count).
+ */
+export const importQuestionBank = (name: string, text: string, format: BankFileFormat): { ok: true; bank: ImportedBank } | { ok: false; errors: BankValidationError[] } => {
+  const others = loadImportedBanks().filter(b => b.name !== name);
+  const takenIds = new Set<string>();
+  collectIds(takenIds, SUBJECTS);
+  others.forEach(b => collectIds(takenIds, b.subjects));
+  collectIds(takenIds, loadAuthoredSubjects());
+
+  const result = parseQuestionBank(text, format, takenIds);
+  if (result.ok === false) return result;
+
+  const bank: ImportedBank = { name, importedAt: Date.now(), questionCount: result.questionCount, subjects: result.subjects };
+  storeImportedBanks([...others, bank]);
+  return { ok: true, bank };
+};
+
+export const removeImportedBank = (name: string) => {
+  storeImportedBanks(loadImportedBanks().filter(b => b.name !== name));
+};
+
+export const getAuthoredSubjects = (): SubjectsData => loadAuthoredSubjects();
+
+/**
+ * Saves the questions written on the authoring screen. They go through the same validation as an
+ * imported bank, so authored and imported questions follow one set of rules.
+ */
+export const saveAuthoredSubjects = (subjects: SubjectsData): { ok: true } | { ok: false; errors: string[] } => {
+  const takenIds = new Set<string>();
+  collectIds(takenIds, SUBJECTS);
+  loadImportedBanks().forEach(b => collectIds(takenIds, b.subjects));
+
+  const result = parseQuestionBank(serializeQuestionBank(subjects, 'json'), 'json', takenIds);
+  if (result.ok === false) {
+    return { ok: false, errors: result.errors.map(e => e.message) };
+  }
+  localStorage.setItem(AUTHORED_BANK_KEY, JSON.stringify(subjects));
+  authoredSubjects = subjects;
+  invalidateCatalogue();
+  return { ok: true };
+};
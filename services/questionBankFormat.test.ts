@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty, Question, SubjectsData } from '../types';
+import { parseQuestionBank, serializeCsvBank } from './questionBankFormat';
+
+const question = (id: string, extra: Partial<Question> = {}): Question => ({
+  id, prompt: `Prompt ${id}`, canonicalAnswer: `Answer ${id}`, maxMarks: 1, ...extra,
+});
+
+const subjects: SubjectsData = {
+  Biology: {
+    name: 'Biology',
+    chapters: [
+      {
+        name: 'Cell',
+        questions: {
+          [Difficulty.Basic]: [question('C-B1'), question('C-B2', { objective: { type: 'mcq', options: ['Yes', 'No'], answer: 0 } })],
+          [Difficulty.Medium]: [question('C-M1')],
+          [Difficulty.Difficult]: [question('C-D1')],
+        },
+      },
+      {
+        // Its only Medium question has an answer key, so the chapter couldn't be imported again from CSV.
+        name: 'Tissues',
+        questions: {
+          [Difficulty.Basic]: [question('T-B1')],
+          [Difficulty.Medium]: [question('T-M1', { numericAnswer: { value: 2, unit: 'm', relativeTolerance: 0.01, marks: 1 } })],
+          [Difficulty.Difficult]: [question('T-D1')],
+        },
+      },
+    ],
+  },
+};
+
+describe('serializeCsvBank', () => {
+  it('leaves out questions with answer keys and chapters that would miss a difficulty', () => {
+    const csv = serializeCsvBank(subjects);
+
+    expect(csv).toMatchObject({ questionCount: 3, skippedQuestions: 1, skippedChapters: 1 });
+    expect(csv.content).not.toContain('C-B2');
+    expect(csv.content).not.toContain('Tissues');
+  });
+
+  it('writes a file that imports again', () => {
+    const result = parseQuestionBank(serializeCsvBank(subjects).content, 'csv', new Set());
+
+    expect(result).toMatchObject({ ok: true, questionCount: 3 });
+  });
+});
@@ -0,0 +1,608 @@
+import { Difficulty, LabellingSpec, NumericAnswerSpec, ObjectiveSpec, Question, SubjectsData, ValuePoint } from '../types';
+import { ASSERTION_REASON_OPTIONS } from '../constants';
+import { DIAGRAMS } from '../data/diagrams';
+import { parseUnit } from './units';
+
+// The external question bank format. See "Question bank format" in the README for the documented layout.
+// JSON carries everything, including marking schemes, numeric answers, labelling keys and objective answer keys; CSV is one question per row for spreadsheet authoring.
+
+export const QUESTION_BANK_FORMAT = 'cbse-tutor-question-bank';
+export const QUESTION_BANK_VERSION = 1;
+
+export type BankFileFormat = 'json' | 'csv';
+
+export const CSV_COLUMNS = ['subject', 'chapter', 'difficulty', 'id', 'prompt', 'canonicalAnswer', 'maxMarks'] as const;
+
+export interface BankValidationError {
+  line: number;
+  message: string;
+}
+
+export type BankParseResult =
+  | { ok: true; subjects: SubjectsData; questionCount: number }
+  | { ok: false; errors: BankValidationError[] };
+
+// A question as read from a file, before validation, with the line it started on.
+interface LocatedQuestion {
+  line: number;
+  subject: string;
+  chapter: string;
+  difficulty: string;
+  fields: Record<string, unknown>;
+}
+
+interface LocatedChapter {
+  line: number;
+  subject: string;
+  chapter: string;
+  // Difficulty buckets the file declared for this chapter (JSON) or used in its rows (CSV).
+  buckets: Set<string>;
+}
+
+class BankSyntaxError extends Error {
+  constructor(message: string, public line: number) {
+    super(message);
+  }
+}
+
+// --- JSON, with the line each object and array starts on ---
+
+const lineIndex = (text: string) => {
+  const newlines: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') newlines.push(i);
+  }
+  return (position: number): number => {
+    let low = 0;
+    let high = newlines.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (newlines[mid] < position) low = mid + 1;
+      else high = mid;
+    }
+    return low + 1;
+  };
+};
+
+const STRING_PATTERN = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+const parseJsonWithLines = (text: string): { value: unknown; lines: Map<object, number> } => {
+  const lineAt = lineIndex(text);
+  const lines = new Map<object, number>();
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new BankSyntaxError(message, lineAt(pos));
+  };
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (text[pos] !== char) fail(`Expected "${char}" but found ${pos < text.length ? `"${text[pos]}"` : 'end of file'}.`);
+    pos++;
+  };
+  const match = (pattern: RegExp): string | null => {
+    pattern.lastIndex = pos;
+    const result = pattern.exec(text);
+    if (!result) return null;
+    pos += result[0].length;
+    return result[0];
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    const start = pos;
+    const char = text[pos];
+    if (char === '{') {
+      pos++;
+      const object: Record<string, unknown> = {};
+      lines.set(object, lineAt(start));
+      skipWhitespace();
+      if (text[pos] === '}') { pos++; return object; }
+      for (;;) {
+        skipWhitespace();
+        const key = match(STRING_PATTERN);
+        if (key === null) fail('Expected a quoted property name.');
+        expect(':');
+        object[JSON.parse(key as string)] = parseValue();
+        skipWhitespace();
+        if (text[pos] === ',') { pos++; continue; }
+        expect('}');
+        return object;
+      }
+    }
+    if (char === '[') {
+      pos++;
+      const array: unknown[] = [];
+      lines.set(array, lineAt(start));
+      skipWhitespace();
+      if (text[pos] === ']') { pos++; return array; }
+      for (;;) {
+        array.push(parseValue());
+        skipWhitespace();
+        if (text[pos] === ',') { pos++; continue; }
+        expect(']');
+        return array;
+      }
+    }
+    if (char === '"') {
+      const raw = match(STRING_PATTERN);
+      if (raw === null) fail('Unterminated or invalid string.');
+      return JSON.parse(raw as string);
+    }
+    for (const [literal, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (text.startsWith(literal, pos)) {
+        pos += literal.length;
+        return value;
+      }
+    }
+    const number = match(NUMBER_PATTERN);
+    if (number !== null) return Number(number);
+    return fail(pos < text.length ? `Unexpected "${char}".` : 'Unexpected end of file.');
+  };
+
+  const value = parseValue();
+  skipWhitespace();
+  if (pos < text.length) fail('Unexpected content after the end of the question bank.');
+  return { value, lines };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readJson = (text: string, errors: BankValidationError[]): { questions: LocatedQuestion[]; chapters: LocatedChapter[] } => {
+  const questions: LocatedQuestion[] = [];
+  const chapters: LocatedChapter[] = [];
+  const { value: root, lines } = parseJsonWithLines(text);
+  const lineOf = (node: unknown, fallback: number) => (typeof node === 'object' && node !== null ? lines.get(node) : undefined) ?? fallback;
+
+  if (!isObject(root)) {
+    errors.push({ line: 1, message: 'The question bank must be a JSON object.' });
+    return { questions, chapters };
+  }
+  if (root.format !== QUESTION_BANK_FORMAT) {
+    errors.push({ line: lineOf(root, 1), message: `"format" must be "${QUESTION_BANK_FORMAT}".` });
+  }
+  if (typeof root.version !== 'number' || root.version < 1 || root.version > QUESTION_BANK_VERSION) {
+    errors.push({ line: lineOf(root, 1), message: `Unsupported "version"; this app reads version ${QUESTION_BANK_VERSION}.` });
+  }
+  if (!Array.isArray(root.subjects)) {
+    errors.push({ line: lineOf(root, 1), message: '"subjects" must be an array.' });
+    return { questions, chapters };
+  }
+
+  root.subjects.forEach(subject => {
+    const subjectLine = lineOf(subject, lineOf(root.subjects, 1));
+    if (!isObject(subject) || typeof subject.name !== 'string' || !Array.isArray(subject.chapters)) {
+      errors.push({ line: subjectLine, message: 'Each subject needs a "name" and a "chapters" array.' });
+      return;
+    }
+    subject.chapters.forEach(chapter => {
+      const chapterLine = lineOf(chapter, subjectLine);
+      if (!isObject(chapter) || typeof chapter.name !== 'string' || !isObject(chapter.questions)) {
+        errors.push({ line: chapterLine, message: 'Each chapter needs a "name" and a "questions" object.' });
+        return;
+      }
+      const buckets = new Set<string>();
+      Object.entries(chapter.questions).forEach(([difficulty, bucket]) => {
+        if (!Array.isArray(bucket)) {
+          errors.push({ line: lineOf(chapter.questions, chapterLine), message: `Difficulty "${difficulty}" must be an array of questions.` });
+          return;
+        }
+        buckets.add(difficulty);
+        bucket.forEach(question => {
+          const line = lineOf(question, lineOf(bucket, chapterLine));
+          if (!isObject(question)) {
+            errors.push({ line, message: 'Each question must be an object.' });
+            return;
+          }
+          questions.push({ line, subject: subject.name as string, chapter: chapter.name as string, difficulty, fields: question });
+        });
+      });
+      chapters.push({ line: chapterLine, subject: subject.name as string, chapter: chapter.name as string, buckets });
+    });
+  });
+  return { questions, chapters };
+};
+
+// --- CSV (RFC 4180: quoted fields may contain commas, quotes and line breaks) ---
+
+const parseCsv = (text: string): Array<{ line: number; cells: string[] }> => {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+      continue;
+    }
+    if (char === '"' && cell === '') inQuotes = true;
+    else if (char === ',') { cells.push(cell); cell = ''; }
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      if (cells.some(c => c.trim() !== '')) rows.push({ line: rowLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else cell += char;
+  }
+  if (inQuotes) throw new BankSyntaxError('A quoted field is never closed.', rowLine);
+  cells.push(cell);
+  if (cells.some(c => c.trim() !== '')) rows.push({ line: rowLine, cells });
+  return rows;
+};
+
+const readCsv = (text: string, errors: BankValidationError[]): { questions: LocatedQuestion[]; chapters: LocatedChapter[] } => {
+  const questions: LocatedQuestion[] = [];
+  const chapters = new Map<string, LocatedChapter>();
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    errors.push({ line: 1, message: 'The file is empty.' });
+    return { questions, chapters: [] };
+  }
+  const columns = header.cells.map(c => c.trim());
+  const missing = CSV_COLUMNS.filter(c => !columns.includes(c));
+  if (missing.length > 0) {
+    errors.push({ line: header.line, message: `Missing column(s): ${missing.join(', ')}.` });
+    return { questions, chapters: [] };
+  }
+
+  rows.forEach(({ line, cells }) => {
+    const value = (column: string) => (cells[columns.indexOf(column)] ?? '').trim();
+    const subject = value('subject');
+    const chapter = value('chapter');
+    const difficulty = value('difficulty');
+    const key = `${subject}\u0000${chapter}`;
+    if (!chapters.has(key)) chapters.set(key, { line, subject, chapter, buckets: new Set() });
+    chapters.get(key)!.buckets.add(difficulty);
+    const maxMarks = value('maxMarks');
+    questions.push({
+      line,
+      subject,
+      chapter,
+      difficulty,
+      fields: {
+        id: value('id'),
+        prompt: value('prompt'),
+        canonicalAnswer: value('canonicalAnswer'),
+        maxMarks: maxMarks === '' ? undefined : Number(maxMarks),
+      },
+    });
+  });
+  return { questions, chapters: Array.from(chapters.values()) };
+};
+
+// --- Validation shared by both formats ---
+
+const DIFFICULTIES = Object.values(Difficulty) as string[];
+
+const validateMarkingScheme = (scheme: unknown, maxMarks: number, line: number, errors: BankValidationError[]): ValuePoint[] | undefined => {
+  if (scheme === undefined) return undefined;
+  if (!Array.isArray(scheme)) {
+    errors.push({ line, message: '"markingScheme" must be an array of value points.' });
+    return undefined;
+  }
+  const ids = new Set<string>();
+  let total = 0;
+  const points = scheme.flatMap((point): ValuePoint[] => {
+    if (!isObject(point) || typeof point.id !== 'string' || point.id.trim() === '' || typeof point.description !== 'string' || point.description.trim() === '') {
+      errors.push({ line, message: 'Each value point needs a non-empty "id" and "description".' });
+      return [];
+    }
+    if (ids.has(point.id)) errors.push({ line, message: `Value point id "${point.id}" is used twice.` });
+    ids.add(point.id);
+    if (typeof point.marks !== 'number' || !(point.marks > 0)) {
+      errors.push({ line, message: `Value point "${point.id}" must carry positive "marks".` });
+      return [];
+    }
+    total += point.marks;
+    const synonyms = Array.isArray(point.synonyms) ? point.synonyms.filter((s): s is string => typeof s === 'string') : [];
+    return [{ id: point.id, description: point.description, marks: point.marks, synonyms, mandatory: point.mandatory === true }];
+  });
+  if (points.length === scheme.length && total !== maxMarks) {
+    errors.push({ line, message: `The marking scheme adds up to ${total} marks but should add up to ${maxMarks}.` });
+  }
+  return points;
+};
+
+const validateNumericAnswer = (spec: unknown, maxMarks: number, label: string, line: number, errors: BankValidationError[]): NumericAnswerSpec | undefined => {
+  if (spec === undefined) return undefined;
+  if (!isObject(spec)) {
+    errors.push({ line, message: `${label}: "numericAnswer" must be an object.` });
+    return undefined;
+  }
+  const before = errors.length;
+  if (typeof spec.value !== 'number' || !Number.isFinite(spec.value)) errors.push({ line, message: `${label}: "numericAnswer.value" must be a number.` });
+  const unit = spec.unit ?? '';
+  if (typeof unit !== 'string' || !parseUnit(unit)) errors.push({ line, message: `${label}: "numericAnswer.unit" isn't a recognised unit.` });
+  const figures = spec.significantFigures;
+  if (figures !== undefined && (typeof figures !== 'number' || !Number.isInteger(figures) || figures <= 0)) {
+    errors.push({ line, message: `${label}: "numericAnswer.significantFigures" must be a positive whole number.` });
+  }
+  const tolerance = spec.relativeTolerance ?? 0;
+  if (typeof tolerance !== 'number' || !(tolerance >= 0 && tolerance < 1)) {
+    errors.push({ line, message: `${label}: "numericAnswer.relativeTolerance" must be a fraction between 0 and 1.` });
+  }
+  if (typeof spec.marks !== 'number' || !(spec.marks > 0) || spec.marks > maxMarks) {
+    errors.push({ line, message: `${label}: "numericAnswer.marks" must be positive and at most the question's ${maxMarks} marks.` });
+  }
+  if (errors.length > before) return undefined;
+  return {
+    value: spec.value as number,
+    unit: (unit as string).trim(),
+    ...(figures !== undefined ? { significantFigures: figures as number } : {}),
+    relativeTolerance: tolerance as number,
+    marks: spec.marks as number,
+  };
+};
+
+const strings = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Labelling questions point at one of the built-in diagrams; their labels' marks make up the whole question.
+const validateLabelling = (spec: unknown, maxMarks: number, label: string, line: number, errors: BankValidationError[]): LabellingSpec | undefined => {
+  if (spec === undefined) return undefined;
+  if (!isObject(spec)) {
+    errors.push({ line, message: `${label}: "labelling" must be an object.` });
+    return undefined;
+  }
+  const before = errors.length;
+  const diagram = typeof spec.diagramId === 'string' ? DIAGRAMS[spec.diagramId] : undefined;
+  if (!diagram) errors.push({ line, message: `${label}: "labelling.diagramId" isn't a known diagram (${Object.keys(DIAGRAMS).join(', ')}).` });
+  if (!Array.isArray(spec.labels) || spec.labels.length === 0) {
+    errors.push({ line, message: `${label}: "labelling.labels" must be a non-empty array.` });
+    return undefined;
+  }
+  const seen = new Set<string>();
+  let total = 0;
+  spec.labels.forEach((entry, i) => {
+    const where = `${label}, label ${i + 1}`;
+    if (!isObject(entry)) {
+      errors.push({ line, message: `${where} must be an object.` });
+      return;
+    }
+    if (typeof entry.markerId !== 'string' || (diagram && !diagram.markers.some(m => m.id === entry.markerId))) {
+      errors.push({ line, message: `${where}: "markerId" isn't a marker on the diagram.` });
+    } else if (seen.has(entry.markerId)) {
+      errors.push({ line, message: `${where}: marker "${entry.markerId}" is used twice.` });
+    } else {
+      seen.add(entry.markerId);
+    }
+    if (typeof entry.answer !== 'string' || entry.answer.trim() === '') errors.push({ line, message: `${where} has an empty "answer".` });
+    if (entry.accepted !== undefined && !strings(entry.accepted)) errors.push({ line, message: `${where}: "accepted" must be a list of strings.` });
+    if (typeof entry.marks !== 'number' || !(entry.marks > 0)) errors.push({ line, message: `${where}: "marks" must be positive.` });
+    else total += entry.marks;
+  });
+  if (spec.wordBank !== undefined && !strings(spec.wordBank)) errors.push({ line, message: `${label}: "labelling.wordBank" must be a list of strings.` });
+  if (errors.length > before) return undefined;
+  if (total !== maxMarks) {
+    errors.push({ line, message: `${label}: the labels add up to ${total} marks but should add up to ${maxMarks}.` });
+    return undefined;
+  }
+  return {
+    diagramId: spec.diagramId as string,
+    labels: (spec.labels as Record<string, unknown>[]).map(entry => ({
+      markerId: entry.markerId as string,
+      answer: (entry.answer as string).trim(),
+      ...(entry.accepted ? { accepted: entry.accepted as string[] } : {}),
+      marks: entry.marks as number,
+    })),
+    ...(spec.wordBank ? { wordBank: spec.wordBank as string[] } : {}),
+  };
+};
+
+const nonEmptyStrings = (value: unknown): value is string[] => strings(value) && value.length > 0 && value.every(item => item.trim() !== '');
+
+const isIndex = (value: unknown, length: number): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+// Objective questions carry their own key: the right option, or the column B item for each column A item.
+const validateObjective = (spec: unknown, label: string, line: number, errors: BankValidationError[]): ObjectiveSpec | undefined => {
+  if (spec === undefined) return undefined;
+  if (!isObject(spec)) {
+    errors.push({ line, message: `${label}: "objective" must be an object.` });
+    return undefined;
+  }
+  const before = errors.length;
+  if (spec.type === 'mcq') {
+    if (!nonEmptyStrings(spec.options) || spec.options.length < 2) {
+      errors.push({ line, message: `${label}: "objective.options" must be at least two non-empty strings.` });
+    } else if (!isIndex(spec.answer, spec.options.length)) {
+      errors.push({ line, message: `${label}: "objective.answer" must be the index of one of the ${spec.options.length} options, counting from 0.` });
+    }
+    if (errors.length > before) return undefined;
+    return { type: 'mcq', options: (spec.options as string[]).map(o => o.trim()), answer: spec.answer as number };
+  }
+  if (spec.type === 'assertion-reason') {
+    if (typeof spec.assertion !== 'string' || spec.assertion.trim() === '') errors.push({ line, message: `${label} has an empty "objective.assertion".` });
+    if (typeof spec.reason !== 'string' || spec.reason.trim() === '') errors.push({ line, message: `${label} has an empty "objective.reason".` });
+    if (!isIndex(spec.answer, ASSERTION_REASON_OPTIONS.length)) {
+      errors.push({ line, message: `${label}: "objective.answer" must be the index of one of the ${ASSERTION_REASON_OPTIONS.length} standard options, counting from 0.` });
+    }
+    if (errors.length > before) return undefined;
+    return { type: 'assertion-reason', assertion: (spec.assertion as string).trim(), reason: (spec.reason as string).trim(), answer: spec.answer as number };
+  }
+  if (spec.type === 'match') {
+    if (!nonEmptyStrings(spec.columnA)) errors.push({ line, message: `${label}: "objective.columnA" must be a non-empty list of non-empty strings.` });
+    if (!nonEmptyStrings(spec.columnB)) errors.push({ line, message: `${label}: "objective.columnB" must be a non-empty list of non-empty strings.` });
+    if (errors.length > before) return undefined;
+    const columnA = spec.columnA as string[];
+    const columnB = spec.columnB as string[];
+    if (columnB.length < columnA.length) errors.push({ line, message: `${label}: "objective.columnB" needs at least as many items as "objective.columnA".` });
+    const answer = spec.answer;
+    if (!Array.isArray(answer) || answer.length !== columnA.length || !answer.every(b => isIndex(b, columnB.length))) {
+      errors.push({ line, message: `${label}: "objective.answer" must give, for each column A item, the index of its column B item, counting from 0.` });
+    } else if (new Set(answer).size !== answer.length) {
+      errors.push({ line, message: `${label}: "objective.answer" matches a column B item more than once.` });
+    }
+    if (errors.length > before) return undefined;
+    return { type: 'match', columnA: columnA.map(a => a.trim()), columnB: columnB.map(b => b.trim()), answer: answer as number[] };
+  }
+  errors.push({ line, message: `${label}: "objective.type" must be "mcq", "assertion-reason" or "match".` });
+  return undefined;
+};
+
+/**
+ * Checks a single question against the bank rules and returns it in catalogue form, or pushes errors.
+ * Exposed so the authoring screen applies exactly the same rules as an import.
+ */
+export const validateQuestion = (fields: Record<string, unknown>, line: number, errors: BankValidationError[]): Question | null => {
+  const before = errors.length;
+  const id = typeof fields.id === 'string' ? fields.id.trim() : '';
+  if (!id) errors.push({ line, message: 'Question "id" is missing.' });
+  const label = id ? `Question "${id}"` : 'Question';
+  if (typeof fields.prompt !== 'string' || fields.prompt.trim() === '') errors.push({ line, message: `${label} has an empty "prompt".` });
+  if (typeof fields.canonicalAnswer !== 'string' || fields.canonicalAnswer.trim() === '') errors.push({ line, message: `${label} has an empty "canonicalAnswer".` });
+  const maxMarks = fields.maxMarks;
+  if (typeof maxMarks !== 'number' || !Number.isFinite(maxMarks) || maxMarks <= 0) {
+    errors.push({ line, message: `${label} must have a positive number for "maxMarks".` });
+  }
+  const numericAnswer = typeof maxMarks === 'number' ? validateNumericAnswer(fields.numericAnswer, maxMarks, label, line, errors) : undefined;
+  // The marking scheme covers the working only; the numeric answer's marks are checked separately.
+  const schemeMarks = typeof maxMarks === 'number' ? maxMarks - (numericAnswer?.marks ?? 0) : 0;
+  const markingScheme = typeof maxMarks === 'number' ? validateMarkingScheme(fields.markingScheme, schemeMarks, line, errors) : undefined;
+  const labelling = typeof maxMarks === 'number' ? validateLabelling(fields.labelling, maxMarks, label, line, errors) : undefined;
+  if (labelling && (markingScheme || numericAnswer)) {
+    errors.push({ line, message: `${label}: a labelling question is marked by its labels and can't also have a marking scheme or numeric answer.` });
+  }
+  const objective = validateObjective(fields.objective, label, line, errors);
+  if (objective && (markingScheme || numericAnswer || labelling)) {
+    errors.push({ line, message: `${label}: an objective question is marked by its answer key and can't also have a marking scheme, numeric answer or labelling key.` });
+  }
+  if (errors.length > before) return null;
+  return {
+    id,
+    prompt: (fields.prompt as string).trim(),
+    canonicalAnswer: (fields.canonicalAnswer as string).trim(),
+    maxMarks: maxMarks as number,
+    ...(markingScheme ? { markingScheme } : {}),
+    ...(numericAnswer ? { numericAnswer } : {}),
+    ...(labelling ? { labelling } : {}),
+    ...(objective ? { objective } : {}),
+  };
+};
+
+/**
+ * Parses and validates a question bank file. `existingIds` are ids already taken in the catalogue
+ * (built-in and other imported banks), which the file may not reuse.
+ */
+export const parseQuestionBank = (text: string, format: BankFileFormat, existingIds: Set<string>): BankParseResult => {
+  const errors: BankValidationError[] = [];
+  let located: { questions: LocatedQuestion[]; chapters: LocatedChapter[] };
+  try {
+    located = format === 'json' ? readJson(text, errors) : readCsv(text, errors);
+  } catch (e) {
+    if (e instanceof BankSyntaxError) return { ok: false, errors: [{ line: e.line, message: e.message }] };
+    throw e;
+  }
+
+  const subjects: SubjectsData = {};
+  const seenIds = new Map<string, number>();
+
+  located.chapters.forEach(({ line, subject, chapter, buckets }) => {
+    if (!subject.trim()) errors.push({ line, message: 'Subject name is empty.' });
+    if (!chapter.trim()) errors.push({ line, message: 'Chapter name is empty.' });
+    const unknown = Array.from(buckets).filter(b => !DIFFICULTIES.includes(b));
+    if (unknown.length > 0) errors.push({ line, message: `Unknown difficulty "${unknown.join('", "')}"; use ${DIFFICULTIES.join(', ')}.` });
+    const missing = DIFFICULTIES.filter(d => !buckets.has(d));
+    if (missing.length > 0) errors.push({ line, message: `Chapter "${chapter}" has no ${missing.join(', ')} questions; every chapter needs all three difficulties.` });
+  });
+
+  located.questions.forEach(({ line, subject, chapter, difficulty, fields }) => {
+    const question = validateQuestion(fields, line, errors);
+    if (!question) return;
+    if (seenIds.has(question.id)) {
+      errors.push({ line, message: `Question id "${question.id}" is already used on line ${seenIds.get(question.id)}.` });
+      return;
+    }
+    if (existingIds.has(question.id)) {
+      errors.push({ line, message: `Question id "${question.id}" already exists in the question bank.` });
+      return;
+    }
+    seenIds.set(question.id, line);
+    if (!DIFFICULTIES.includes(difficulty)) return;
+
+    const subjectData = subjects[subject] ?? (subjects[subject] = { name: subject, chapters: [] });
+    let chapterData = subjectData.chapters.find(c => c.name === chapter);
+    if (!chapterData) {
+      chapterData = { name: chapter, questions: { [Difficulty.Basic]: [], [Difficulty.Medium]: [], [Difficulty.Difficult]: [] } };
+      subjectData.chapters.push(chapterData);
+    }
+    chapterData.questions[difficulty as Difficulty].push(question);
+  });
+
+  if (errors.length > 0) {
+    return { ok: false, errors: errors.sort((a, b) => a.line - b.line) };
+  }
+  return { ok: true, subjects, questionCount: seenIds.size };
+};
+
+// --- Export ---
+
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CSV has no columns for marking schemes, numeric answers, labelling keys or objective answer keys.
+const fitsCsv = (question: Question): boolean =>
+  !question.markingScheme && !question.numericAnswer && !question.labelling && !question.objective;
+
+export interface CsvExport {
+  content: string;
+  questionCount: number;
+  // Questions left out because CSV can't carry their marking scheme or answer key.
+  skippedQuestions: number;
+  // Chapters left out whole because they would be missing a difficulty, which a CSV file can't import again.
+  skippedChapters: number;
+}
+
+/**
+ * Serialises a catalogue as CSV, leaving out what the file couldn't carry back in: questions with a marking
+ * scheme or answer key, and chapters that are then missing a difficulty, since in CSV a chapter only exists
+ * through its rows.
+ */
+export const serializeCsvBank = (subjects: SubjectsData): CsvExport => {
+  const rows: string[] = [CSV_COLUMNS.join(',')];
+  let skippedQuestions = 0;
+  let skippedChapters = 0;
+  Object.values(subjects).forEach(subject => {
+    subject.chapters.forEach(chapter => {
+      if (Object.values(Difficulty).some(d => !chapter.questions[d].some(fitsCsv))) {
+        skippedChapters++;
+        return;
+      }
+      skippedQuestions += Object.values(Difficulty).flatMap(d => chapter.questions[d]).filter(q => !fitsCsv(q)).length;
+      Object.values(Difficulty).forEach(difficulty => {
+        chapter.questions[difficulty].filter(fitsCsv).forEach(q => {
+          rows.push([subject.name, chapter.name, difficulty, q.id, q.prompt, q.canonicalAnswer, q.maxMarks].map(csvCell).join(','));
+        });
+      });
+    });
+  });
+  return { content: rows.join('\n') + '\n', questionCount: rows.length - 1, skippedQuestions, skippedChapters };
+};
+
+/** Serialises a catalogue to the bank format. See `serializeCsvBank` for what CSV leaves out. */
+export const serializeQuestionBank = (subjects: SubjectsData, format: BankFileFormat): string => {
+  if (format === 'json') {
+    return JSON.stringify({
+      format: QUESTION_BANK_FORMAT,
+      version: QUESTION_BANK_VERSION,
+      subjects: Object.values(subjects),
+    }, null, 2);
+  }
+  return serializeCsvBank(subjects).content;
+};
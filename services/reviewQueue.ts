@@ -0,0 +1,38 @@
+import { Difficulty, PendingQuestion } from '../types';
+import { GeneratedQuestion } from './geminiService';
+
+// Generated questions waiting for a teacher's approval. They are kept in localStorage and only join
+// the catalogue once approved on the authoring screen and saved with the authored bank.
+
+const REVIEW_QUEUE_KEY = 'questionReviewQueue';
+
+export const listPendingQuestions = (): PendingQuestion[] => {
+  try {
+    return JSON.parse(localStorage.getItem(REVIEW_QUEUE_KEY) ?? '[]');
+  } catch (e) {
+    console.error("Failed to read the question review queue:", e);
+    return [];
+  }
+};
+
+const storePendingQuestions = (pending: PendingQuestion[]) => {
+  localStorage.setItem(REVIEW_QUEUE_KEY, JSON.stringify(pending));
+};
+
+/** Adds freshly generated questions to the queue, giving each a new `G-` id. */
+export const queueGeneratedQuestions = (subject: string, chapter: string, difficulty: Difficulty, generated: GeneratedQuestion[]): PendingQuestion[] => {
+  const generatedAt = Date.now();
+  const added = generated.map((question, i) => ({
+    subject,
+    chapter,
+    difficulty,
+    question: { id: `G-${generatedAt.toString(36).toUpperCase()}-${i + 1}`, ...question },
+    generatedAt,
+  }));
+  storePendingQuestions([...listPendingQuestions(), ...added]);
+  return added;
+};
+
+export const removePendingQuestions = (questionIds: string[]) => {
+  storePendingQuestions(listPendingQuestions().filter(p => !questionIds.includes(p.question.id)));
+};
@@ -0,0 +1,88 @@
+import { SessionRecord } from '../types';
+import { QUESTIONS_PER_SESSION } from '../constants';
+import { locateQuestion, QuestionLocation } from './questionBank';
+
+// SM-2 spaced repetition. Review state isn't stored separately: it is rebuilt by replaying every
+// graded answer in the session history, so it always agrees with what the student actually did.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export interface ReviewCard {
+  questionId: string;
+  repetitions: number;
+  easeFactor: number;
+  intervalDays: number;
+  lastReviewedAt: number;
+  dueAt: number;
+}
+
+export interface DueReview extends QuestionLocation {
+  card: ReviewCard;
+}
+
+// SM-2 recall quality (0-5). Anything below the isCorrect threshold is a failed recall (< 3).
+const recallQuality = (score: number, maxMarks: number, isCorrect: boolean): number => {
+  const ratio = maxMarks > 0 ? score / maxMarks : 0;
+  if (isCorrect) return ratio >= 0.95 ? 5 : 4;
+  if (ratio >= 0.5) return 2;
+  return ratio > 0 ? 1 : 0;
+};
+
+const review = (card: ReviewCard, quality: number, reviewedAt: number): ReviewCard => {
+  let { repetitions, intervalDays } = card;
+  if (quality >= 3) {
+    intervalDays = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(intervalDays * card.easeFactor);
+    repetitions += 1;
+  } else {
+    repetitions = 0;
+    intervalDays = 1;
+  }
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  return {
+    ...card,
+    repetitions,
+    easeFactor,
+    intervalDays,
+    lastReviewedAt: reviewedAt,
+    dueAt: reviewedAt + intervalDays * DAY_MS,
+  };
+};
+
+export const buildReviewCards = (sessions: SessionRecord[]): Map<string, ReviewCard> => {
+  const answers = sessions
+    .flatMap(session => session.answers)
+    .filter(answer => answer.result !== null)
+    .sort((a, b) => a.answeredAt - b.answeredAt);
+
+  const cards = new Map<string, ReviewCard>();
+  for (const answer of answers) {
+    const { question, result } = answer;
+    if (!result) continue;
+    const card = cards.get(question.id) ?? {
+      questionId: question.id,
+      repetitions: 0,
+      easeFactor: INITIAL_EASE,
+      intervalDays: 0,
+      lastReviewedAt: 0,
+      dueAt: 0,
+    };
+    cards.set(question.id, review(card, recallQuality(result.score, question.maxMarks, result.isCorrect), answer.answeredAt));
+  }
+  return cards;
+};
+
+/**
+ * Questions due for review across all subjects and chapters, most overdue first.
+ * Questions that have since been removed from the catalogue are dropped.
+ */
+export const getDueReviews = (sessions: SessionRecord[], now: number = Date.now(), limit: number = QUESTIONS_PER_SESSION): DueReview[] => {
+  const due: DueReview[] = [];
+  buildReviewCards(sessions).forEach(card => {
+    if (card.dueAt > now) return;
+    const location = locateQuestion(card.questionId);
+    if (location) due.push({ ...location, card });
+  });
+  return due.sort((a, b) => a.card.dueAt - b.card.dueAt).slice(0, limit);
+};
@@ -0,0 +1,18 @@
+import { ExamSettings, Question } from '../types';
+
+/** Whole-paper time allowed in exam mode, in seconds. */
+export const paperDurationSeconds = (questions: Question[], settings: ExamSettings): number =>
+  questions.reduce((acc, q) => acc + q.maxMarks, 0) * settings.secondsPerMark;
+
+/** Per-question limit in seconds, or null when exam mode or per-question limits are off. */
+export const questionTimeLimitSeconds = (question: Question, settings: ExamSettings): number | null =>
+  settings.enabled && settings.perQuestionLimit ? question.maxMarks * settings.secondsPerMark : null;
+
+/** Formats a duration as m:ss (or h:mm:ss for an hour or more). Negative durations show as 0:00. */
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
@@ -0,0 +1,174 @@
+// Units for numerical answers: parses unit expressions such as "m/s²", "kJ mol⁻¹" or "g cm^-3" into a
+// factor and dimensions in SI base units, so an answer given in any compatible unit can be compared.
+
+// Exponents of metre, kilogram, second, ampere, kelvin and mole.
+export type Dimensions = [number, number, number, number, number, number];
+
+export interface ParsedUnit {
+  // Multiply a value in this unit by `factor` to get it in SI base units.
+  factor: number;
+  dimensions: Dimensions;
+}
+
+interface UnitDefinition extends ParsedUnit {
+  // Whether SI prefixes may be attached ("km", "mJ"); false for units like "min" or "atm".
+  prefixable: boolean;
+}
+
+const DIMENSIONLESS: Dimensions = [0, 0, 0, 0, 0, 0];
+
+const unit = (factor: number, dimensions: Dimensions, prefixable = true): UnitDefinition => ({ factor, dimensions, prefixable });
+
+const UNITS: Record<string, UnitDefinition> = {
+  m: unit(1, [1, 0, 0, 0, 0, 0]),
+  g: unit(1e-3, [0, 1, 0, 0, 0, 0]),
+  s: unit(1, [0, 0, 1, 0, 0, 0]),
+  A: unit(1, [0, 0, 0, 1, 0, 0]),
+  K: unit(1, [0, 0, 0, 0, 1, 0]),
+  mol: unit(1, [0, 0, 0, 0, 0, 1]),
+  N: unit(1, [1, 1, -2, 0, 0, 0]),
+  J: unit(1, [2, 1, -2, 0, 0, 0]),
+  W: unit(1, [2, 1, -3, 0, 0, 0]),
+  Pa: unit(1, [-1, 1, -2, 0, 0, 0]),
+  Hz: unit(1, [0, 0, -1, 0, 0, 0]),
+  C: unit(1, [0, 0, 1, 1, 0, 0]),
+  V: unit(1, [2, 1, -3, -1, 0, 0]),
+  'Ω': unit(1, [2, 1, -3, -2, 0, 0]),
+  ohm: unit(1, [2, 1, -3, -2, 0, 0]),
+  L: unit(1e-3, [3, 0, 0, 0, 0, 0]),
+  l: unit(1e-3, [3, 0, 0, 0, 0, 0]),
+  eV: unit(1.602176634e-19, [2, 1, -2, 0, 0, 0]),
+  cal: unit(4.184, [2, 1, -2, 0, 0, 0]),
+  // Molarity, mol/L.
+  M: unit(1e3, [-3, 0, 0, 0, 0, 1], false),
+  atm: unit(101_325, [-1, 1, -2, 0, 0, 0], false),
+  bar: unit(1e5, [-1, 1, -2, 0, 0, 0], false),
+  min: unit(60, [0, 0, 1, 0, 0, 0], false),
+  h: unit(3600, [0, 0, 1, 0, 0, 0], false),
+  u: unit(1.66053906660e-27, [0, 1, 0, 0, 0, 0], false),
+  amu: unit(1.66053906660e-27, [0, 1, 0, 0, 0, 0], false),
+  rad: unit(1, DIMENSIONLESS, false),
+  '°': unit(Math.PI / 180, DIMENSIONLESS, false),
+  // Compared as a temperature difference: there is no offset to kelvin.
+  '°C': unit(1, [0, 0, 0, 0, 1, 0], false),
+  '%': unit(0.01, DIMENSIONLESS, false),
+};
+
+const PREFIXES: Record<string, number> = {
+  p: 1e-12, n: 1e-9, 'µ': 1e-6, 'μ': 1e-6, u: 1e-6, m: 1e-3, c: 1e-2, d: 1e-1,
+  k: 1e3, M: 1e6, G: 1e9, T: 1e12,
+};
+
+// Spoken or written-out unit names, as speech recognition transcribes them, mapped to symbols.
+// Prefixed names are listed before their base unit so "kilometres" becomes "km", not "kilom".
+const UNIT_WORDS: [RegExp, string][] = [
+  [/\bkilomet(?:re|er)s?\b/gi, 'km'],
+  [/\bcentimet(?:re|er)s?\b/gi, 'cm'],
+  [/\bmillimet(?:re|er)s?\b/gi, 'mm'],
+  [/\bmet(?:re|er)s?\b/gi, 'm'],
+  [/\bkilograms?\b/gi, 'kg'],
+  [/\bgrams?\b/gi, 'g'],
+  [/\bmilliseconds?\b/gi, 'ms'],
+  [/\bseconds?\b/gi, 's'],
+  [/\bminutes?\b/gi, 'min'],
+  [/\bhours?\b/gi, 'h'],
+  [/\bkilonewtons?\b/gi, 'kN'],
+  [/\bnewtons?\b/gi, 'N'],
+  [/\bkilojoules?\b/gi, 'kJ'],
+  [/\bjoules?\b/gi, 'J'],
+  [/\bkilowatts?\b/gi, 'kW'],
+  [/\bwatts?\b/gi, 'W'],
+  [/\bpascals?\b/gi, 'Pa'],
+  [/\bhertz\b/gi, 'Hz'],
+  [/\bcoulombs?\b/gi, 'C'],
+  [/\bvolts?\b/gi, 'V'],
+  [/\b(?:amperes?|amps?)\b/gi, 'A'],
+  [/\bohms?\b/gi, 'Ω'],
+  [/\bkelvins?\b/gi, 'K'],
+  [/\bmoles?\b/gi, 'mol'],
+  [/\b(?:litres?|liters?)\b/gi, 'L'],
+  [/\belectron ?volts?\b/gi, 'eV'],
+  [/\bcalories?\b/gi, 'cal'],
+  [/\bradians?\b/gi, 'rad'],
+  [/\bdegrees?\b/gi, '°'],
+  [/\bper ?cent\b/gi, '%'],
+];
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁻': '-',
+};
+
+/** Rewrites superscript powers as "^" powers ("s⁻¹" → "s^-1"). */
+export const normalizeSuperscripts = (text: string): string =>
+  text.replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]+/g, run => '^' + [...run].map(ch => SUPERSCRIPTS[ch]).join(''));
+
+/** Rewrites spoken unit names ("metres per second squared") and superscripts as plain unit symbols ("m / s^2"). */
+export const normalizeUnitText = (text: string): string => {
+  let out = normalizeSuperscripts(text);
+  UNIT_WORDS.forEach(([pattern, symbol]) => { out = out.replace(pattern, symbol); });
+  return out
+    .replace(/\bsquare\s+(\S+)/gi, '$1^2')
+    .replace(/\bcubic\s+(\S+)/gi, '$1^3')
+    .replace(/\s+squared\b/gi, '^2')
+    .replace(/\s+cubed\b/gi, '^3')
+    .replace(/\bper\b/gi, '/');
+};
+
+const lookupSymbol = (symbol: string): ParsedUnit | null => {
+  const exact = UNITS[symbol];
+  if (exact) return exact;
+  for (const [prefix, scale] of Object.entries(PREFIXES)) {
+    const base = symbol.startsWith(prefix) ? UNITS[symbol.slice(prefix.length)] : undefined;
+    if (base?.prefixable) return { factor: scale * base.factor, dimensions: base.dimensions };
+  }
+  return null;
+};
+
+const TERM = /^([A-Za-zΩµμ°%]+)(?:\^?(-?\d+))?$/;
+
+// A symbol, or two written together without a space, as in "Ns" or "kgm".
+const lookupTerm = (symbol: string): { head: ParsedUnit | null; last: ParsedUnit } | null => {
+  const single = lookupSymbol(symbol);
+  if (single) return { head: null, last: single };
+  for (let i = 1; i < symbol.length; i++) {
+    const head = lookupSymbol(symbol.slice(0, i));
+    const last = head && lookupSymbol(symbol.slice(i));
+    if (last) return { head, last };
+  }
+  return null;
+};
+
+/**
+ * Parses a unit expression. Terms may be separated by spaces, "·", "*" or "×" (or written together, as in
+ * "Ns"), raised to a power with "^", a trailing number ("s-1", "m2") or superscripts, and everything after a "/" divides.
+ * An empty expression is dimensionless. Returns null if any part isn't a known unit.
+ */
+export const parseUnit = (text: string): ParsedUnit | null => {
+  const normalized = normalizeUnitText(text).replace(/[()]/g, ' ').trim();
+  let factor = 1;
+  const dimensions: Dimensions = [...DIMENSIONLESS];
+  const groups = normalized.split('/');
+  for (let g = 0; g < groups.length; g++) {
+    const terms = groups[g].split(/[\s·⋅*×]+/).filter(Boolean);
+    if (g > 0 && terms.length === 0) return null;
+    for (const term of terms) {
+      const match = TERM.exec(term);
+      const parsed = match && lookupTerm(match[1]);
+      if (!parsed) return null;
+      const sign = g > 0 ? -1 : 1;
+      // A power written after joined symbols ("kgm^2") applies to the last one only.
+      const parts: [ParsedUnit, number][] = [[parsed.last, (match[2] ? Number(match[2]) : 1) * sign]];
+      if (parsed.head) parts.push([parsed.head, sign]);
+      parts.forEach(([part, power]) => {
+        factor *= part.factor ** power;
+        part.dimensions.forEach((d, i) => { dimensions[i] += d * power; });
+      });
+    }
+  }
+  return { factor, dimensions };
+};
+
+export const sameDimensions = (a: ParsedUnit, b: ParsedUnit): boolean =>
+  a.dimensions.every((d, i) => d === b.dimensions[i]);
+
+export const isDimensionless = (u: ParsedUnit): boolean => u.dimensions.every(d => d === 0);
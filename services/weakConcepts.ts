@@ -0,0 +1,164 @@
+import { SessionRecord, Question } from '../types';
+import { QUESTIONS_PER_SESSION, WEAK_CONCEPT_MIN_OCCURRENCES } from '../constants';
+import { locateQuestion } from './questionBank';
+import { keyTerms } from './offlineEvaluator';
+
+// Weak-concept analytics. The missing concepts and terminology corrections from every graded answer
+// are clustered per chapter, so that the same gap reported in different words counts as one recurring weakness.
+
+export type WeakConceptKind = 'missing' | 'terminology';
+
+export interface WeakConcept {
+  kind: WeakConceptKind;
+  label: string;
+  // The distinct ways the evaluations phrased this gap, most recent first.
+  examples: string[];
+  occurrences: number;
+  sessionCount: number;
+  questionIds: string[];
+  lastSeenAt: number;
+}
+
+export interface ChapterWeakConcepts {
+  subject: string;
+  chapter: string;
+  concepts: WeakConcept[];
+}
+
+interface Observation {
+  kind: WeakConceptKind;
+  text: string;
+  stems: Set<string>;
+  // For terminology corrections: the term the student used and the one they should have.
+  termPair: [string, string] | null;
+  questionId: string;
+  sessionId: string;
+  answeredAt: number;
+}
+
+interface Cluster {
+  seed: Observation;
+  observations: Observation[];
+}
+
+// Two gaps are the same concept when their key terms overlap at least this much (Jaccard similarity).
+const SIMILARITY_THRESHOLD = 0.5;
+
+const TERMINOLOGY_PATTERN = /instead of\s+["“'](.+?)["”'],?\s+(?:try using|use)\s+["“'](.+?)["”']/i;
+
+// Words evaluators use to describe a gap rather than name it; leaving them in would make
+// "Forgot to mention units" and "Omitted units" look like different concepts.
+const FEEDBACK_WORDS = /\b(forgot|forget|forgets|mention|mentioned|mentioning|omit|omits|omitted|missing|missed|misses|include|included|including|state|stated|explain|explained|describe|described|define|defined|definition)\b/gi;
+
+const stemsOf = (text: string): Set<string> => new Set(keyTerms(text.replace(FEEDBACK_WORDS, ' ')).keys());
+
+const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(stem => { if (b.has(stem)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+const sameTermPair = (a: [string, string], b: [string, string]) =>
+  similarity(stemsOf(a[0]), stemsOf(b[0])) >= SIMILARITY_THRESHOLD && similarity(stemsOf(a[1]), stemsOf(b[1])) >= SIMILARITY_THRESHOLD;
+
+const belongsTo = (observation: Observation, cluster: Cluster): boolean => {
+  const { seed } = cluster;
+  if (seed.kind !== observation.kind) return false;
+  if (seed.termPair && observation.termPair) return sameTermPair(seed.termPair, observation.termPair);
+  return similarity(seed.stems, observation.stems) >= SIMILARITY_THRESHOLD;
+};
+
+const LEADING_FEEDBACK_PHRASE = /^(?:forgot|forgets|did not|didn't|does not|doesn't|missed|missing|omitted|omits)\b(?: to)?(?: mention| define| include| state| explain)?\s*(?:the\s+)?/i;
+
+const labelFor = (cluster: Cluster): string => {
+  const { seed, observations } = cluster;
+  if (seed.termPair) return `Confuses "${seed.termPair[0]}" with "${seed.termPair[1]}"`;
+  // The shortest phrasing is usually the most general statement of the gap.
+  const shortest = observations.reduce((best, o) => o.text.length < best.text.length ? o : best).text;
+  return seed.kind === 'terminology' ? shortest : `Repeatedly omits: ${shortest.replace(LEADING_FEEDBACK_PHRASE, '')}`;
+};
+
+const toWeakConcept = (cluster: Cluster): WeakConcept => {
+  const observations = [...cluster.observations].sort((a, b) => b.answeredAt - a.answeredAt);
+  return {
+    kind: cluster.seed.kind,
+    label: labelFor(cluster),
+    examples: Array.from(new Set(observations.map(o => o.text))),
+    occurrences: observations.length,
+    sessionCount: new Set(observations.map(o => o.sessionId)).size,
+    questionIds: Array.from(new Set(observations.map(o => o.questionId))),
+    lastSeenAt: observations[0].answeredAt,
+  };
+};
+
+/**
+ * Recurring gaps per chapter, chapters with the most recurring gaps first. Answers are placed in the
+ * chapter their question belongs to, so review and mock sessions count towards the right chapter too.
+ */
+export const analyzeWeakConcepts = (sessions: SessionRecord[]): ChapterWeakConcepts[] => {
+  const observationsByChapter = new Map<string, { subject: string; chapter: string; observations: Observation[] }>();
+
+  sessions.forEach(session => session.answers.forEach(answer => {
+    if (!answer.result) return;
+    const location = locateQuestion(answer.question.id);
+    const subject = location?.subject ?? session.subject;
+    const chapter = location?.chapter ?? session.chapter;
+    if (!chapter) return;
+    const key = `${subject}\u0000${chapter}`;
+    const group = observationsByChapter.get(key) ?? { subject, chapter, observations: [] };
+    observationsByChapter.set(key, group);
+
+    const observe = (kind: WeakConceptKind, text: string) => {
+      const match = kind === 'terminology' ? TERMINOLOGY_PATTERN.exec(text) : null;
+      const stems = stemsOf(text);
+      if (stems.size === 0) return;
+      group.observations.push({
+        kind,
+        text: text.trim(),
+        stems,
+        termPair: match ? [match[1].trim(), match[2].trim()] : null,
+        questionId: answer.question.id,
+        sessionId: session.id,
+        answeredAt: answer.answeredAt,
+      });
+    };
+    answer.result.missingConcepts.forEach(text => observe('missing', text));
+    answer.result.terminologyCorrections.forEach(text => observe('terminology', text));
+  }));
+
+  const results: ChapterWeakConcepts[] = [];
+  observationsByChapter.forEach(({ subject, chapter, observations }) => {
+    const clusters: Cluster[] = [];
+    observations.forEach(observation => {
+      const cluster = clusters.find(c => belongsTo(observation, c));
+      if (cluster) cluster.observations.push(observation);
+      else clusters.push({ seed: observation, observations: [observation] });
+    });
+    const concepts = clusters
+      .filter(c => c.observations.length >= WEAK_CONCEPT_MIN_OCCURRENCES)
+      .map(toWeakConcept)
+      .sort((a, b) => b.occurrences - a.occurrences || b.lastSeenAt - a.lastSeenAt);
+    if (concepts.length > 0) results.push({ subject, chapter, concepts });
+  });
+
+  return results.sort((a, b) => b.concepts.length - a.concepts.length);
+};
+
+/**
+ * A practice set from the questions behind the given weak concepts. Questions tied to the most
+ * frequent gaps come first; questions no longer in the catalogue are skipped.
+ */
+export const buildTargetedSession = (concepts: WeakConcept[], limit: number = QUESTIONS_PER_SESSION): Question[] => {
+  const questions: Question[] = [];
+  const seen = new Set<string>();
+  [...concepts]
+    .sort((a, b) => b.occurrences - a.occurrences)
+    .forEach(concept => concept.questionIds.forEach(id => {
+      if (seen.has(id)) return;
+      seen.add(id);
+      const location = locateQuestion(id);
+      if (location) questions.push(location.question);
+    }));
+  return questions.slice(0, limit);
+};
@@ -4,11 +4,95 @@ export enum Difficulty {
   Difficult = 'Difficult',
 }
 
+// One value point of a CBSE-style marking scheme. Step marks are awarded per point.
+export interface ValuePoint {
+  id: string;
+  description: string;
+  marks: number;
+  synonyms: string[];
+  mandatory: boolean;
+}
+
 export interface Question {
   id: string;
   prompt: string;
   canonicalAnswer: string;
   maxMarks: number;
+  markingScheme?: ValuePoint[];
+  numericAnswer?: NumericAnswerSpec;
+  // Makes this a diagram labelling question, graded locally against the answer key.
+  labelling?: LabellingSpec;
+  // Makes this an objective question, answered by choosing and graded instantly against the key.
+  // `canonicalAnswer` then explains the right answer.
+  objective?: ObjectiveSpec;
+}
+
+// Objective formats of the CBSE paper, told apart by `type`. Option and column indices are 0-based.
+export type ObjectiveSpec = MultipleChoiceSpec | AssertionReasonSpec | MatchColumnsSpec;
+
+export interface MultipleChoiceSpec {
+  type: 'mcq';
+  options: string[];
+  answer: number;
+}
+
+// The prompt is the instruction; the four standard options are ASSERTION_REASON_OPTIONS.
+export interface AssertionReasonSpec {
+  type: 'assertion-reason';
+  assertion: string;
+  reason: string;
+  answer: number;
+}
+
+export interface MatchColumnsSpec {
+  type: 'match';
+  columnA: string[];
+  // May hold more items than column A, as distractors.
+  columnB: string[];
+  // For each item of column A, the index of its match in column B.
+  answer: number[];
+}
+
+// The answer key of a labelling question. The student names each marker on the diagram; the blanks are
+// numbered in the order of `labels`, whose marks add up to the question's maxMarks.
+export interface LabellingSpec {
+  diagramId: string;
+  labels: DiagramLabel[];
+  // Labels offered to place on the blanks, distractors included. Without one the labels are typed.
+  wordBank?: string[];
+}
+
+export interface DiagramLabel {
+  // Which of the diagram's markers this blank is.
+  markerId: string;
+  answer: string;
+  // Other names accepted for the part, e.g. "plasma membrane" for "cell membrane".
+  accepted?: string[];
+  marks: number;
+}
+
+// A picture for labelling questions, kept in the question bank next to the questions that use it.
+export interface Diagram {
+  id: string;
+  title: string;
+  // SVG markup, drawn with pointer lines ending at the markers.
+  svg: string;
+  // Where each blank goes, in percent of the picture's width and height.
+  markers: { id: string; x: number; y: number }[];
+}
+
+// The final result of a computational question. It is checked locally; the evaluator grades only the
+// working, out of the question's remaining marks (which a marking scheme, if any, must add up to).
+export interface NumericAnswerSpec {
+  value: number;
+  // The unit `value` is in, e.g. "m/s^2" or "kJ mol^-1"; empty for a pure number.
+  unit: string;
+  // Significant figures the answer should be given to; any precision is accepted when omitted.
+  significantFigures?: number;
+  // Accepted relative error, e.g. 0.01 for ±1%.
+  relativeTolerance: number;
+  // Marks for the final answer.
+  marks: number;
 }
 
 export interface Chapter {
@@ -36,4 +120,176 @@ export interface EvaluationResult {
   missingConcepts: string[];
   terminologyCorrections: string[];
   modelAnswerImprovement: string;
-}
\ No newline at end of file
+  awardedPoints?: AwardedPoint[];
+  // Set when the result was served from the local evaluation cache instead of a fresh grading call.
+  cached?: boolean;
+  // For questions with a numeric answer spec: how the final answer fared. Its marks are included in `score`.
+  numericCheck?: NumericCheck;
+  // For Chemistry questions: the balance check of each equation found in the answer.
+  equationChecks?: EquationCheck[];
+  // For answers submitted as photos: how any diagram was drawn and labelled. Its marks are included in `score`.
+  diagramFeedback?: string;
+  // For labelling questions: each blank as marked, in order.
+  labelChecks?: LabelCheck[];
+}
+
+export interface LabelCheck {
+  answer: string;
+  expected: string;
+  correct: boolean;
+  marksAwarded: number;
+  marks: number;
+}
+
+// A photo of a handwritten answer, base64-encoded without the data: URL prefix.
+export interface AnswerImage {
+  mimeType: string;
+  data: string;
+}
+
+export interface EquationCheck {
+  // The equation as read from the answer, e.g. "2 H2 + O2 → 2 H2O".
+  equation: string;
+  balanced: boolean;
+  // Elements whose atom counts differ between the two sides.
+  imbalances: { element: string; reactants: number; products: number }[];
+  reactantCharge: number;
+  productCharge: number;
+  chargeBalanced: boolean;
+}
+
+export interface NumericCheck {
+  // The final answer as read from the student's text, e.g. "2.96 × 10^5 N"; null if none was found.
+  answer: string | null;
+  valueCorrect: boolean;
+  unitCorrect: boolean;
+  significantFiguresCorrect: boolean;
+  marksAwarded: number;
+  marks: number;
+  feedback: string;
+}
+
+export interface AwardedPoint {
+  pointId: string;
+  marksAwarded: number;
+}
+
+// The fields of an evaluation that have arrived so far while it is being streamed.
+export type PartialEvaluation = Partial<Pick<EvaluationResult, 'score' | 'isCorrect' | 'feedback' | 'missingConcepts' | 'terminologyCorrections'>>;
+
+export type EvaluatorId = 'gemini' | 'offline';
+
+export interface Evaluator {
+  id: EvaluatorId;
+  label: string;
+  // `images` are photos of a handwritten answer, graded together with any typed text.
+  evaluate: (question: Question, studentAnswer: string, images?: AnswerImage[]) => Promise<EvaluationResult>;
+  // Backends that can stream report partial results through `onPartial` before resolving.
+  evaluateStreaming?: (question: Question, studentAnswer: string, onPartial: (partial: PartialEvaluation) => void, images?: AnswerImage[]) => Promise<EvaluationResult>;
+  // Whether the backend can read `images`; those that can't grade the typed text alone.
+  acceptsImages?: boolean;
+}
+
+export interface SessionAnswer {
+  question: Question;
+  studentAnswer: string;
+  // Photos of the handwritten answer, when it was submitted that way.
+  images?: AnswerImage[];
+  result: EvaluationResult | null;
+  answeredAt: number;
+  // Time from the question being shown to it being submitted or skipped. Missing in older records.
+  timeSpentMs?: number;
+  // Set when grading failed and the answer is waiting to be re-evaluated (result is then null).
+  evaluationError?: string;
+  // The follow-up conversation with the tutor about this answer, if the student started one.
+  tutorChat?: TutorMessage[];
+  // Hints opened before answering, and the marks they cost (already taken off result.score).
+  hintsUsed?: number;
+  hintDeduction?: number;
+  // The level the question was asked at, recorded in adaptive sessions where it changes from question to question.
+  difficulty?: Difficulty;
+}
+
+export interface TutorMessage {
+  role: 'student' | 'tutor';
+  text: string;
+  sentAt: number;
+}
+
+// 'instant' grades each answer on submit; 'deferred' collects the whole paper and grades it at the end.
+export type GradingMode = 'instant' | 'deferred';
+
+// Exam conditions for a session. Time allowed scales with marks, like a board paper.
+export interface ExamSettings {
+  enabled: boolean;
+  secondsPerMark: number;
+  // Also enforce a limit on each question (its marks × secondsPerMark), not just the whole paper.
+  perQuestionLimit: boolean;
+}
+
+// 'practice' draws from one chapter and difficulty; 'review' is a spaced-repetition set across the whole catalogue;
+// 'mock' is a blueprint-built paper spanning several chapters of one subject; 'targeted' revisits the questions
+// behind a chapter's recurring weak concepts; 'adaptive' draws from all of a chapter's difficulties, moving up
+// or down with the student's answers.
+export type SessionMode = 'practice' | 'review' | 'mock' | 'targeted' | 'adaptive';
+
+// How a mock test paper is put together, in the style of a CBSE question paper blueprint.
+export interface MockTestBlueprint {
+  subject: string;
+  // Chapters to draw from; empty means the whole subject.
+  chapters: string[];
+  // Number of questions wanted per mark value, e.g. { 2: 5, 4: 3, 6: 2 }.
+  questionsByMarks: Record<number, number>;
+  // Relative weight of each chapter; chapters left out get a weight of 1.
+  chapterWeightage: Record<string, number>;
+  totalMarks: number;
+}
+
+// A completed session as kept in the history store. Timestamps are epoch milliseconds.
+// Review and mock sessions span chapters, so they have no single chapter or difficulty.
+export interface SessionRecord {
+  id: string;
+  schemaVersion: number;
+  profileId: string;
+  mode: SessionMode;
+  subject: string;
+  chapter: string;
+  difficulty: Difficulty | null;
+  startedAt: number;
+  completedAt: number;
+  answers: SessionAnswer[];
+  totalScore: number;
+  maxPossibleScore: number;
+}
+
+export interface ProgressRecord {
+  streak: number;
+  longestStreak: number;
+}
+
+// Settings a student chooses on the setup screen, remembered per profile.
+export interface ProfileSettings {
+  examSettings: ExamSettings;
+  gradingMode: GradingMode;
+}
+
+// A student on a shared device. History, streak and settings all belong to one profile.
+export interface Profile {
+  id: string;
+  name: string;
+  // An emoji shown on the profile switcher.
+  avatar: string;
+  // SHA-256 of the PIN salted with the profile id; absent when the profile has no PIN.
+  pinHash?: string;
+  createdAt: number;
+  settings: ProfileSettings;
+}
+
+// A question written by Gemini, waiting in the review queue until a teacher approves or rejects it.
+export interface PendingQuestion {
+  subject: string;
+  chapter: string;
+  difficulty: Difficulty;
+  question: Question;
+  generatedAt: number;
+}